@@ -1,7 +1,7 @@
 import { BrowserSession } from '../browser/session';
 import { Controller } from '../controller/service';
 import { BaseLLM } from '../llm/base';
-import { AgentSettings, AgentStep, AgentHistory, Action, ActionResult, DOMState, PlanningResult, ReflectionResult, AgentState, AgentOutput } from '../types';
+import { AgentSettings, AgentStep, AgentHistory, Action, ActionResult, DOMState, DOMElement, PlanningResult, ReflectionResult, AgentState, AgentOutput, ApprovalDecision, LLMUsageEvent, UsageSummary, NetworkLogEntry, ScreenshotOptions, COORDINATE_ACTION_TYPES } from '../types';
 import { logger } from '../utils/logger';
 import { MemoryService } from '../memory/service';
 import { PlanningService } from '../planning/service';
@@ -11,6 +11,14 @@ import { PerformanceMonitoringService } from '../monitoring/service';
 import { MessageManager } from '../message/manager';
 import { PluginManager } from '../plugins/manager';
 import { PluginRegistry } from '../plugins/registry';
+import { RunHistoryService } from '../history/service';
+import { ApprovalService } from '../approval/service';
+import { Validator } from '../utils/validation';
+import { SecretVault } from '../secrets/service';
+import { ContentSanitizer } from '../dom/content-sanitizer';
+import { diffDOMStates } from '../dom/dom-diff';
+import { resolveFingerprint } from '../dom/element-identity';
+import { UsageTracker } from '../usage/service';
 
 /**
  * 智能代理服务 - 浏览器自动化的核心AI大脑
@@ -19,7 +27,7 @@ import { PluginRegistry } from '../plugins/registry';
  * 然后自动操作浏览器来完成各种复杂的网页操作。
  * 它会思考、规划、执行，还会从错误中学习，越用越聪明。
  */
-export class Agent {
+export class Agent<TOutput = any> {
   private task: string;                    // 要执行的任务描述，就是你告诉它要做什么
   private llm: BaseLLM;                   // AI大脑，负责思考和决策
   private browserSession: BrowserSession; // 浏览器会话，它的工作环境
@@ -46,6 +54,42 @@ export class Agent {
   private currentPlan?: PlanningResult; // 当前执行计划
   private lastReflection?: ReflectionResult; // 最近的反思结果
 
+  // 运行记录持久化
+  private runHistoryService?: RunHistoryService;
+  private runId?: string;
+  private detachRunLog?: () => void;
+  private harFile?: string;
+  private traceFile?: string;
+  private videoDir?: string;
+
+  // 人工审批与暂停控制
+  private approvalService?: ApprovalService;
+  private resumeWaiters: Array<() => void> = [];
+  private pauseRequested: boolean = false;     // 用户调用了 pause()，审批结束后保持暂停
+  private approvalAbort?: AbortController;     // 等待中的审批，stop() 时取消
+
+  // 结构化输出
+  private output?: TOutput;
+  private outputValidationFailures: number = 0;
+
+  // 密钥保管库，LLM和日志只能看到占位符
+  private secretVault?: SecretVault;
+  private detachRedactor?: () => void;
+
+  // 页面内容清洗，防止提示词注入
+  private contentSanitizer: ContentSanitizer = new ContentSanitizer();
+
+  // 上一步发给LLM的页面状态，diff 提示词模式以它为基准
+  private lastPromptState?: DOMState;
+
+  // token用量、费用和预算
+  private usageTracker: UsageTracker;
+  private detachUsage?: () => void;
+  private stopReason?: string;
+
+  // 步骤订阅者（API服务器通过它推送实时进度）
+  private stepListeners: Array<(step: AgentStep) => void> = [];
+
   /**
    * 创建智能代理实例
    * 就像雇佣一个AI助手，告诉它要做什么，给它配置好工具和环境
@@ -85,6 +129,7 @@ export class Agent {
       maxConsecutiveFailures: 5,
       maxSimilarActions: 3,
       enablePlugins: true,
+      maxOutputValidationRetries: 2,
       ...settings,
     };
 
@@ -106,10 +151,21 @@ export class Agent {
     };
 
     // Initialize message manager
-    this.messageManager = new MessageManager(this.task);
+    this.messageManager = new MessageManager(this.task, undefined, undefined, this.settings.domPromptMode);
+
+    this.usageTracker = new UsageTracker(this.settings.modelPrices);
+
+    // 配置了审批回调时，敏感操作执行前需要人工确认
+    if (this.settings.approvalHandler) {
+      this.approvalService = new ApprovalService(this.settings.approvalHandler, this.settings.approvalCategories);
+    }
+
+    if (this.settings.secrets && Object.keys(this.settings.secrets).length > 0) {
+      this.secretVault = new SecretVault(this.settings.secrets);
+    }
 
     // 初始化基础Controller（不带插件系统）
-    this.controller = new Controller(this.browserSession);
+    this.controller = new Controller(this.browserSession, undefined, undefined, this.secretVault);
 
     // Initialize advanced services if enabled (async initialization will be done in run method)
     this.initializeServices();
@@ -119,8 +175,19 @@ export class Agent {
    * 开始执行任务 - 这是智能代理的主入口
    * @returns 执行历史记录
    */
-  async run(): Promise<AgentHistory> {
+  async run(): Promise<AgentHistory<TOutput>> {
+    // 独立的日志上下文：并发运行的任务各自只把自己的日志写进运行记录
+    return logger.runInContext(() => this.execute());
+  }
+
+  private async execute(): Promise<AgentHistory<TOutput>> {
     try {
+      if (this.secretVault) {
+        const vault = this.secretVault;
+        this.detachRedactor = logger.addRedactor(text => vault.redact(text));
+      }
+      this.startRunRecording();
+      this.detachUsage = this.llm.addUsageListener(event => this.recordUsage(event));
       logger.info(`开始执行代理任务: ${this.task}`, 'Agent');
       this.state.startTime = new Date();
 
@@ -128,6 +195,7 @@ export class Agent {
       if (!this.browserSession.isStarted()) {
         await this.browserSession.start();
       }
+      this.attachRecordings();
 
       // 确保插件系统已初始化
       if (!this.pluginManager || !this.pluginRegistry) {
@@ -137,6 +205,23 @@ export class Agent {
       // 执行步骤直到完成或达到最大步数
       for (let stepNumber = 1; stepNumber <= this.settings.maxSteps!; stepNumber++) {
         this.state.stepNumber = stepNumber;
+        this.usageTracker.setCurrentStep(stepNumber);
+
+        // 被暂停时在这里等待恢复
+        await this.waitWhilePaused();
+        if (this.state.stopped) {
+          break;
+        }
+
+        // 超出token/费用预算时在调用LLM之前停下
+        const budgetReason = this.usageTracker.getBudgetExceededReason({
+          maxTokens: this.settings.maxTokens,
+          maxCost: this.settings.maxCost,
+        });
+        if (budgetReason) {
+          this.stopForBudget(stepNumber, budgetReason);
+          break;
+        }
 
         try {
           // 获取当前 DOM 状态
@@ -157,7 +242,7 @@ export class Agent {
           if (this.settings.useVision) {
             logger.info('📸 开始截图...', 'Agent');
             try {
-              screenshot = await this.controller.takeScreenshot();
+              screenshot = await this.controller.takeScreenshot(this.getScreenshotOptions(domState));
               const screenshotSize = screenshot ? screenshot.length : 0;
               logger.info(`📸 截图完成，大小: ${screenshotSize} 字符 (${Math.round(screenshotSize/1024)}KB)`, 'Agent');
             } catch (error: any) {
@@ -167,9 +252,11 @@ export class Agent {
           } else {
             logger.info('📸 视觉功能已禁用，跳过截图', 'Agent');
           }
+          await this.recordScreenshot(stepNumber, screenshot);
 
           // 生成历史记录字符串
-          const agentHistory = this.messageManager.formatAgentHistory(this.history);
+          const formattedHistory = this.messageManager.formatAgentHistory(this.history);
+          const agentHistory = this.secretVault ? this.secretVault.redact(formattedHistory) : formattedHistory;
 
           // 获取所有标签页信息供AI决策
           const tabsInfo = this.browserSession.getAllTabsInfo ? this.browserSession.getAllTabsInfo() : [];
@@ -178,8 +265,25 @@ export class Agent {
           const allPlugins = this.pluginRegistry ? this.pluginRegistry.getManager().getAllPlugins() : [];
           const availablePlugins = allPlugins.map(plugin => plugin.config);
 
+          // 页面内容不可信：隔离类似指令的文本，命中的内容作为警告记录到本步结果中
+          const promptState = this.prepareStateForLLM(domState);
+          const contentWarnings = this.contentSanitizer.describeFindings(promptState.injectionFindings || []);
+
+          // 截图可能被缩放，坐标操作需要视口尺寸来换算截图上的位置
+          if (screenshot) {
+            promptState.viewport = await this.browserSession.getViewportSize();
+          }
+
           // 从 LLM 获取下一步操作（结构化输出）
-          const agentOutput: AgentOutput = await this.llm.generateAction(this.task, domState, screenshot, agentHistory, tabsInfo, availablePlugins);
+          const agentOutput: AgentOutput = await this.llm.generateAction(
+            this.getTaskForLLM(),
+            promptState,
+            screenshot,
+            agentHistory,
+            tabsInfo,
+            availablePlugins,
+            this.settings.outputSchema
+          );
 
           // 🔍 添加详细日志：打印 AI 返回的原始数据
           logger.info('🔍 AI 返回的完整数据:', 'Agent');
@@ -223,7 +327,7 @@ export class Agent {
                 logger.info('✅ 标签页切换成功', 'Agent');
                 // 切换后需要重新获取DOM状态
                 domState = await this.browserSession.getDOMState();
-                screenshot = this.settings.useVision ? await this.browserSession.takeScreenshot() : undefined;
+                screenshot = this.settings.useVision ? await this.browserSession.takeScreenshot(this.getScreenshotOptions(domState)) : undefined;
               } else {
                 logger.warn('⚠️ 标签页切换失败', 'Agent');
               }
@@ -271,7 +375,7 @@ export class Agent {
                 agentOutput: doneAction,
               };
 
-              this.history.push(step);
+              this.recordStep(step);
               this.completed = true;
               this.success = false;
               logger.warn('Task forcibly completed due to repeated failures', 'Agent');
@@ -281,73 +385,168 @@ export class Agent {
             continue;
           }
 
+          // 本步要顺序执行的操作（受 maxActionsPerStep 限制）
+          const actions = this.getActionSequence(agentOutput);
+          agentOutput.actions = actions;
+
           // 验证操作
-          this.validateAction(agentOutput.action);
+          actions.forEach(action => this.validateAction(action));
 
-          // 执行操作
-          const stepStartTime = Date.now();
-          const result = await this.controller.executeAction(agentOutput.action);
-          const stepDuration = (Date.now() - stepStartTime) / 1000;
+          const initialUrl = domState.url;
 
+          for (let actionIndex = 0; actionIndex < actions.length; actionIndex++) {
+            const action = actions[actionIndex];
 
+            // 后续操作的索引基于LLM看到的页面，页面一旦变化就必须放弃
+            if (actionIndex > 0) {
+              const invalidReason = await this.getSequenceInvalidReason(domState, action, initialUrl);
+              if (invalidReason) {
+                logger.info(`⏹️ 放弃本步剩余的 ${actions.length - actionIndex} 个操作: ${invalidReason}`, 'Agent');
+                break;
+              }
+            }
+
+            // 记录执行前的目标元素，导航后domState会被刷新
+            const targetElement = this.findTargetElement(domState, action);
+
+            // 敏感操作先交给人工审批，被拒绝时记录失败并让LLM重新决策
+            const approval = await this.requestApprovalIfNeeded(stepNumber, action, targetElement, agentOutput, domState.url);
+            if (approval && !approval.approved) {
+              const rejectedResult: ActionResult = {
+                success: false,
+                error: `Action rejected by human reviewer${approval.reason ? `: ${approval.reason}` : ''}`,
+                message: `The ${action.type} action was not approved. Choose a different approach or finish with done.`,
+              };
+              this.updateState(agentOutput, action, rejectedResult);
+              this.recordStep({
+                stepNumber,
+                action,
+                result: rejectedResult,
+                domState,
+                targetElement,
+                actionIndex,
+                timestamp: new Date(),
+                agentOutput,
+              });
+              this.logStepCompletion(stepNumber, action, rejectedResult, 0);
+              break;
+            }
+            if (this.state.stopped) {
+              break;
+            }
 
-          // Check if navigation was detected and refresh DOM state immediately
-          if (result.navigationDetected) {
-            logger.info('🔄 Navigation detected, refreshing DOM state for next step...', 'Agent');
+            // done.data 必须符合 outputSchema，不符合时把错误反馈给LLM重试
+            const outputError = this.validateDoneOutput(action);
+            if (outputError) {
+              this.outputValidationFailures++;
+              const retriesLeft = this.settings.maxOutputValidationRetries! - this.outputValidationFailures;
+              const invalidResult: ActionResult = {
+                success: false,
+                error: outputError,
+                message: retriesLeft >= 0
+                  ? 'The done action was rejected because "data" does not match the output schema. Fix the data and call done again.'
+                  : 'Output validation retries exhausted',
+              };
+              logger.warn(`⚠️ ${outputError}`, 'Agent');
+              this.updateState(agentOutput, action, invalidResult);
+              this.recordStep({
+                stepNumber,
+                action,
+                result: invalidResult,
+                domState,
+                actionIndex,
+                timestamp: new Date(),
+                agentOutput,
+              });
+              this.logStepCompletion(stepNumber, action, invalidResult, 0);
+
+              if (retriesLeft < 0) {
+                logger.error('done.data 多次未通过Schema校验，任务以失败结束', undefined, 'Agent');
+                this.completed = true;
+                this.success = false;
+              }
+              break;
+            }
 
-            // CRITICAL: Wait a bit more for SPA content to fully load before getting DOM state
-            await new Promise(resolve => setTimeout(resolve, 1500));
+            // 执行操作
+            const stepStartTime = Date.now();
+            const result = await this.controller.executeAction(this.withTargetFingerprint(action, targetElement));
+            const stepDuration = (Date.now() - stepStartTime) / 1000;
 
+            // Check if navigation was detected and refresh DOM state immediately
+            if (result.navigationDetected) {
+              logger.info('🔄 Navigation detected, refreshing DOM state for next step...', 'Agent');
 
+              // CRITICAL: Wait a bit more for SPA content to fully load before getting DOM state
+              await new Promise(resolve => setTimeout(resolve, 1500));
 
-            // Get fresh DOM state immediately after navigation
-            domState = await this.controller.getCurrentState();
-            logger.info(`✅ Fresh DOM state obtained: ${domState.elements.length} elements found`, 'Agent');
+              // Get fresh DOM state immediately after navigation
+              domState = await this.controller.getCurrentState();
+              logger.info(`✅ Fresh DOM state obtained: ${domState.elements.length} elements found`, 'Agent');
 
-            // Log first few elements to verify we got the new page content
-            if (domState.elements.length > 0) {
-              logger.info(`🔍 First element after navigation: ${domState.elements[0].tag} - "${domState.elements[0].text}"`, 'Agent');
-              if (domState.elements.length > 1) {
-                logger.info(`🔍 Second element after navigation: ${domState.elements[1].tag} - "${domState.elements[1].text}"`, 'Agent');
+              // Log first few elements to verify we got the new page content
+              if (domState.elements.length > 0) {
+                logger.info(`🔍 First element after navigation: ${domState.elements[0].tag} - "${domState.elements[0].text}"`, 'Agent');
+                if (domState.elements.length > 1) {
+                  logger.info(`🔍 Second element after navigation: ${domState.elements[1].tag} - "${domState.elements[1].text}"`, 'Agent');
+                }
               }
             }
-          }
-
-          // Update state based on result
-          this.updateState(agentOutput, result);
-
-          // Create step record
-          const step: AgentStep = {
-            stepNumber,
-            action: agentOutput.action,
-            result,
-            domState,
-            timestamp: new Date(),
-            agentOutput,
-          };
 
-          this.history.push(step);
+            // Update state based on result
+            this.updateState(agentOutput, action, result);
+
+            // Create step record
+            const step: AgentStep = {
+              stepNumber,
+              action,
+              result,
+              domState,
+              targetElement,
+              actionIndex,
+              networkLog: this.collectNetworkLog(),
+              timestamp: new Date(),
+              agentOutput,
+            };
+
+            this.recordStep(step);
+
+            // Log detailed step completion
+            this.logStepCompletion(stepNumber, action, result, stepDuration);
+
+            // Check if task is complete
+            if (action.type === 'done') {
+              this.completed = true;
+              this.success = (action as any).success || false;
+              if (this.settings.outputSchema && (action as any).data !== undefined) {
+                this.output = (action as any).data as TOutput;
+              }
+              const message = (action as any).message || 'Task completed';
 
-          // Log detailed step completion
-          this.logStepCompletion(stepNumber, agentOutput.action, result, stepDuration);
+              if (this.success) {
+                logger.success(`Task completed successfully: ${message}`, 'Agent');
+              } else {
+                logger.warn(`Task completed with issues: ${message}`, 'Agent');
+              }
+              break;
+            }
 
-          // Check if task is complete
-          if (agentOutput.action.type === 'done') {
-            this.completed = true;
-            this.success = (agentOutput.action as any).success || false;
-            const message = (agentOutput.action as any).message || 'Task completed';
+            // Check if action failed
+            if (!result.success) {
+              logger.warn(`Action failed, continuing with next step`, 'Agent');
+              break;
+            }
 
-            if (this.success) {
-              logger.success(`Task completed successfully: ${message}`, 'Agent');
-            } else {
-              logger.warn(`Task completed with issues: ${message}`, 'Agent');
+            // 导航后旧页面的索引全部失效
+            if (result.navigationDetected) {
+              break;
             }
-            break;
           }
 
-          // Check if action failed
-          if (!result.success) {
-            logger.warn(`Action failed, continuing with next step`, 'Agent');
+          this.attachStepWarnings(stepNumber, contentWarnings);
+
+          if (this.completed) {
+            break;
           }
 
           // 稍微等一下，让页面稳定
@@ -368,7 +567,7 @@ export class Agent {
             timestamp: new Date(),
           };
 
-          this.history.push(errorStep);
+          this.recordStep(errorStep);
 
           // Continue to next step unless it's a critical error
           if (this.isCriticalError(error)) {
@@ -396,6 +595,250 @@ export class Agent {
       this.completed = true;
       this.success = false;
       throw error;
+    } finally {
+      this.detachUsage?.();
+      this.detachUsage = undefined;
+      await this.finishRunRecording();
+      this.detachRedactor?.();
+      this.detachRedactor = undefined;
+    }
+  }
+
+  private recordUsage(event: LLMUsageEvent): void {
+    const cost = this.usageTracker.record(event);
+    const total = this.usageTracker.getTotals();
+    logger.debug(
+      `💰 ${event.service} 调用 ${event.endpoint || event.model}: ${event.usage.totalTokens} tokens, $${cost.toFixed(4)} (累计 ${total.totalTokens} tokens, $${total.cost.toFixed(4)})`,
+      'Agent'
+    );
+  }
+
+  /**
+   * 超出预算时以失败结束任务，并在历史中记录原因
+   */
+  private stopForBudget(stepNumber: number, reason: string): void {
+    logger.warn(`💰 ${reason}，停止执行`, 'Agent');
+
+    this.recordStep({
+      stepNumber,
+      action: { type: 'done', message: reason, success: false } as Action,
+      result: {
+        success: false,
+        error: reason,
+        message: `Run stopped before step ${stepNumber}: ${reason}`,
+      },
+      timestamp: new Date(),
+    });
+
+    this.stopReason = reason;
+    this.completed = true;
+    this.success = false;
+  }
+
+  /**
+   * 取出本操作期间的网络请求日志，同时计入性能统计
+   */
+  private collectNetworkLog(): NetworkLogEntry[] | undefined {
+    const entries = this.browserSession.consumeNetworkLog();
+    for (let i = 0; i < entries.length; i++) {
+      this.performanceMonitoringService?.recordNetworkRequest();
+    }
+    return entries.length > 0 ? entries : undefined;
+  }
+
+  /**
+   * 订阅新记录的步骤（已脱敏），返回取消订阅的函数
+   */
+  addStepListener(listener: (step: AgentStep) => void): () => void {
+    this.stepListeners.push(listener);
+    return () => {
+      this.stepListeners = this.stepListeners.filter(l => l !== listener);
+    };
+  }
+
+  private recordStep(step: AgentStep): void {
+    this.history.push(step);
+
+    if (this.stepListeners.length === 0) {
+      return;
+    }
+    const published = this.secretVault ? this.secretVault.redactDeep(step) : step;
+    for (const listener of this.stepListeners) {
+      try {
+        listener(published);
+      } catch (error) {
+        logger.debug(`Step listener failed: ${error}`, 'Agent');
+      }
+    }
+  }
+
+  /**
+   * 本次运行的token用量和费用明细
+   */
+  getUsage(): UsageSummary {
+    return this.usageTracker.getSummary();
+  }
+
+  /**
+   * 发给LLM的页面状态：密钥脱敏 + 隔离疑似提示词注入的内容
+   */
+  private prepareStateForLLM(domState: DOMState): DOMState {
+    const redacted = this.secretVault ? this.secretVault.redactDeep(domState) : domState;
+    const sanitized = this.contentSanitizer.sanitizeDOMState(redacted);
+
+    for (const finding of sanitized.injectionFindings || []) {
+      const location = finding.elementIndex !== undefined ? `[${finding.elementIndex}] ${finding.field}` : finding.field;
+      logger.warn(`🛡️ 疑似提示词注入已隔离 ${location}${finding.hidden ? ' (隐藏元素)' : ''} (${finding.rule}): "${finding.excerpt}"`, 'Agent');
+    }
+
+    return this.attachPromptDiff(sanitized);
+  }
+
+  /**
+   * diff 模式：页面没有导航时只详细描述和上一步相比变化的元素
+   *
+   * DOMService 附带的差异基于它的上一次快照，中间可能有LLM没看到的快照（如操作后的刷新），
+   * 所以这里以上一步实际发给LLM的状态为基准重新计算。
+   */
+  private attachPromptDiff(state: DOMState): DOMState {
+    const { diff: _ignored, ...fullState } = state;
+    if (this.settings.domPromptMode !== 'diff') {
+      return fullState;
+    }
+
+    const previous = this.lastPromptState;
+    this.lastPromptState = fullState;
+    const diff = previous ? diffDOMStates(previous, fullState) : null;
+
+    // 大部分元素都变了时差异不比完整列表短，直接发送完整列表
+    if (!diff || diff.added.length + diff.changed.length > fullState.elements.length / 2) {
+      return fullState;
+    }
+
+    logger.info(`🔁 发送页面差异: +${diff.added.length} ~${diff.changed.length} -${diff.removed.length} (${diff.unchanged.length} 未变)`, 'Agent');
+    return { ...fullState, diff };
+  }
+
+  private attachStepWarnings(stepNumber: number, warnings: string[]): void {
+    if (warnings.length === 0) {
+      return;
+    }
+
+    for (const step of this.history) {
+      if (step.stepNumber === stepNumber) {
+        step.result.warnings = [...(step.result.warnings || []), ...warnings];
+      }
+    }
+  }
+
+  /**
+   * 发给LLM的任务描述：真实值替换为占位符，并告知可用的密钥占位符
+   */
+  private getTaskForLLM(): string {
+    if (!this.secretVault) {
+      return this.task;
+    }
+
+    const placeholders = this.secretVault.getNames().map(name => SecretVault.placeholder(name));
+    return `${this.secretVault.redact(this.task)}\n\n` +
+      `Available secrets (type the placeholder exactly as written, the real value is filled in automatically): ${placeholders.join(', ')}`;
+  }
+
+  /**
+   * 当前运行记录的ID（未启用 saveRuns 时为 undefined）
+   */
+  getRunId(): string | undefined {
+    return this.runId;
+  }
+
+  getRunDirectory(): string | undefined {
+    return this.runId && this.runHistoryService ? this.runHistoryService.getRunDirectory(this.runId) : undefined;
+  }
+
+  private startRunRecording(): void {
+    if (!this.settings.saveRuns) {
+      return;
+    }
+
+    try {
+      this.runHistoryService = new RunHistoryService(this.settings.runsDirectory);
+      this.runId = this.runHistoryService.createRun();
+      const service = this.runHistoryService;
+      const runId = this.runId;
+      this.detachRunLog = logger.addSink(line => service.appendLog(runId, line));
+      logger.info(`📁 运行记录目录: ${service.getRunDirectory(runId)}`, 'Agent');
+    } catch (error) {
+      logger.warn(`无法创建运行记录目录: ${error instanceof Error ? error.message : String(error)}`, 'Agent');
+      this.runHistoryService = undefined;
+      this.runId = undefined;
+    }
+  }
+
+  /**
+   * 浏览器在录制HAR、trace或视频时，关闭后把录制文件复制到运行目录
+   */
+  private attachRecordings(): void {
+    if (!this.runHistoryService || !this.runId) {
+      return;
+    }
+
+    const recordings = this.browserSession.getActiveRecordings();
+    this.harFile = recordings.har ? this.runHistoryService.getHarPath(this.runId) : undefined;
+    this.traceFile = recordings.trace ? this.runHistoryService.getTracePath(this.runId) : undefined;
+    this.videoDir = recordings.videoDir ? this.runHistoryService.getVideoDirectory(this.runId) : undefined;
+    this.browserSession.exportRecordingsTo({ har: this.harFile, trace: this.traceFile, videoDir: this.videoDir });
+  }
+
+  /**
+   * 视觉模式的截图选项：开启 screenshotMarks 时在截图上标注当前快照的元素索引
+   */
+  private getScreenshotOptions(domState: DOMState): ScreenshotOptions {
+    return {
+      marks: this.settings.screenshotMarks ? domState.elements : undefined,
+      maxSize: this.settings.screenshotMaxSize,
+    };
+  }
+
+  /**
+   * 运行记录保存每一步的原始截图，与是否开启视觉无关；
+   * 视觉截图带有元素标注或被缩放时另外截一张
+   */
+  private async recordScreenshot(stepNumber: number, visionScreenshot?: string): Promise<void> {
+    if (!this.runHistoryService || !this.runId) {
+      return;
+    }
+
+    try {
+      const isPlain = visionScreenshot && !this.settings.screenshotMarks && !this.settings.screenshotMaxSize;
+      const screenshot = isPlain ? visionScreenshot : await this.controller.takeScreenshot();
+      this.runHistoryService.saveScreenshot(this.runId, stepNumber, screenshot);
+    } catch (error) {
+      logger.debug(`Failed to save screenshot for step ${stepNumber}: ${error}`, 'Agent');
+    }
+  }
+
+  private async finishRunRecording(): Promise<void> {
+    if (!this.runHistoryService || !this.runId) {
+      return;
+    }
+
+    try {
+      if (this.browserSession.isStarted()) {
+        // 和 history.json 一样脱敏：输入过密钥的字段会把明文留在 value 属性里
+        const finalState = await this.controller.getCurrentState();
+        this.runHistoryService.saveFinalDOM(this.runId, this.secretVault ? this.secretVault.redactDeep(finalState) : finalState);
+      }
+    } catch (error) {
+      logger.debug(`Failed to capture final DOM snapshot: ${error}`, 'Agent');
+    }
+
+    try {
+      this.runHistoryService.saveHistory(this.runId, this.getHistory());
+    } catch (error) {
+      logger.warn(`保存运行记录失败: ${error instanceof Error ? error.message : String(error)}`, 'Agent');
+    } finally {
+      this.detachRunLog?.();
+      this.detachRunLog = undefined;
     }
   }
 
@@ -417,6 +860,84 @@ export class Agent {
     logger.info('Stopping agent execution', 'Agent');
     this.completed = true;
     this.success = false;
+    this.state.stopped = true;
+    this.approvalAbort?.abort();
+    this.resume();
+  }
+
+  /**
+   * 暂停代理，当前操作完成后在下一步开始前停下
+   */
+  pause(): void {
+    if (!this.pauseRequested) {
+      logger.info('⏸️ 代理已暂停', 'Agent');
+    }
+    this.pauseRequested = true;
+    this.state.paused = true;
+  }
+
+  /**
+   * 恢复被暂停的代理
+   */
+  resume(): void {
+    if (this.state.paused) {
+      logger.info('▶️ 代理已恢复', 'Agent');
+    }
+    this.pauseRequested = false;
+    this.state.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  isPaused(): boolean {
+    return this.state.paused;
+  }
+
+  private async waitWhilePaused(): Promise<void> {
+    while (this.state.paused && !this.state.stopped) {
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * 需要审批时请求人工确认，审批期间代理处于暂停状态
+   */
+  private async requestApprovalIfNeeded(
+    stepNumber: number,
+    action: Action,
+    element: DOMElement | undefined,
+    agentOutput: AgentOutput,
+    url: string
+  ): Promise<ApprovalDecision | null> {
+    if (!this.approvalService) {
+      return null;
+    }
+
+    const category = this.approvalService.getCategory(action, element);
+    if (!category) {
+      return null;
+    }
+
+    this.state.paused = true;
+    this.approvalAbort = new AbortController();
+    try {
+      return await this.approvalService.requestApproval({
+        id: this.generateId('approval'),
+        task: this.task,
+        stepNumber,
+        category,
+        action,
+        element,
+        url,
+        reason: agentOutput.next_goal,
+        timestamp: new Date(),
+      }, this.approvalAbort.signal);
+    } finally {
+      this.approvalAbort = undefined;
+      // 审批期间用户调用过 pause() 时保持暂停
+      this.state.paused = this.pauseRequested;
+    }
   }
 
   // 高级智能体功能
@@ -453,7 +974,7 @@ export class Agent {
     // 检查是否启用插件系统
     if (!this.settings.enablePlugins) {
       logger.info('插件系统已禁用，使用默认Controller', 'Agent');
-      this.controller = new Controller(this.browserSession);
+      this.controller = new Controller(this.browserSession, undefined, undefined, this.secretVault);
       return;
     }
 
@@ -470,13 +991,13 @@ export class Agent {
       this.pluginManager = this.pluginRegistry.getManager();
 
       // 重新创建Controller，传入插件系统
-      this.controller = new Controller(this.browserSession, this.pluginManager, this.pluginRegistry);
+      this.controller = new Controller(this.browserSession, this.pluginManager, this.pluginRegistry, this.secretVault);
 
       logger.info('插件系统初始化完成', 'Agent');
     } catch (error) {
       logger.error('插件系统初始化失败', error as Error, 'Agent');
       // 如果插件系统初始化失败，使用默认Controller
-      this.controller = new Controller(this.browserSession);
+      this.controller = new Controller(this.browserSession, undefined, undefined, this.secretVault);
     }
   }
 
@@ -591,6 +1112,89 @@ export class Agent {
     return false;
   }
 
+  /**
+   * 校验 done 操作携带的结构化结果，返回错误描述；无需校验或校验通过时返回 null
+   * 只有声明成功的 done 必须带 data，失败的 done 可以没有结果
+   */
+  private validateDoneOutput(action: Action): string | null {
+    if (action.type !== 'done' || !this.settings.outputSchema) {
+      return null;
+    }
+
+    const doneAction = action as any;
+    if (doneAction.data === undefined) {
+      return doneAction.success ? 'Done action is missing the required "data" field for the output schema' : null;
+    }
+
+    try {
+      Validator.validateOutputData(doneAction.data, this.settings.outputSchema);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // 取出本步要执行的操作列表，超过 maxActionsPerStep 的部分丢弃
+  private getActionSequence(agentOutput: AgentOutput): Action[] {
+    const actions = agentOutput.actions && agentOutput.actions.length > 0
+      ? agentOutput.actions
+      : [agentOutput.action];
+    const limit = Math.max(1, this.settings.maxActionsPerStep || 1);
+
+    if (actions.length > limit) {
+      logger.warn(`LLM returned ${actions.length} actions, only the first ${limit} will be executed`, 'Agent');
+    }
+    return actions.slice(0, limit);
+  }
+
+  /**
+   * 检查操作序列中后续的操作是否仍然有效
+   * 页面URL变化或目标索引对应的元素变了，说明LLM看到的索引已经过时
+   */
+  private async getSequenceInvalidReason(originalState: DOMState, action: Action, initialUrl: string): Promise<string | null> {
+    if (this.browserSession.getCurrentUrl() !== initialUrl) {
+      return 'page URL changed';
+    }
+
+    const original = this.findTargetElement(originalState, action);
+    if (!original) {
+      return null;
+    }
+
+    const currentState = await this.controller.getCurrentState();
+
+    // 点击和输入按指纹执行，索引变了也没关系，只要元素还能唯一找回
+    if (original.fingerprint && (action.type === 'click' || action.type === 'type')) {
+      return resolveFingerprint(original.fingerprint, currentState.elements) ? null : `element at index ${original.index} is gone or ambiguous`;
+    }
+
+    const current = this.findTargetElement(currentState, action);
+    if (!current || current.tag !== original.tag || current.xpath !== original.xpath) {
+      return `element at index ${original.index} changed`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 点击和输入带上LLM选中元素的指纹，执行时按指纹找回元素；历史记录中保留原始操作
+   */
+  private withTargetFingerprint(action: Action, targetElement?: DOMElement): Action {
+    if ((action.type === 'click' || action.type === 'type') && targetElement?.fingerprint) {
+      return { ...action, fingerprint: targetElement.fingerprint };
+    }
+    return action;
+  }
+
+  // 找出操作指向的元素（仅对带index的操作有效）
+  private findTargetElement(domState: DOMState, action: Action): DOMElement | undefined {
+    const index = (action as any).index;
+    if (typeof index !== 'number' || !domState?.elements) {
+      return undefined;
+    }
+    return domState.elements.find(el => el.index === index);
+  }
+
   // Helper method to check if two actions are identical
   private actionsAreIdentical(action1: Action, action2: Action): boolean {
     if (action1.type !== action2.type) return false;
@@ -613,7 +1217,7 @@ export class Agent {
   }
 
   // Update agent state based on action result
-  private updateState(agentOutput: AgentOutput, result: ActionResult): void {
+  private updateState(agentOutput: AgentOutput, action: Action, result: ActionResult): void {
     this.state.lastResult = result;
     this.state.lastGoal = this.state.currentGoal;
     this.state.currentGoal = agentOutput.next_goal;
@@ -632,8 +1236,8 @@ export class Agent {
     }
 
     // Update action tracking
-    this.state.lastActionType = agentOutput.action.type;
-    this.state.lastActionTarget = (agentOutput.action as any).index?.toString() || '';
+    this.state.lastActionType = action.type;
+    this.state.lastActionTarget = (action as any).index?.toString() || '';
   }
 
   private async handleActionError(
@@ -688,6 +1292,11 @@ export class Agent {
   }
 
   private validateAction(action: any): void {
+    // 坐标来自截图，没有截图时LLM只能猜测坐标
+    if (COORDINATE_ACTION_TYPES.includes(action?.type) && !this.settings.useVision) {
+      throw new Error(`${action.type} action requires useVision to be enabled`);
+    }
+
     if (!this.settings.enableActionValidation) return;
 
     if (!action || typeof action !== 'object') {
@@ -700,7 +1309,8 @@ export class Agent {
 
     const validTypes = [
       'click', 'type', 'navigate', 'scroll', 'wait', 'done',
-      'hover', 'drag_drop', 'key', 'key_press', 'select', 'upload_file',
+      'hover', 'tap', 'swipe', 'drag_drop', 'click_at', 'drag_at', 'scroll_at',
+      'key', 'key_press', 'select', 'upload_file',
       'take_screenshot', 'extract_data', 'execute_script',
       'switch_tab', 'new_tab', 'close_tab', 'go_back', 'go_forward',
       'refresh', 'set_cookie', 'wait_for_element', 'wait_for_navigation',
@@ -715,10 +1325,29 @@ export class Agent {
     switch (action.type) {
       case 'click':
       case 'hover':
+      case 'tap':
         if (typeof action.index !== 'number') {
           throw new Error(`${action.type} action requires numeric index`);
         }
         break;
+      case 'swipe':
+        if (!['up', 'down', 'left', 'right'].includes(action.direction)) {
+          throw new Error('Swipe action requires direction "up", "down", "left" or "right"');
+        }
+        break;
+      case 'click_at':
+      case 'drag_at':
+      case 'scroll_at':
+        if (!this.isCoordinate(action.coordinate)) {
+          throw new Error(`${action.type} action requires coordinate [x, y]`);
+        }
+        if (action.type === 'drag_at' && !this.isCoordinate(action.endCoordinate)) {
+          throw new Error('drag_at action requires endCoordinate [x, y]');
+        }
+        if (action.type === 'scroll_at' && !['up', 'down', 'left', 'right'].includes(action.direction)) {
+          throw new Error('scroll_at action requires direction "up", "down", "left" or "right"');
+        }
+        break;
       case 'type':
         if (typeof action.index !== 'number' || typeof action.text !== 'string') {
           throw new Error('Type action requires numeric index and text string');
@@ -751,6 +1380,10 @@ export class Agent {
 
 
 
+  private isCoordinate(value: any): boolean {
+    return Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+  }
+
   private isCriticalError(error: any): boolean {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -850,12 +1483,12 @@ export class Agent {
   }
 
   // Enhanced getHistory method
-  getHistory(): AgentHistory {
+  getHistory(): AgentHistory<TOutput> {
     const totalDuration = (new Date().getTime() - this.state.startTime.getTime()) / 1000;
     const successfulSteps = this.history.filter(s => s.result.success);
     const failedSteps = this.history.filter(s => !s.result.success);
 
-    return {
+    const history: AgentHistory<TOutput> = {
       task: this.task,
       steps: this.history,
       completed: this.completed,
@@ -869,9 +1502,12 @@ export class Agent {
         llmProvider: 'unknown', // Would need to be passed from config
         llmModel: 'unknown',
         browserProfile: {},
-        agentSettings: this.settings,
-        totalTokensUsed: 0, // Would need to track from LLM responses
-        totalCost: 0,
+        // 只保留密钥名称，真实值不能进入历史记录
+        agentSettings: this.secretVault
+          ? { ...this.settings, secrets: Object.fromEntries(this.secretVault.getNames().map(name => [name, SecretVault.placeholder(name)])) }
+          : this.settings,
+        totalTokensUsed: this.usageTracker.getTotals().totalTokens,
+        totalCost: this.usageTracker.getTotals().cost,
         averageStepDuration: this.history.length > 0
           ? totalDuration / this.history.length
           : 0,
@@ -883,11 +1519,20 @@ export class Agent {
         screenshotCount: this.history.filter(s => s.result.screenshot).length,
         finalUrl: this.browserSession.getCurrentUrl(),
         finalTitle: undefined, // Would need async call
+        runId: this.runId,
+        usage: this.usageTracker.getSummary(),
+        stopReason: this.stopReason,
+        harFile: this.harFile,
+        traceFile: this.traceFile,
+        videoDir: this.videoDir,
       },
       planning: this.currentPlan,
       reflection: this.lastReflection ? [this.lastReflection] : [],
       performance: this.performanceMonitoringService?.getMetrics(this.history),
+      output: this.output,
     };
+
+    return this.secretVault ? this.secretVault.redactDeep(history) : history;
   }
 
   // Additional utility methods
@@ -0,0 +1,185 @@
+import * as readline from 'readline';
+import { Action, ApprovalCategory, ApprovalDecision, ApprovalHandler, ApprovalRequest, DOMElement } from '../types';
+import { ElementSemanticAnalyzer } from '../dom/element-semantic-analyzer';
+import { logger } from '../utils/logger';
+
+// 默认需要审批的类别：危险的操作类型 + 购买/删除/提交类点击
+export const DEFAULT_APPROVAL_CATEGORIES: ApprovalCategory[] = [
+  'upload_file',
+  'execute_script',
+  'set_cookie',
+  'purchase',
+  'delete',
+  'submit',
+];
+
+// 会点击元素的操作类型，需要检查目标元素的语义
+const CLICK_ACTION_TYPES = ['click', 'tap'];
+
+// 按坐标点击/拖拽的操作没有可分析的目标元素（canvas 等），无法判断点的是不是购买/删除/提交
+const COORDINATE_CLICK_ACTION_TYPES = ['click_at', 'drag_at'];
+const CLICK_SEMANTIC_CATEGORIES: ApprovalCategory[] = ['purchase', 'delete', 'submit'];
+
+/**
+ * 审批服务 - 敏感操作执行前的人工确认关卡
+ *
+ * 根据操作类型和目标元素的语义判断是否需要审批，
+ * 然后交给可插拔的 ApprovalHandler（命令行提示、回调或外部队列）做决定。
+ */
+export class ApprovalService {
+  private handler: ApprovalHandler;
+  private categories: Set<ApprovalCategory>;
+  private semanticAnalyzer: ElementSemanticAnalyzer;
+
+  constructor(handler: ApprovalHandler, categories: ApprovalCategory[] = DEFAULT_APPROVAL_CATEGORIES) {
+    this.handler = handler;
+    this.categories = new Set(categories);
+    this.semanticAnalyzer = new ElementSemanticAnalyzer();
+  }
+
+  /**
+   * 返回操作所属的审批类别，不需要审批时返回 null
+   */
+  getCategory(action: Action, element?: DOMElement): ApprovalCategory | null {
+    if (this.categories.has(action.type)) {
+      return action.type;
+    }
+
+    // 只要启用了任一点击语义类别，坐标点击就一律交给人工确认
+    if (COORDINATE_CLICK_ACTION_TYPES.includes(action.type) &&
+        CLICK_SEMANTIC_CATEGORIES.some(category => this.categories.has(category))) {
+      return action.type;
+    }
+
+    if (CLICK_ACTION_TYPES.includes(action.type) && element) {
+      const sensitive = this.semanticAnalyzer.classifySensitiveElement(element);
+      if (sensitive && this.categories.has(sensitive)) {
+        return sensitive;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 请求审批；signal 触发（代理停止）时不再等待，按拒绝处理
+   */
+  async requestApproval(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> {
+    logger.info(`✋ 等待人工审批: ${request.category} (${request.action.type})`, 'ApprovalService');
+
+    const cancelled: ApprovalDecision = { approved: false, reason: 'Approval cancelled because the agent was stopped' };
+    if (signal?.aborted) {
+      return cancelled;
+    }
+
+    try {
+      const decision = await new Promise<boolean | ApprovalDecision>((resolve, reject) => {
+        const onAbort = () => resolve(cancelled);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        Promise.resolve(this.handler(request, signal))
+          .then(resolve, reject)
+          .finally(() => signal?.removeEventListener('abort', onAbort));
+      });
+      const normalized: ApprovalDecision = typeof decision === 'boolean' ? { approved: decision } : decision;
+
+      if (normalized.approved) {
+        logger.info(`✅ 操作已批准: ${request.category}`, 'ApprovalService');
+      } else {
+        logger.warn(`⛔ 操作被拒绝: ${request.category}${normalized.reason ? ` - ${normalized.reason}` : ''}`, 'ApprovalService');
+      }
+      return normalized;
+    } catch (error) {
+      // 审批流程出错时一律拒绝，宁可停下也不能放行
+      logger.error('审批回调执行失败，按拒绝处理', error as Error, 'ApprovalService');
+      return { approved: false, reason: `Approval handler failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+}
+
+/**
+ * 审批队列 - 以 Promise 形式等待外部系统（Web界面、聊天机器人等）做决定
+ *
+ * 把 queue.handler 传给 AgentSettings.approvalHandler，
+ * 然后通过 onRequest 订阅新请求，用 approve/reject 给出结果。
+ */
+export class ApprovalQueue {
+  private pending = new Map<string, { request: ApprovalRequest; resolve: (decision: ApprovalDecision) => void }>();
+  private listeners: Array<(request: ApprovalRequest) => void> = [];
+
+  readonly handler: ApprovalHandler = (request: ApprovalRequest, signal?: AbortSignal) => {
+    return new Promise<ApprovalDecision>(resolve => {
+      this.pending.set(request.id, { request, resolve });
+      // 代理停止后撤回请求，不再出现在待审批列表中
+      signal?.addEventListener('abort', () => this.reject(request.id, 'Agent stopped'), { once: true });
+      for (const listener of this.listeners) {
+        try {
+          listener(request);
+        } catch (error) {
+          logger.debug(`Approval listener failed: ${error}`, 'ApprovalQueue');
+        }
+      }
+    });
+  };
+
+  onRequest(listener: (request: ApprovalRequest) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  getPendingRequests(): ApprovalRequest[] {
+    return Array.from(this.pending.values()).map(entry => entry.request);
+  }
+
+  approve(requestId: string, reason?: string): boolean {
+    return this.settle(requestId, { approved: true, reason });
+  }
+
+  reject(requestId: string, reason?: string): boolean {
+    return this.settle(requestId, { approved: false, reason });
+  }
+
+  private settle(requestId: string, decision: ApprovalDecision): boolean {
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return false;
+    }
+    this.pending.delete(requestId);
+    entry.resolve(decision);
+    return true;
+  }
+}
+
+/**
+ * 命令行审批 - 在终端里询问用户是否放行
+ */
+export function createCliApprovalHandler(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): ApprovalHandler {
+  return (request: ApprovalRequest, signal?: AbortSignal) => new Promise<ApprovalDecision>(resolve => {
+    const rl = readline.createInterface({ input, output });
+    // 代理停止时关闭提示，否则进程会一直等待终端输入
+    signal?.addEventListener('abort', () => {
+      rl.close();
+      resolve({ approved: false, reason: 'Agent stopped' });
+    }, { once: true });
+    const target = request.element
+      ? `\n   目标元素: <${request.element.tag}> ${request.element.text || ''}`
+      : '';
+
+    output.write(
+      `\n✋ 需要人工确认的操作 [${request.category}]\n` +
+      `   页面: ${request.url}\n` +
+      `   操作: ${JSON.stringify(request.action)}${target}\n` +
+      `   目标: ${request.reason}\n`
+    );
+
+    rl.question('   是否允许执行? (y/N) ', answer => {
+      rl.close();
+      const approved = ['y', 'yes', '是'].includes(answer.trim().toLowerCase());
+      resolve({ approved, reason: approved ? undefined : 'Rejected at CLI prompt' });
+    });
+  });
+}
@@ -0,0 +1,342 @@
+import { BrowserSession } from './session';
+import { BrowserProfile } from '../types';
+import { logger } from '../utils/logger';
+
+export interface BrowserPoolOptions {
+  size?: number;                   // 保持预热的浏览器数量
+  maxContextsPerBrowser?: number;  // 每个浏览器同时租出的上下文数量
+  recycleAfter?: number;           // 浏览器累计租出多少次后重启（0 表示不回收）
+  acquireTimeout?: number;         // 等待空闲上下文的超时（毫秒）
+}
+
+export interface BrowserLease {
+  id: string;
+  session: BrowserSession;   // 已经启动、拥有独立上下文的会话
+  /** 归还上下文；recycle 为 true 时该浏览器不再租出，空闲后重启 */
+  release(options?: { recycle?: boolean }): Promise<void>;
+}
+
+export interface BrowserPoolMetrics {
+  size: number;
+  browsers: number;            // 正在运行的浏览器
+  launching: number;           // 正在启动的浏览器
+  activeLeases: number;
+  availableSlots: number;      // 不用等待就能租出的上下文数量
+  waiting: number;             // 排队等待上下文的请求
+  totalLeases: number;
+  browsersLaunched: number;
+  browsersRecycled: number;
+  crashes: number;
+  averageLaunchTime: number;   // 毫秒
+  averageAcquireTime: number;  // 毫秒，包括排队和创建上下文
+}
+
+// 由池子启动浏览器时决定的配置，租用时无法按上下文覆盖
+const BROWSER_LEVEL_OPTIONS: Array<keyof BrowserProfile> = [
+  'browserType', 'headless', 'executablePath', 'slowMo', 'devtools', 'args', 'autoInstall',
+];
+
+interface PooledBrowser {
+  id: number;
+  browser: any;
+  active: number;     // 当前租出的上下文
+  leases: number;     // 累计租出次数
+  retiring: boolean;  // 不再租出，所有上下文归还后关闭
+}
+
+interface Waiter {
+  resolve: (pooled: PooledBrowser) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * 浏览器池 - 预先启动浏览器，按任务租出相互隔离的上下文
+ *
+ * 启动浏览器比创建上下文慢得多，短任务的大部分时间都花在启动上。
+ * 池子保持 size 个浏览器运行，每次租用只新建一个 BrowserContext（cookies、存储互不影响），
+ * 浏览器累计租出 recycleAfter 次或崩溃后会被替换，避免长时间运行导致的内存增长。
+ */
+export class BrowserPool {
+  private profile: BrowserProfile;
+  private options: Required<BrowserPoolOptions>;
+  private browsers: PooledBrowser[] = [];
+  private waiters: Waiter[] = [];
+  private launching = 0;
+  private nextBrowserId = 1;
+  private closed = false;
+  private stats = {
+    totalLeases: 0,
+    browsersLaunched: 0,
+    browsersRecycled: 0,
+    crashes: 0,
+    launchTime: 0,
+    acquireTime: 0,
+  };
+
+  constructor(profile: BrowserProfile = {}, options: BrowserPoolOptions = {}) {
+    this.profile = profile;
+    this.options = {
+      size: 2,
+      maxContextsPerBrowser: 4,
+      recycleAfter: 50,
+      acquireTimeout: 60000,
+      ...options,
+    };
+    if (!this.options.size || this.options.size < 1) {
+      throw new Error('Browser pool size must be at least 1');
+    }
+    if (!this.options.maxContextsPerBrowser || this.options.maxContextsPerBrowser < 1) {
+      throw new Error('Browser pool maxContextsPerBrowser must be at least 1');
+    }
+    if (profile.userDataDir) {
+      throw new Error('Browser pool cannot share a userDataDir between browsers, use storage state profiles instead');
+    }
+  }
+
+  /**
+   * 预热：启动全部浏览器
+   */
+  async start(): Promise<void> {
+    const missing = this.options.size - this.browsers.length - this.launching;
+    await Promise.all(Array.from({ length: Math.max(0, missing) }, () => this.launchBrowser(false)));
+    this.dispatch();
+    logger.info(`🏊 浏览器池已就绪: ${this.browsers.length} 个浏览器，每个最多 ${this.options.maxContextsPerBrowser} 个上下文`, 'BrowserPool');
+  }
+
+  /**
+   * 租用一个已经启动的会话；profile 可以覆盖上下文级别的配置（如 storageStateName、device），
+   * 与池子不同的浏览器级别配置（browserType、headless 等）会直接报错，而不是被静默忽略
+   */
+  async acquire(profile: BrowserProfile = {}): Promise<BrowserLease> {
+    if (this.closed) {
+      throw new Error('Browser pool is closed');
+    }
+    if (profile.userDataDir) {
+      throw new Error('Browser pool leases cannot use userDataDir');
+    }
+    const browserLevel = BROWSER_LEVEL_OPTIONS.filter(key =>
+      profile[key] !== undefined && JSON.stringify(profile[key]) !== JSON.stringify(this.profile[key]));
+    if (browserLevel.length > 0) {
+      throw new Error(`Browser pool leases cannot override browser-level options: ${browserLevel.join(', ')} (configure them on the pool instead)`);
+    }
+
+    const startedAt = Date.now();
+    const pooled = await this.reserve();
+    const id = `lease_${pooled.id}_${pooled.leases}`;
+    const session = new BrowserSession({ ...this.profile, ...profile });
+    session.useSharedBrowser(pooled.browser);
+
+    try {
+      await session.start();
+    } catch (error) {
+      await session.close().catch(() => {});
+      await this.returnSlot(pooled, false);
+      throw error;
+    }
+
+    this.stats.totalLeases++;
+    this.stats.acquireTime += Date.now() - startedAt;
+    logger.debug(`📤 租出上下文 ${id}`, 'BrowserPool');
+
+    let released = false;
+    return {
+      id,
+      session,
+      release: async (options: { recycle?: boolean } = {}) => {
+        if (released) return;
+        released = true;
+        try {
+          await session.close();
+        } finally {
+          await this.returnSlot(pooled, !!options.recycle);
+          logger.debug(`📥 归还上下文 ${id}`, 'BrowserPool');
+        }
+      },
+    };
+  }
+
+  getMetrics(): BrowserPoolMetrics {
+    const activeLeases = this.browsers.reduce((sum, pooled) => sum + pooled.active, 0);
+    const availableSlots = this.browsers
+      .filter(pooled => this.isAvailable(pooled))
+      .reduce((sum, pooled) => sum + this.options.maxContextsPerBrowser - pooled.active, 0);
+
+    return {
+      size: this.options.size,
+      browsers: this.browsers.length,
+      launching: this.launching,
+      activeLeases,
+      availableSlots,
+      waiting: this.waiters.length,
+      totalLeases: this.stats.totalLeases,
+      browsersLaunched: this.stats.browsersLaunched,
+      browsersRecycled: this.stats.browsersRecycled,
+      crashes: this.stats.crashes,
+      averageLaunchTime: this.stats.browsersLaunched ? Math.round(this.stats.launchTime / this.stats.browsersLaunched) : 0,
+      averageAcquireTime: this.stats.totalLeases ? Math.round(this.stats.acquireTime / this.stats.totalLeases) : 0,
+    };
+  }
+
+  /**
+   * 关闭所有浏览器，正在等待的租用请求会失败
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Browser pool is closed'));
+    }
+
+    const browsers = this.browsers.splice(0);
+    await Promise.all(browsers.map(pooled => this.closeBrowser(pooled)));
+    logger.info(`🛑 浏览器池已关闭 (共租出 ${this.stats.totalLeases} 次)`, 'BrowserPool');
+  }
+
+  /**
+   * 占用一个上下文名额：优先用现有浏览器，不够时启动新的，全部占满时排队
+   */
+  private async reserve(): Promise<PooledBrowser> {
+    const available = this.browsers.find(pooled => this.isAvailable(pooled));
+    if (available) {
+      this.take(available);
+      return available;
+    }
+
+    if (this.browsers.length + this.launching < this.options.size) {
+      return this.launchBrowser(true);
+    }
+
+    return new Promise<PooledBrowser>((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(w => w !== waiter);
+          reject(new Error(`Timed out after ${this.options.acquireTimeout}ms waiting for a browser from the pool`));
+        }, this.options.acquireTimeout),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  private isAvailable(pooled: PooledBrowser): boolean {
+    return !pooled.retiring && pooled.active < this.options.maxContextsPerBrowser && pooled.browser.isConnected();
+  }
+
+  private take(pooled: PooledBrowser): void {
+    pooled.active++;
+    pooled.leases++;
+    if (this.options.recycleAfter > 0 && pooled.leases >= this.options.recycleAfter) {
+      pooled.retiring = true;
+    }
+  }
+
+  private async returnSlot(pooled: PooledBrowser, recycle: boolean): Promise<void> {
+    pooled.active = Math.max(0, pooled.active - 1);
+    if (recycle || !pooled.browser.isConnected()) {
+      pooled.retiring = true;
+    }
+
+    if (pooled.retiring && pooled.active === 0 && this.browsers.includes(pooled)) {
+      this.browsers = this.browsers.filter(p => p !== pooled);
+      this.stats.browsersRecycled++;
+      logger.info(`♻️ 回收浏览器 #${pooled.id} (已租出 ${pooled.leases} 次)`, 'BrowserPool');
+      await this.closeBrowser(pooled);
+      this.replenish();
+    }
+    this.dispatch();
+  }
+
+  /**
+   * 启动一个浏览器；reserve 为 true 时直接占用它的一个名额
+   */
+  private async launchBrowser(reserve: boolean): Promise<PooledBrowser> {
+    this.launching++;
+    const startedAt = Date.now();
+    let browser: any;
+    try {
+      browser = await BrowserSession.launchSharedBrowser(this.profile);
+    } finally {
+      this.launching--;
+    }
+
+    const pooled: PooledBrowser = { id: this.nextBrowserId++, browser, active: 0, leases: 0, retiring: false };
+    if (this.closed) {
+      await this.closeBrowser(pooled);
+      throw new Error('Browser pool is closed');
+    }
+
+    this.stats.browsersLaunched++;
+    this.stats.launchTime += Date.now() - startedAt;
+    browser.on('disconnected', () => this.onDisconnected(pooled));
+
+    if (reserve) {
+      this.take(pooled);
+    }
+    this.browsers.push(pooled);
+    logger.debug(`🚀 浏览器 #${pooled.id} 已启动 (${Date.now() - startedAt}ms)`, 'BrowserPool');
+    return pooled;
+  }
+
+  /**
+   * 补足到 size 个浏览器（回收或崩溃之后）
+   */
+  private replenish(): void {
+    while (!this.closed && this.browsers.length + this.launching < this.options.size) {
+      this.launchBrowser(false)
+        .then(() => this.dispatch())
+        .catch(error => {
+          logger.error('浏览器池启动浏览器失败', error as Error, 'BrowserPool');
+          // 没有任何浏览器可用时，让排队的请求尽快失败
+          if (this.browsers.length === 0 && this.launching === 0) {
+            for (const waiter of this.waiters.splice(0)) {
+              clearTimeout(waiter.timer);
+              waiter.reject(error instanceof Error ? error : new Error(String(error)));
+            }
+          }
+        });
+    }
+  }
+
+  /**
+   * 把空出来的名额分给排队的请求
+   */
+  private dispatch(): void {
+    while (this.waiters.length > 0) {
+      const available = this.browsers.find(pooled => this.isAvailable(pooled));
+      if (!available) {
+        // 所有浏览器都在回收中时需要先补充新的
+        this.replenish();
+        return;
+      }
+
+      const waiter = this.waiters.shift()!;
+      clearTimeout(waiter.timer);
+      this.take(available);
+      waiter.resolve(available);
+    }
+  }
+
+  private onDisconnected(pooled: PooledBrowser): void {
+    if (this.closed || !this.browsers.includes(pooled)) {
+      return;
+    }
+
+    // 浏览器崩溃，租出去的会话会在下一个操作时报错，归还时不再计入
+    this.stats.crashes++;
+    this.browsers = this.browsers.filter(p => p !== pooled);
+    logger.warn(`💥 浏览器 #${pooled.id} 意外断开，${pooled.active} 个上下文受影响，正在启动替代浏览器`, 'BrowserPool');
+    this.replenish();
+  }
+
+  private async closeBrowser(pooled: PooledBrowser): Promise<void> {
+    try {
+      await pooled.browser.close();
+    } catch (error) {
+      logger.debug(`Failed to close pooled browser #${pooled.id}: ${error}`, 'BrowserPool');
+    }
+  }
+}
@@ -1,6 +1,8 @@
-import { execSync, spawn } from 'child_process';
+import { spawn } from 'child_process';
 import { logger } from '../utils/logger';
 import { Config } from '../config';
+import { BrowserEngine } from '../types';
+import { BrowserProcessInfo, ProcessPlatform, createProcessPlatform, findDefaultBrowserPath } from './process-platform';
 import * as net from 'net';
 
 /**
@@ -15,15 +17,19 @@ export class BrowserProcessManager {
   private debugHost: string;
   private browserPath: string;
   private userDataDir?: string;
+  private browserType: BrowserEngine;
+  private platform: ProcessPlatform;
 
-  constructor() {
+  constructor(platform: ProcessPlatform = createProcessPlatform()) {
     const config = Config.getBrowserConnectionConfig();
     const profile = Config.getBrowserProfile();
     
+    this.platform = platform;
     this.debugPort = config.debugPort || 9222;
     this.debugHost = config.debugHost || 'localhost';
     this.browserPath = profile.executablePath || this.getDefaultBrowserPath();
     this.userDataDir = profile.userDataDir;
+    this.browserType = profile.browserType || 'chromium';
   }
 
   /**
@@ -35,6 +41,11 @@ export class BrowserProcessManager {
     action: 'connect' | 'start_debug' | 'kill_and_start';
     message: string;
   }> {
+    // 调试端口和进程管理都基于 Chromium 的 --remote-debugging-port，其他引擎不能结束用户的浏览器进程
+    if (this.browserType !== 'chromium') {
+      throw new Error(`CDP connection and browser process management require chromium (current browser type: ${this.browserType})`);
+    }
+
     logger.info('🔍 检测浏览器连接状态...', 'BrowserProcessManager');
 
     // 1. 检查调试端口是否可连接
@@ -137,34 +148,10 @@ export class BrowserProcessManager {
   /**
    * 🔍 检测正在运行的浏览器实例
    */
-  private detectRunningBrowserInstances(): Array<{pid: string, name: string}> {
+  private detectRunningBrowserInstances(): BrowserProcessInfo[] {
     try {
       // 根据浏览器路径确定进程名
-      let processName = 'msedge.exe';
-      if (this.browserPath.toLowerCase().includes('chrome')) {
-        processName = 'chrome.exe';
-      }
-
-      const command = `tasklist /FI "IMAGENAME eq ${processName}" /FO CSV`;
-      const output = execSync(command, { encoding: 'utf8' });
-      
-      const lines = output.split('\n').filter(line => 
-        line.includes(processName.replace('.exe', '')) && 
-        !line.includes('映像名称') // 过滤标题行
-      );
-
-      const instances = lines.map(line => {
-        const parts = line.split(',');
-        if (parts.length >= 2) {
-          return {
-            pid: parts[1].replace(/"/g, '').trim(),
-            name: parts[0].replace(/"/g, '').trim()
-          };
-        }
-        return null;
-      }).filter(Boolean) as Array<{pid: string, name: string}>;
-
-      return instances;
+      return this.platform.listProcesses(this.platform.getProcessNames(this.browserPath));
     } catch (error) {
       logger.warn('⚠️ 检测浏览器实例失败: ' + (error as Error).message, 'BrowserProcessManager');
       return [];
@@ -186,11 +173,10 @@ export class BrowserProcessManager {
       logger.info(`🔄 关闭 ${instances.length} 个浏览器实例...`, 'BrowserProcessManager');
 
       for (const instance of instances) {
-        try {
-          execSync(`taskkill /PID ${instance.pid} /F`, { stdio: 'ignore' });
+        if (this.platform.killProcess(instance.pid)) {
           logger.info(`✅ 已关闭进程 ${instance.pid}`, 'BrowserProcessManager');
-        } catch (error) {
-          logger.warn(`⚠️ 无法关闭进程 ${instance.pid}: ${(error as Error).message}`, 'BrowserProcessManager');
+        } else {
+          logger.warn(`⚠️ 无法关闭进程 ${instance.pid} (${instance.name})`, 'BrowserProcessManager');
         }
       }
 
@@ -224,9 +210,9 @@ export class BrowserProcessManager {
         `--remote-debugging-port=${this.debugPort}`
       ];
 
-      // 用户数据目录
+      // 用户数据目录（spawn 不经过shell，路径不能再加引号）
       if (this.userDataDir) {
-        args.push(`--user-data-dir="${this.userDataDir}"`);
+        args.push(`--user-data-dir=${this.userDataDir}`);
       }
 
       const connectionConfig = Config.getBrowserConnectionConfig();
@@ -314,19 +300,7 @@ export class BrowserProcessManager {
    * 🔧 获取默认浏览器路径
    */
   private getDefaultBrowserPath(): string {
-    const edgePath = 'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe';
-    const chromePath = 'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe';
-    
-    // 优先使用Edge
-    const fs = require('fs');
-    if (fs.existsSync(edgePath)) {
-      return edgePath;
-    } else if (fs.existsSync(chromePath)) {
-      return chromePath;
-    }
-    
-    // 默认返回Edge路径
-    return edgePath;
+    return findDefaultBrowserPath(this.platform);
   }
 
   /**
@@ -0,0 +1,138 @@
+// 不涉及外部站点的协议，始终放行
+const LOCAL_PROTOCOLS = ['about:', 'data:', 'blob:'];
+// 受域名策略检查的协议
+const NETWORK_PROTOCOLS = ['http:', 'https:', 'ws:', 'wss:'];
+
+/**
+ * 访问被域名策略拒绝时抛出的错误，消息会原样反馈给LLM
+ */
+export class DomainNotAllowedError extends Error {
+  readonly url: string;
+
+  constructor(url: string, reason: string) {
+    super(`Navigation to ${url} was blocked: ${reason}. Stay on the permitted sites or finish the task with done.`);
+    this.name = 'DomainNotAllowedError';
+    this.url = url;
+  }
+}
+
+/**
+ * 域名访问策略 - 限制代理可以访问的站点
+ *
+ * 规则写法：
+ * - example.com      匹配 example.com 及其所有子域名
+ * - *.example.com    只匹配子域名
+ * 黑名单优先于白名单；白名单为空时表示不限制。
+ */
+export class DomainPolicy {
+  private allowedDomains: string[];
+  private blockedDomains: string[];
+
+  constructor(allowedDomains: string[] = [], blockedDomains: string[] = []) {
+    this.allowedDomains = DomainPolicy.normalize(allowedDomains);
+    this.blockedDomains = DomainPolicy.normalize(blockedDomains);
+  }
+
+  isActive(): boolean {
+    return this.allowedDomains.length > 0 || this.blockedDomains.length > 0;
+  }
+
+  isAllowed(url: string): boolean {
+    return this.getBlockReason(url) === null;
+  }
+
+  /**
+   * 返回URL被拒绝的原因，允许访问时返回 null
+   */
+  getBlockReason(url: string): string | null {
+    if (!this.isActive()) {
+      return null;
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return `"${url}" is not a valid URL`;
+    }
+
+    if (LOCAL_PROTOCOLS.includes(parsed.protocol)) {
+      return null;
+    }
+
+    if (!NETWORK_PROTOCOLS.includes(parsed.protocol)) {
+      // 有白名单时，file:、chrome: 等协议一律不允许
+      return this.allowedDomains.length > 0 ? `protocol "${parsed.protocol}" is not permitted` : null;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+
+    const blockedBy = this.blockedDomains.find(pattern => DomainPolicy.matches(host, pattern));
+    if (blockedBy) {
+      return `domain "${host}" is blocked (${blockedBy})`;
+    }
+
+    if (this.allowedDomains.length > 0 && !this.allowedDomains.some(pattern => DomainPolicy.matches(host, pattern))) {
+      return `domain "${host}" is not in the allowed domains (${this.allowedDomains.join(', ')})`;
+    }
+
+    return null;
+  }
+
+  /**
+   * URL的主机名是否命中黑名单（不考虑白名单）
+   */
+  isExplicitlyBlocked(url: string): boolean {
+    if (this.blockedDomains.length === 0) {
+      return false;
+    }
+    try {
+      const host = new URL(url).hostname.toLowerCase();
+      return this.blockedDomains.some(pattern => DomainPolicy.matches(host, pattern));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 检查URL，不允许访问时抛出 DomainNotAllowedError
+   */
+  assertAllowed(url: string): void {
+    const reason = this.getBlockReason(url);
+    if (reason) {
+      throw new DomainNotAllowedError(url, reason);
+    }
+  }
+
+  getAllowedDomains(): string[] {
+    return [...this.allowedDomains];
+  }
+
+  getBlockedDomains(): string[] {
+    return [...this.blockedDomains];
+  }
+
+  static matches(host: string, pattern: string): boolean {
+    if (pattern.startsWith('*.')) {
+      return host.endsWith(pattern.substring(1));
+    }
+    return host === pattern || host.endsWith(`.${pattern}`);
+  }
+
+  private static normalize(domains: string[]): string[] {
+    return domains
+      .map(domain => domain.trim().toLowerCase())
+      .filter(Boolean)
+      // 允许直接写URL，只取其中的主机名
+      .map(domain => domain.includes('://') ? DomainPolicy.hostOf(domain) : domain.replace(/\/.*$/, '').replace(/:\d+$/, ''))
+      .filter(Boolean);
+  }
+
+  private static hostOf(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  }
+}
@@ -1,5 +1,5 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import { BrowserProfile } from '../types';
+import { chromium, firefox, webkit, Browser, BrowserContext, BrowserType, Page } from 'playwright';
+import { BrowserEngine, BrowserProfile } from '../types';
 import { logger } from '../utils/logger';
 import { Config } from '../config';
 import { SmartConnectionManager } from './smart-connection-manager';
@@ -22,6 +22,7 @@ export class EnhancedBrowserSession {
   private debugProcess: any = null;
   private smartManager: SmartConnectionManager;
   private connectionStrategy: string = '';
+  private connectedOverCDP: boolean = false;
 
   constructor(profile?: BrowserProfile) {
     this.profile = profile || Config.getBrowserProfile();
@@ -37,9 +38,18 @@ export class EnhancedBrowserSession {
       logger.info('🌟 启动增强浏览器会话...', 'EnhancedBrowserSession');
 
       const connectionConfig = Config.getBrowserConnectionConfig();
-      logger.info(`🔧 连接模式: ${connectionConfig.connectToUserBrowser ? '用户浏览器' : 'Playwright'}`, 'EnhancedBrowserSession');
+      const engine = this.getEngine();
 
-      if (connectionConfig.connectToUserBrowser) {
+      // 连接用户浏览器和调试端口都依赖CDP，只有 chromium 支持
+      let connectionMode = this.connectionMode;
+      if (engine !== 'chromium' && (connectionConfig.connectToUserBrowser || ['connect', 'auto_debug'].includes(connectionMode))) {
+        logger.warn(`⚠️ ${engine} 不支持CDP连接，改为由Playwright启动新的浏览器实例`, 'EnhancedBrowserSession');
+        connectionMode = this.profile.userDataDir ? 'persistent' : 'launch';
+      }
+      this.connectedOverCDP = connectionConfig.connectToUserBrowser && engine === 'chromium';
+      logger.info(`🔧 连接模式: ${this.connectedOverCDP ? '用户浏览器' : 'Playwright'} (${engine})`, 'EnhancedBrowserSession');
+
+      if (this.connectedOverCDP) {
         // 连接用户自己的浏览器
         logger.info('🔗 连接用户浏览器（无自动化痕迹）...', 'EnhancedBrowserSession');
         const result = await this.smartManager.smartConnect();
@@ -53,7 +63,7 @@ export class EnhancedBrowserSession {
         // 使用Playwright标准方式
         logger.info('🚀 使用Playwright启动浏览器...', 'EnhancedBrowserSession');
 
-        switch (this.connectionMode) {
+        switch (connectionMode) {
           case 'connect':
             await this.connectToExistingBrowser();
             break;
@@ -162,7 +172,7 @@ export class EnhancedBrowserSession {
     };
 
     try {
-      this.context = await chromium.launchPersistentContext(
+      this.context = await this.getBrowserType().launchPersistentContext(
         this.profile.userDataDir,
         launchOptions
       );
@@ -175,7 +185,7 @@ export class EnhancedBrowserSession {
         // 重试，但不使用自定义可执行路径
         const retryOptions = { ...launchOptions };
         delete retryOptions.executablePath;
-        this.context = await chromium.launchPersistentContext(
+        this.context = await this.getBrowserType().launchPersistentContext(
           this.profile.userDataDir,
           retryOptions
         );
@@ -193,7 +203,7 @@ export class EnhancedBrowserSession {
     logger.info('🚀 启动新浏览器实例', 'EnhancedBrowserSession');
 
     try {
-      this.browser = await chromium.launch(this.getLaunchOptions());
+      this.browser = await this.getBrowserType().launch(this.getLaunchOptions());
       this.context = await this.browser.newContext(this.getContextOptions());
       logger.success('✅ 新浏览器实例启动成功', 'EnhancedBrowserSession');
     } catch (error: any) {
@@ -202,7 +212,7 @@ export class EnhancedBrowserSession {
         // 重试，但不使用自定义可执行路径
         const retryOptions = this.getLaunchOptions();
         delete retryOptions.executablePath;
-        this.browser = await chromium.launch(retryOptions);
+        this.browser = await this.getBrowserType().launch(retryOptions);
         this.context = await this.browser.newContext(this.getContextOptions());
       } else {
         throw error;
@@ -314,8 +324,10 @@ export class EnhancedBrowserSession {
         get: () => ['zh-CN', 'zh', 'en'],
       });
 
-      // 移除自动化控制标识
-      delete (window as any).chrome.runtime.onConnect;
+      // 移除自动化控制标识（只有 Chromium 有 window.chrome）
+      if ((window as any).chrome?.runtime) {
+        delete (window as any).chrome.runtime.onConnect;
+      }
     });
   }
 
@@ -375,7 +387,7 @@ export class EnhancedBrowserSession {
     logger.info('📦 自动安装浏览器...', 'EnhancedBrowserSession');
 
     const { execSync } = require('child_process');
-    execSync('npx playwright install chromium', { stdio: 'inherit' });
+    execSync(`npx playwright install ${this.getEngine()}`, { stdio: 'inherit' });
 
     logger.success('✅ 浏览器安装完成', 'EnhancedBrowserSession');
   }
@@ -388,7 +400,7 @@ export class EnhancedBrowserSession {
       headless: this.profile.headless,
       timeout: this.profile.timeout,
       slowMo: this.profile.slowMo,
-      devtools: this.profile.devtools
+      devtools: this.getEngine() === 'chromium' ? this.profile.devtools : undefined
     };
 
     // 可执行文件路径
@@ -460,6 +472,11 @@ export class EnhancedBrowserSession {
       args.push(...envArgs.split(',').map(arg => arg.trim()));
     }
 
+    // 以下都是 Chromium 命令行参数，其他引擎不认识
+    if (this.getEngine() !== 'chromium') {
+      return args;
+    }
+
     // 反检测参数
     if (process.env.BROWSER_STEALTH_MODE === 'true') {
       args.push(
@@ -496,6 +513,24 @@ export class EnhancedBrowserSession {
     return args;
   }
 
+  private getEngine(): BrowserEngine {
+    return this.profile.browserType || 'chromium';
+  }
+
+  private getBrowserType(): BrowserType {
+    const engine = this.getEngine();
+    switch (engine) {
+      case 'firefox':
+        return firefox;
+      case 'webkit':
+        return webkit;
+      case 'chromium':
+        return chromium;
+      default:
+        throw new Error(`Unsupported browser type: ${engine} (use chromium, firefox or webkit)`);
+    }
+  }
+
   /**
    * 💤 睡眠函数
    */
@@ -555,7 +590,7 @@ export class EnhancedBrowserSession {
 
       // 根据连接方式决定是否关闭浏览器
       const shouldCloseBrowser = connectionConfig.autoClose &&
-                                 !connectionConfig.connectToUserBrowser;
+                                 !this.connectedOverCDP;
 
       if (shouldCloseBrowser) {
         if (this.browser) {
@@ -563,7 +598,7 @@ export class EnhancedBrowserSession {
           logger.info('🔒 浏览器已关闭', 'EnhancedBrowserSession');
         }
       } else {
-        const reason = connectionConfig.connectToUserBrowser ? '连接用户浏览器' : '配置要求保持运行';
+        const reason = this.connectedOverCDP ? '连接用户浏览器' : '配置要求保持运行';
         logger.info(`🔗 保持浏览器运行（${reason}）`, 'EnhancedBrowserSession');
       }
 
@@ -596,7 +631,9 @@ export class EnhancedBrowserSession {
       mode: this.connectionMode,
       strategy: this.connectionStrategy,
       isConnected: this.isStarted(),
-      browserType: this.profile.executablePath?.includes('edge') ? 'edge' : 'chrome'
+      browserType: this.getEngine() !== 'chromium'
+        ? this.getEngine()
+        : this.profile.executablePath?.includes('edge') ? 'edge' : 'chrome'
     };
   }
 }
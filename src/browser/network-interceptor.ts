@@ -0,0 +1,344 @@
+import * as path from 'path';
+import { NetworkLogEntry, NetworkResourceType, NetworkRouteRule } from '../types';
+import { logger } from '../utils/logger';
+
+// 常见广告和跟踪服务，blockAdsAndTrackers 开启时拦截
+// 按请求的域名匹配（本身或子域名），带路径的条目还要求路径前缀一致，以 . 结尾的条目匹配任意顶级域名
+export const AD_TRACKER_PATTERNS = [
+  'doubleclick.net',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'google-analytics.com',
+  'googletagmanager.com',
+  'googletagservices.com',
+  'adservice.google.',
+  'connect.facebook.net',
+  'facebook.com/tr',
+  'scorecardresearch.com',
+  'hotjar.com',
+  'hotjar.io',
+  'clarity.ms',
+  'segment.io',
+  'cdn.segment.com',
+  'mixpanel.com',
+  'amplitude.com',
+  'criteo.com',
+  'criteo.net',
+  'taboola.com',
+  'outbrain.com',
+  'adnxs.com',
+  'amazon-adsystem.com',
+  'hm.baidu.com',
+  'cnzz.com',
+];
+
+// 网络日志最多保留的条数，防止长时间不消费时占满内存
+const MAX_LOG_ENTRIES = 1000;
+
+// /正则/flags 形式的 urlPattern；flags 只认合法的正则标志，/api/users 这类路径仍按子串匹配
+const REGEX_PATTERN = /^\/(.+)\/([dgimsuy]*)$/;
+
+// 命中广告/跟踪域名时使用的规则，排在所有规则之前
+const AD_TRACKER_RULE: NetworkRouteRule = { name: 'ads-and-trackers', action: 'block' };
+
+/**
+ * 网络拦截器 - 按规则拦截、改写或伪造请求，并记录网络日志
+ *
+ * 规则按添加顺序匹配，命中第一条即生效；
+ * 日志按请求开始的顺序记录，由调用方在每个操作结束后取走。
+ */
+export class NetworkInterceptor {
+  private rules: NetworkRouteRule[] = [];
+  private blockAdsAndTrackers: boolean;
+  private log: NetworkLogEntry[] = [];
+  private pending = new WeakMap<any, NetworkLogEntry>();   // 进行中的请求 -> 日志条目
+
+  constructor(rules: NetworkRouteRule[] = [], options: { blockResourceTypes?: NetworkResourceType[]; blockAdsAndTrackers?: boolean } = {}) {
+    this.blockAdsAndTrackers = !!options.blockAdsAndTrackers;
+    if (options.blockResourceTypes && options.blockResourceTypes.length > 0) {
+      this.rules.push({ name: 'blocked-resource-types', resourceTypes: options.blockResourceTypes, action: 'block' });
+    }
+    rules.forEach(rule => this.addRule(rule));
+  }
+
+  hasRules(): boolean {
+    return this.blockAdsAndTrackers || this.rules.length > 0;
+  }
+
+  getRules(): NetworkRouteRule[] {
+    return this.blockAdsAndTrackers ? [AD_TRACKER_RULE, ...this.rules] : [...this.rules];
+  }
+
+  /**
+   * 添加规则，返回移除该规则的函数
+   */
+  addRule(rule: NetworkRouteRule): () => void {
+    NetworkInterceptor.validateRule(rule);
+    this.rules.push(rule);
+    return () => {
+      this.rules = this.rules.filter(r => r !== rule);
+    };
+  }
+
+  /**
+   * 查找第一条命中的规则；主框架导航是用户要打开的页面，不按广告/跟踪域名拦截
+   */
+  findRule(url: string, resourceType: string, method: string, isMainFrameNavigation: boolean = false): NetworkRouteRule | undefined {
+    if (this.blockAdsAndTrackers && !isMainFrameNavigation && NetworkInterceptor.isAdOrTracker(url)) {
+      return AD_TRACKER_RULE;
+    }
+    return this.rules.find(rule => NetworkInterceptor.matches(rule, url, resourceType, method));
+  }
+
+  /**
+   * 按规则处理一个路由，返回 false 表示没有命中规则，调用方需要自己放行
+   */
+  async handleRoute(route: any): Promise<boolean> {
+    const request = route.request();
+    const rule = this.findRule(request.url(), request.resourceType(), request.method(), NetworkInterceptor.isMainFrameNavigation(request));
+    if (!rule) {
+      return false;
+    }
+
+    const entry = this.pending.get(request);
+    if (entry) {
+      entry.rule = NetworkInterceptor.describeRule(rule);
+    }
+
+    try {
+      switch (rule.action) {
+        case 'block':
+          this.markIntercepted(request, 'blocked');
+          await route.abort('blockedbyclient');
+          break;
+        case 'fulfill':
+          this.markIntercepted(request, 'fulfilled');
+          await route.fulfill(NetworkInterceptor.buildFulfillOptions(rule));
+          break;
+        case 'continue':
+          if (rule.headers || rule.responseHeaders) {
+            this.markIntercepted(request, 'modified');
+          }
+          await this.continueWithRewrites(route, rule);
+          break;
+      }
+    } catch (error) {
+      // 页面关闭等情况下路由可能已经失效
+      logger.debug(`Network rule ${NetworkInterceptor.describeRule(rule)} failed for ${request.url()}: ${error}`, 'NetworkInterceptor');
+      await route.fallback().catch(() => {});
+    }
+    return true;
+  }
+
+  /**
+   * 请求被其他逻辑（如域名策略）拦截时，在日志中标记
+   */
+  markIntercepted(request: any, intercepted: NetworkLogEntry['intercepted'], rule?: string): void {
+    const entry = this.pending.get(request);
+    if (entry) {
+      entry.intercepted = intercepted;
+      entry.rule = rule || entry.rule;
+    }
+  }
+
+  /**
+   * 监听上下文的请求事件，记录网络日志
+   */
+  attach(context: any): void {
+    context.on('request', (request: any) => this.onRequest(request));
+    context.on('requestfinished', (request: any) => this.onRequestFinished(request));
+    context.on('requestfailed', (request: any) => this.onRequestFailed(request));
+  }
+
+  /**
+   * 取出自上次调用以来的网络日志（包括仍在进行中的请求）
+   */
+  consumeLog(): NetworkLogEntry[] {
+    const entries = this.log;
+    this.log = [];
+    return entries;
+  }
+
+  private onRequest(request: any): void {
+    const entry: NetworkLogEntry = {
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      isNavigation: request.isNavigationRequest(),
+      startTime: Date.now(),
+    };
+    this.pending.set(request, entry);
+    this.log.push(entry);
+    if (this.log.length > MAX_LOG_ENTRIES) {
+      this.log.splice(0, this.log.length - MAX_LOG_ENTRIES);
+    }
+  }
+
+  private async onRequestFinished(request: any): Promise<void> {
+    const entry = this.pending.get(request);
+    if (!entry) return;
+    this.pending.delete(request);
+
+    entry.duration = Date.now() - entry.startTime;
+    try {
+      const response = await request.response();
+      entry.status = response?.status();
+    } catch {
+      // 响应对象可能已经被释放
+    }
+  }
+
+  private onRequestFailed(request: any): void {
+    const entry = this.pending.get(request);
+    if (!entry) return;
+    this.pending.delete(request);
+
+    entry.duration = Date.now() - entry.startTime;
+    entry.failure = request.failure()?.errorText || 'failed';
+  }
+
+  private async continueWithRewrites(route: any, rule: NetworkRouteRule): Promise<void> {
+    const request = route.request();
+    const headers = rule.headers ? NetworkInterceptor.applyHeaders(request.headers(), rule.headers) : undefined;
+
+    if (!rule.responseHeaders) {
+      // fallback 让改写后的请求继续经过更早注册的路由（如HAR回放）
+      await route.fallback(headers ? { headers } : undefined);
+      return;
+    }
+
+    // 改写响应头需要先取回真实响应
+    const response = await route.fetch(headers ? { headers } : undefined);
+    await route.fulfill({
+      response,
+      headers: NetworkInterceptor.applyHeaders(response.headers(), rule.responseHeaders),
+    });
+  }
+
+  static matches(rule: NetworkRouteRule, url: string, resourceType: string, method: string): boolean {
+    if (rule.resourceTypes && rule.resourceTypes.length > 0 && !rule.resourceTypes.includes(resourceType as NetworkResourceType)) {
+      return false;
+    }
+    if (rule.methods && rule.methods.length > 0 && !rule.methods.some(m => m.toUpperCase() === method.toUpperCase())) {
+      return false;
+    }
+    if (rule.urlPattern && !NetworkInterceptor.matchesUrl(url, rule.urlPattern)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * URL 是否属于 AD_TRACKER_PATTERNS 中的广告/跟踪服务（只看域名和路径，不看查询参数）
+   */
+  static isAdOrTracker(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    return AD_TRACKER_PATTERNS.some(pattern => {
+      const slash = pattern.indexOf('/');
+      const domain = slash === -1 ? pattern : pattern.substring(0, slash);
+      const pathPrefix = slash === -1 ? '' : pattern.substring(slash);
+
+      const domainMatches = domain.endsWith('.')
+        ? host.startsWith(domain) || host.includes(`.${domain}`)
+        : host === domain || host.endsWith(`.${domain}`);
+      if (!domainMatches) {
+        return false;
+      }
+      return !pathPrefix || parsed.pathname === pathPrefix || parsed.pathname.startsWith(`${pathPrefix}/`);
+    });
+  }
+
+  /**
+   * URL匹配：/正则/flags、含 * 的glob，或普通子串
+   */
+  static matchesUrl(url: string, pattern: string): boolean {
+    const regex = REGEX_PATTERN.exec(pattern);
+    if (regex) {
+      return new RegExp(regex[1], regex[2]).test(url);
+    }
+
+    if (pattern.includes('*')) {
+      const source = pattern
+        .split('**')
+        .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+        .join('.*');
+      return new RegExp(`^${source}$`).test(url);
+    }
+
+    return url.includes(pattern);
+  }
+
+  static applyHeaders(original: Record<string, string>, changes: Record<string, string | null>): Record<string, string> {
+    const headers: Record<string, string> = { ...original };
+    for (const [name, value] of Object.entries(changes)) {
+      // 请求头名称不区分大小写，先删掉同名的旧值
+      for (const existing of Object.keys(headers)) {
+        if (existing.toLowerCase() === name.toLowerCase()) {
+          delete headers[existing];
+        }
+      }
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+    return headers;
+  }
+
+  // Service Worker 的请求没有 frame
+  private static isMainFrameNavigation(request: any): boolean {
+    try {
+      if (!request.isNavigationRequest()) {
+        return false;
+      }
+      const frame = request.frame();
+      return frame === frame.page().mainFrame();
+    } catch {
+      return false;
+    }
+  }
+
+  static describeRule(rule: NetworkRouteRule): string {
+    return rule.name || rule.urlPattern || (rule.resourceTypes || []).join(',') || rule.action;
+  }
+
+  private static buildFulfillOptions(rule: NetworkRouteRule): any {
+    const options: any = { status: rule.status || 200 };
+    if (rule.contentType) options.contentType = rule.contentType;
+    if (rule.headers) options.headers = Object.fromEntries(Object.entries(rule.headers).filter(([, v]) => v !== null));
+
+    if (rule.fixture) {
+      options.path = path.resolve(rule.fixture);
+    } else if (rule.json !== undefined) {
+      options.json = rule.json;
+    } else {
+      options.body = rule.body || '';
+    }
+    return options;
+  }
+
+  private static validateRule(rule: NetworkRouteRule): void {
+    if (!rule || !['block', 'fulfill', 'continue'].includes(rule.action)) {
+      throw new Error(`Invalid network rule action: ${rule?.action}`);
+    }
+    if (!rule.urlPattern && !(rule.resourceTypes && rule.resourceTypes.length > 0) && !(rule.methods && rule.methods.length > 0)) {
+      throw new Error(`Network rule ${NetworkInterceptor.describeRule(rule)} must set urlPattern, resourceTypes or methods`);
+    }
+    if (rule.action === 'fulfill' && rule.fixture) {
+      const fs = require('fs');
+      if (!fs.existsSync(path.resolve(rule.fixture))) {
+        throw new Error(`Network rule fixture not found: ${rule.fixture}`);
+      }
+    }
+    if (rule.urlPattern && REGEX_PATTERN.test(rule.urlPattern)) {
+      const [, source, flags] = REGEX_PATTERN.exec(rule.urlPattern)!;
+      new RegExp(source, flags);   // 正则无效时直接抛出
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface BrowserProcessInfo {
+  pid: number;
+  name: string;
+}
+
+// 执行命令并返回标准输出，命令失败（包括"没有找到"这类非零退出码）时抛出错误
+export type CommandRunner = (command: string, timeout?: number) => string;
+
+/**
+ * 进程管理的平台实现 - 调试浏览器模式需要查找、结束浏览器进程和占用调试端口的进程
+ */
+export interface ProcessPlatform {
+  readonly name: 'windows' | 'linux' | 'darwin';
+  /** 浏览器可执行文件对应的进程名（Linux 上 google-chrome 等启动脚本最终运行的是 chrome） */
+  getProcessNames(browserPath: string): string[];
+  listProcesses(processNames: string[]): BrowserProcessInfo[];
+  /** 监听指定TCP端口的进程 */
+  findPortOwners(port: number): number[];
+  killProcess(pid: number): boolean;
+  /** 按优先级排列的默认浏览器路径 */
+  getDefaultBrowserPaths(): string[];
+}
+
+const defaultRunner: CommandRunner = (command, timeout = 5000) =>
+  execSync(command, { encoding: 'utf8', timeout, stdio: ['ignore', 'pipe', 'ignore'] });
+
+// 同一浏览器在不同平台上的进程名
+const BROWSER_FAMILIES: Array<{ match: RegExp; windows: string[]; linux: string[]; darwin: string[] }> = [
+  { match: /edge/i, windows: ['msedge.exe'], linux: ['msedge', 'microsoft-edge', 'microsoft-edge-stable'], darwin: ['Microsoft Edge'] },
+  { match: /chromium/i, windows: ['chromium.exe'], linux: ['chromium', 'chromium-browser'], darwin: ['Chromium'] },
+  { match: /chrome/i, windows: ['chrome.exe'], linux: ['chrome', 'google-chrome', 'google-chrome-stable'], darwin: ['Google Chrome'] },
+];
+
+abstract class BaseProcessPlatform implements ProcessPlatform {
+  abstract readonly name: 'windows' | 'linux' | 'darwin';
+
+  constructor(protected run: CommandRunner = defaultRunner) {}
+
+  abstract listProcesses(processNames: string[]): BrowserProcessInfo[];
+  abstract findPortOwners(port: number): number[];
+  abstract killProcess(pid: number): boolean;
+  abstract getDefaultBrowserPaths(): string[];
+
+  getProcessNames(browserPath: string): string[] {
+    const family = BROWSER_FAMILIES.find(candidate => candidate.match.test(browserPath));
+    const ownName = this.name === 'windows' ? path.win32.basename(browserPath) : path.posix.basename(browserPath);
+    const names = family ? family[this.name] : [];
+    return ownName && !names.includes(ownName) ? [ownName, ...names] : names;
+  }
+
+  // 命令没有输出匹配结果时通常以非零退出码结束，统一当作空结果
+  protected tryRun(command: string, timeout?: number): string {
+    try {
+      return this.run(command, timeout);
+    } catch {
+      return '';
+    }
+  }
+
+  // 无论如何都不能结束自己
+  protected excludeSelf<T extends number | BrowserProcessInfo>(items: T[]): T[] {
+    return items.filter(item => (typeof item === 'number' ? item : item.pid) !== process.pid);
+  }
+}
+
+export class WindowsProcessPlatform extends BaseProcessPlatform {
+  readonly name = 'windows' as const;
+
+  listProcesses(processNames: string[]): BrowserProcessInfo[] {
+    const processes: BrowserProcessInfo[] = [];
+    for (const processName of processNames) {
+      const output = this.tryRun(`tasklist /FI "IMAGENAME eq ${processName}" /FO CSV /NH`);
+      for (const line of output.split(/\r?\n/)) {
+        const parts = line.split('","').map(part => part.replace(/"/g, '').trim());
+        const pid = parseInt(parts[1], 10);
+        if (parts[0].toLowerCase() === processName.toLowerCase() && !isNaN(pid)) {
+          processes.push({ pid, name: parts[0] });
+        }
+      }
+    }
+    return this.excludeSelf(processes);
+  }
+
+  findPortOwners(port: number): number[] {
+    const pids = new Set<number>();
+    for (const line of this.tryRun(`netstat -ano -p TCP | findstr :${port}`).split(/\r?\n/)) {
+      // 协议  本地地址  外部地址  状态  PID，只看本地地址是该端口的监听
+      const parts = line.trim().split(/\s+/);
+      if (parts.length >= 5 && parts[1].endsWith(`:${port}`) && /LISTEN/i.test(parts[3])) {
+        const pid = parseInt(parts[4], 10);
+        if (pid > 0) pids.add(pid);
+      }
+    }
+    return this.excludeSelf(Array.from(pids));
+  }
+
+  killProcess(pid: number): boolean {
+    try {
+      this.run(`taskkill /PID ${pid} /F`, 10000);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getDefaultBrowserPaths(): string[] {
+    const localAppData = process.env.LOCALAPPDATA || 'C:\\Users\\Default\\AppData\\Local';
+    // 优先使用Edge（Windows 自带）
+    return [
+      'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe',
+      'C:\\Program Files\\Microsoft\\Edge\\Application\\msedge.exe',
+      'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+      'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+      path.win32.join(localAppData, 'Google\\Chrome\\Application\\chrome.exe'),
+    ];
+  }
+}
+
+/**
+ * Linux 和 macOS：ps 查进程、kill 结束进程，端口用 ss（Linux）或 lsof 查询
+ */
+export class PosixProcessPlatform extends BaseProcessPlatform {
+  readonly name: 'linux' | 'darwin';
+
+  constructor(name: 'linux' | 'darwin', run?: CommandRunner) {
+    super(run);
+    this.name = name;
+  }
+
+  listProcesses(processNames: string[]): BrowserProcessInfo[] {
+    // Linux 的 comm 最多15个字符；macOS 的 comm 是完整路径，可能包含空格
+    const wanted = processNames.map(name => name.slice(0, 15));
+    const processes: BrowserProcessInfo[] = [];
+
+    for (const line of this.tryRun('ps -A -o pid= -o comm=').split('\n')) {
+      const match = /^\s*(\d+)\s+(.+?)\s*$/.exec(line);
+      if (!match) continue;
+
+      const name = path.posix.basename(match[2]);
+      if (wanted.includes(name.slice(0, 15))) {
+        processes.push({ pid: parseInt(match[1], 10), name });
+      }
+    }
+    return this.excludeSelf(processes);
+  }
+
+  findPortOwners(port: number): number[] {
+    const pids = new Set<number>();
+
+    // ss 输出: users:(("chrome",pid=1234,fd=55))，需要有权限才能看到其他用户的进程
+    if (this.name === 'linux') {
+      const output = this.tryRun(`ss -ltnpH "sport = :${port}"`);
+      for (const match of output.matchAll(/pid=(\d+)/g)) {
+        pids.add(parseInt(match[1], 10));
+      }
+    }
+
+    // 没有 ss（macOS、精简镜像）时用 lsof
+    if (pids.size === 0) {
+      for (const line of this.tryRun(`lsof -nP -iTCP:${port} -sTCP:LISTEN -t`).split('\n')) {
+        const pid = parseInt(line.trim(), 10);
+        if (pid > 0) pids.add(pid);
+      }
+    }
+
+    return this.excludeSelf(Array.from(pids));
+  }
+
+  killProcess(pid: number): boolean {
+    try {
+      this.run(`kill -9 ${pid}`, 5000);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getDefaultBrowserPaths(): string[] {
+    if (this.name === 'darwin') {
+      return [
+        '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+        '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+        '/Applications/Chromium.app/Contents/MacOS/Chromium',
+      ];
+    }
+    return [
+      '/usr/bin/google-chrome-stable',
+      '/usr/bin/google-chrome',
+      '/opt/google/chrome/chrome',
+      '/usr/bin/chromium',
+      '/usr/bin/chromium-browser',
+      '/snap/bin/chromium',
+      '/usr/bin/microsoft-edge-stable',
+      '/usr/bin/microsoft-edge',
+    ];
+  }
+}
+
+export function createProcessPlatform(platform: NodeJS.Platform = process.platform, run?: CommandRunner): ProcessPlatform {
+  if (platform === 'win32') {
+    return new WindowsProcessPlatform(run);
+  }
+  return new PosixProcessPlatform(platform === 'darwin' ? 'darwin' : 'linux', run);
+}
+
+/**
+ * 返回第一个存在的默认浏览器路径，都不存在时返回优先级最高的路径
+ */
+export function findDefaultBrowserPath(platform: ProcessPlatform, exists: (filePath: string) => boolean = fs.existsSync): string {
+  const candidates = platform.getDefaultBrowserPaths();
+  return candidates.find(candidate => exists(candidate)) || candidates[0];
+}
@@ -1,11 +1,29 @@
-const { chromium } = require('playwright');
-import { BrowserProfile, DOMState } from '../types';
+const playwright = require('playwright');
+import { BrowserEngine, BrowserProfile, DOMElement, DOMState, ElementFingerprint, NetworkLogEntry, NetworkRouteRule, ScreenshotOptions } from '../types';
 import { logger } from '../utils/logger';
 import { DOMService } from '../dom/service';
 import { Helpers } from '../utils/helpers';
 import { MasterController } from './master-controller';
 import { Config } from '../config';
 import { DownloadManager } from '../utils/download-manager';
+import { DomainPolicy, DomainNotAllowedError } from './domain-policy';
+import { NetworkInterceptor } from './network-interceptor';
+import { ProfileStore } from '../profiles/service';
+import { ProcessPlatform, createProcessPlatform } from './process-platform';
+
+// 截图编号框的覆盖层ID，截图后移除
+const SCREENSHOT_MARKS_ID = '__sentra_screenshot_marks';
+// 最多标注的元素数，元素过多时编号会互相遮挡
+const MAX_SCREENSHOT_MARKS = 300;
+
+/**
+ * 会话关闭后录制文件的复制目标
+ */
+export interface RecordingExports {
+  har?: string;        // HAR文件路径
+  trace?: string;      // trace文件路径 (.zip)
+  videoDir?: string;   // 视频目录
+}
 
 /**
  * 浏览器会话管理器 - 浏览器的大管家
@@ -27,6 +45,18 @@ export class BrowserSession {
   private masterController: MasterController | null = null;  // 主控制器，增强功能的核心
   private enhancedMode: boolean = false;         // 是否启用增强模式
   private downloadManager: DownloadManager | null = null;    // 下载管理器
+  private domainPolicy: DomainPolicy;            // 域名访问策略
+  private blockedNavigations: DomainNotAllowedError[] = [];  // 被拦截、尚未报告给调用方的导航
+  private networkInterceptor: NetworkInterceptor;            // 网络路由规则和请求日志
+  private routingInstalled: boolean = false;                 // 是否已经注册 context.route
+  private harRecordingPath?: string;                         // HAR录制文件，关闭上下文时才写入磁盘
+  private traceRecordingPath?: string;                       // trace文件，停止tracing时写入
+  private videoRecordingDir?: string;                        // 视频目录，页面关闭时才写完
+  private recordingExports: RecordingExports = {};           // 关闭后需要复制录制文件的目标（如运行目录）
+  private storageState?: any;                                // 从命名配置文件读取的 cookies + localStorage
+  private connectedOverCDP: boolean = false;                 // 是否通过CDP连接到用户浏览器（关闭时只断开连接）
+  private touchEnabled: boolean = false;                     // 上下文是否启用了触摸（设备模拟或 hasTouch）
+  private sharedBrowser: any = null;                         // 浏览器池提供的浏览器（关闭时只关闭自己的上下文）
 
   constructor(profile: BrowserProfile = {}) {
     // 设置默认配置，用户可以覆盖这些设置
@@ -36,6 +66,24 @@ export class BrowserSession {
       timeout: 30000,                              // 30秒超时
       ...profile,                                  // 用户自定义配置会覆盖默认值
     };
+    this.domainPolicy = new DomainPolicy(this.profile.allowedDomains, this.profile.blockedDomains);
+    this.networkInterceptor = new NetworkInterceptor(this.profile.networkRules, {
+      blockResourceTypes: this.profile.blockResourceTypes,
+      blockAdsAndTrackers: this.profile.blockAdsAndTrackers,
+    });
+
+    const os = require('os');
+    const path = require('path');
+    const tempName = `sentra-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+    if (this.profile.recordHar) {
+      this.harRecordingPath = this.profile.harPath || path.join(os.tmpdir(), `${tempName}.har`);
+    }
+    if (this.profile.recordTrace) {
+      this.traceRecordingPath = this.profile.tracePath || path.join(os.tmpdir(), `${tempName}.trace.zip`);
+    }
+    if (this.profile.recordVideo) {
+      this.videoRecordingDir = this.profile.videoDir || path.join(os.tmpdir(), `${tempName}-videos`);
+    }
   }
 
   async start(): Promise<void> {
@@ -45,9 +93,33 @@ export class BrowserSession {
       // 🎯 检查是否启用CDP连接模式
       const connectionConfig = Config.getBrowserConnectionConfig();
 
-      if (connectionConfig.connectToUserBrowser) {
+      // 先读取配置文件，名称写错时不用等浏览器启动才报错
+      if (this.profile.storageStateName) {
+        this.storageState = new ProfileStore(Config.getProfilesDirectory()).load(this.profile.storageStateName);
+      }
+
+      // CDP 是 Chromium 专有协议，其他引擎只能由 Playwright 启动
+      if (connectionConfig.connectToUserBrowser && this.getEngine() !== 'chromium' && !this.sharedBrowser) {
+        logger.warn(`⚠️ ${this.getEngine()} 不支持CDP连接，忽略 BROWSER_CONNECT_TO_USER_BROWSER，改为启动新的浏览器实例`, 'BrowserSession');
+      }
+      // 浏览器池里的浏览器由池子启动，不连接用户浏览器
+      this.connectedOverCDP = connectionConfig.connectToUserBrowser && this.getEngine() === 'chromium' && !this.sharedBrowser;
+
+      if (this.connectedOverCDP) {
         // 使用CDP连接到现有浏览器（无自动化痕迹）
         await this.startWithCDPConnection();
+        if (this.harRecordingPath) {
+          // 已有的浏览器上下文无法开启HAR录制
+          logger.warn('📼 CDP连接模式不支持录制HAR，已忽略 recordHar', 'BrowserSession');
+          this.harRecordingPath = undefined;
+        }
+        if (this.videoRecordingDir) {
+          logger.warn('🎬 CDP连接模式不支持录制视频，已忽略 recordVideo', 'BrowserSession');
+          this.videoRecordingDir = undefined;
+        }
+        if (this.profile.device || this.profile.isMobile || this.profile.hasTouch) {
+          logger.warn('📱 CDP连接模式使用已有的浏览器上下文，无法模拟设备，已忽略 device', 'BrowserSession');
+        }
       } else if (this.profile.userDataDir) {
         // 使用 launchPersistentContext 支持用户数据目录
         await this.startWithPersistentContext();
@@ -56,6 +128,15 @@ export class BrowserSession {
         await this.startWithNewContext();
       }
 
+      // 新上下文在创建时就带上了 storageState，其他方式只能事后补上 cookies
+      if (this.storageState && (this.connectedOverCDP || this.profile.userDataDir)) {
+        await this.applyStorageStateCookies();
+      }
+
+      // 页面发出任何请求之前先装好域名拦截和网络规则
+      await this.setupRequestRouting();
+      await this.startTracing();
+
       // Create page if not already created by CDP connection
       if (!this.page) {
         this.page = await this.context.newPage();
@@ -63,7 +144,7 @@ export class BrowserSession {
       this.tabs = [this.page];
 
       // Initialize DOM service
-      this.domService = new DOMService(this.page);
+      this.domService = new DOMService(this.page, this.profile.domMode);
 
       // Set up event listeners
       this.setupEventListeners();
@@ -115,10 +196,9 @@ export class BrowserSession {
       executablePath: this.profile.executablePath,
       timeout: this.profile.timeout,
       slowMo: this.profile.slowMo,
-      devtools: this.profile.devtools,
+      devtools: this.getEngine() === 'chromium' ? this.profile.devtools : undefined,
       args: this.profile.args || [],
-      viewport: this.profile.viewport,
-      userAgent: this.profile.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      ...this.getEmulationOptions(),
       ignoreHTTPSErrors: this.profile.ignoreHTTPSErrors,
       proxy: this.profile.proxy,
       locale: this.profile.locale,
@@ -132,11 +212,15 @@ export class BrowserSession {
       // 下载配置
       acceptDownloads: this.profile.acceptDownloads !== false,
       downloadsPath: this.profile.downloadsPath,
+      // Service Worker 发出的请求不经过 context.route，启用域名策略或网络规则时必须禁用
+      serviceWorkers: this.needsRequestRouting() ? 'block' : 'allow',
+      recordHar: this.harRecordingPath ? { path: this.harRecordingPath } : undefined,
+      recordVideo: this.videoRecordingDir ? { dir: this.videoRecordingDir, size: this.profile.videoSize } : undefined,
     };
 
     try {
       // 使用 launchPersistentContext 启动
-      this.context = await chromium.launchPersistentContext(this.profile.userDataDir!, launchOptions);
+      this.context = await this.getBrowserType().launchPersistentContext(this.profile.userDataDir!, launchOptions);
 
       // 从 context 获取 browser 对象（如果可用）
       // 注意：launchPersistentContext 可能不提供 browser 对象
@@ -157,14 +241,14 @@ export class BrowserSession {
 
         try {
           const { execSync } = require('child_process');
-          execSync('npx playwright install chromium', { stdio: 'inherit' });
+          execSync(`npx playwright install ${this.getEngine()}`, { stdio: 'inherit' });
           logger.success('浏览器安装完成，重新启动...', 'BrowserSession');
 
           // 重试启动，但不使用自定义可执行路径
           const retryOptions = { ...launchOptions };
           delete retryOptions.executablePath;
 
-          this.context = await chromium.launchPersistentContext(this.profile.userDataDir!, retryOptions);
+          this.context = await this.getBrowserType().launchPersistentContext(this.profile.userDataDir!, retryOptions);
           this.browser = this.context.browser();
 
           // 初始化下载管理器
@@ -175,7 +259,7 @@ export class BrowserSession {
 
         } catch (installError) {
           logger.error('浏览器自动安装失败', installError as Error, 'BrowserSession');
-          throw new Error(`浏览器启动失败。请手动运行: npx playwright install chromium`);
+          throw new Error(`浏览器启动失败。请手动运行: npx playwright install ${this.getEngine()}`);
         }
       } else {
         throw error;
@@ -225,6 +309,288 @@ export class BrowserSession {
 
 
 
+  private needsRequestRouting(): boolean {
+    return this.domainPolicy.isActive() || this.networkInterceptor.hasRules() || !!this.profile.replayHar;
+  }
+
+  /**
+   * 🛡️ 在请求路由层面执行域名策略和网络规则，覆盖点击链接、重定向、弹窗和iframe
+   */
+  private async setupRequestRouting(): Promise<void> {
+    if (!this.context) return;
+
+    if (this.profile.recordNetwork !== false) {
+      this.networkInterceptor.attach(this.context);
+    }
+
+    if (this.networkInterceptor.hasRules()) {
+      logger.info(`🌐 已启用 ${this.networkInterceptor.getRules().length} 条网络路由规则`, 'BrowserSession');
+    }
+
+    // HAR回放要先注册：后注册的路由先执行，域名策略和网络规则放行的请求再交给HAR
+    if (this.profile.replayHar) {
+      const notFound = this.profile.harNotFound || 'abort';
+      logger.info(`📼 从HAR回放网络请求: ${this.profile.replayHar} (未录制的请求: ${notFound})`, 'BrowserSession');
+      await this.context.routeFromHAR(this.profile.replayHar, { notFound });
+    }
+
+    // 路由会让浏览器缓存失效，没有规则时不注册
+    if (this.needsRequestRouting()) {
+      await this.installRoute();
+    }
+
+    if (!this.domainPolicy.isActive()) return;
+
+    logger.info(
+      `🛡️ 域名策略已启用 - 允许: ${this.domainPolicy.getAllowedDomains().join(', ') || '全部'}; 禁止: ${this.domainPolicy.getBlockedDomains().join(', ') || '无'}`,
+      'BrowserSession'
+    );
+
+    // 已经打开的页面（CDP连接模式）如果停在不允许的站点，先离开
+    for (const page of this.context.pages()) {
+      const reason = this.domainPolicy.getBlockReason(page.url());
+      if (reason) {
+        logger.warn(`🛡️ 页面 ${page.url()} 不符合域名策略 (${reason})，跳转到空白页`, 'BrowserSession');
+        await page.goto('about:blank').catch(() => {});
+      }
+    }
+  }
+
+  private async installRoute(): Promise<void> {
+    if (this.routingInstalled) return;
+    this.routingInstalled = true;
+
+    await this.context.route('**/*', async (route: any) => {
+      const request = route.request();
+
+      if (this.domainPolicy.isActive()) {
+        const url = request.url();
+        const reason = this.domainPolicy.getBlockReason(url);
+
+        // 白名单只约束页面导航，第三方静态资源（CDN等）照常加载；黑名单域名的所有请求都拦截
+        const isNavigation = request.isNavigationRequest();
+        const blocked = isNavigation ? reason !== null : this.domainPolicy.isExplicitlyBlocked(url);
+
+        if (blocked) {
+          logger.warn(`🛡️ 已拦截请求: ${url} (${reason || 'blocked domain'})`, 'BrowserSession');
+          this.networkInterceptor.markIntercepted(request, 'blocked', 'domain-policy');
+          await route.abort('blockedbyclient').catch(() => {});
+
+          // 只有顶层页面的导航才算操作失败；iframe（支付组件、验证码等）被拦截不影响所在页面上的操作
+          if (isNavigation && this.isMainFrameRequest(request)) {
+            this.blockedNavigations.push(new DomainNotAllowedError(url, reason || 'blocked domain'));
+            await this.closeBlockedPopup(request);
+          }
+          return;
+        }
+      }
+
+      if (await this.networkInterceptor.handleRoute(route)) {
+        return;
+      }
+      // 交给更早注册的路由（如HAR回放），没有的话正常发出请求
+      await route.fallback().catch(() => {});
+    });
+  }
+
+  /**
+   * 请求是否来自页面的主框架（Service Worker 的请求没有 frame）
+   */
+  private isMainFrameRequest(request: any): boolean {
+    try {
+      const frame = request.frame();
+      return frame === frame.page().mainFrame();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 🌐 运行时添加网络路由规则（拦截、改写请求头或返回本地数据），返回移除规则的函数
+   * 注意：浏览器启动时没有任何规则的话，Service Worker 发出的请求不受运行时规则约束
+   */
+  async addNetworkRule(rule: NetworkRouteRule): Promise<() => void> {
+    const remove = this.networkInterceptor.addRule(rule);
+    if (this.context) {
+      await this.installRoute();
+    }
+    return remove;
+  }
+
+  /**
+   * 取出自上次调用以来的网络请求日志
+   */
+  consumeNetworkLog(): NetworkLogEntry[] {
+    return this.networkInterceptor.consumeLog();
+  }
+
+  getNetworkInterceptor(): NetworkInterceptor {
+    return this.networkInterceptor;
+  }
+
+  /**
+   * 弹窗/新标签页的首次导航被拦截后，关闭这个空白页面
+   */
+  private async closeBlockedPopup(request: any): Promise<void> {
+    try {
+      const frame = request.frame();
+      const page = frame.page();
+      if (page !== this.page && frame === page.mainFrame() && page.url() === 'about:blank') {
+        await page.close();
+        this.tabs = this.tabs.filter(tab => tab !== page);
+        logger.info('🛡️ 已关闭被拦截的弹窗', 'BrowserSession');
+      }
+    } catch {
+      // 请求可能来自Service Worker，没有对应的页面
+    }
+  }
+
+  /**
+   * 取出自上次调用以来被域名策略拦截的导航
+   */
+  consumeBlockedNavigations(): DomainNotAllowedError[] {
+    const blocked = this.blockedNavigations;
+    this.blockedNavigations = [];
+    return blocked;
+  }
+
+  getDomainPolicy(): DomainPolicy {
+    return this.domainPolicy;
+  }
+
+  /**
+   * 💾 把当前的 cookies 和 localStorage 保存为命名配置文件，返回文件路径
+   */
+  async saveStorageState(name: string): Promise<string> {
+    if (!this.context) {
+      throw new Error('Browser session not started');
+    }
+    const state = await this.context.storageState();
+    return new ProfileStore(Config.getProfilesDirectory()).save(name, state);
+  }
+
+  private async applyStorageStateCookies(): Promise<void> {
+    const cookies = this.storageState.cookies || [];
+    try {
+      await this.context.addCookies(cookies);
+      logger.info(`🍪 已从配置文件 ${this.profile.storageStateName} 恢复 ${cookies.length} 个cookie`, 'BrowserSession');
+    } catch (error) {
+      logger.warn(`恢复配置文件cookie失败: ${error instanceof Error ? error.message : String(error)}`, 'BrowserSession');
+    }
+    if ((this.storageState.origins || []).length > 0) {
+      logger.warn('⚠️ 使用 userDataDir 或CDP连接时无法恢复配置文件中的 localStorage', 'BrowserSession');
+    }
+  }
+
+  /**
+   * 当前会话正在录制的文件（录制文件在会话关闭后才完整）
+   */
+  getActiveRecordings(): { har?: string; trace?: string; videoDir?: string } {
+    return {
+      har: this.harRecordingPath,
+      trace: this.traceRecordingPath,
+      videoDir: this.videoRecordingDir,
+    };
+  }
+
+  /**
+   * 📼 会话关闭、录制文件写入磁盘后，再复制一份到指定位置
+   */
+  exportRecordingsTo(destinations: RecordingExports): void {
+    if (destinations.har && !this.harRecordingPath) {
+      throw new Error('HAR recording is not enabled for this browser session');
+    }
+    if (destinations.trace && !this.traceRecordingPath) {
+      throw new Error('Trace recording is not enabled for this browser session');
+    }
+    if (destinations.videoDir && !this.videoRecordingDir) {
+      throw new Error('Video recording is not enabled for this browser session');
+    }
+    this.recordingExports = { ...this.recordingExports, ...destinations };
+  }
+
+  private async startTracing(): Promise<void> {
+    if (!this.traceRecordingPath) return;
+
+    try {
+      await this.context.tracing.start({ screenshots: true, snapshots: true, sources: true });
+      logger.info('🧵 已开始录制trace', 'BrowserSession');
+    } catch (error) {
+      logger.warn(`开始录制trace失败: ${error instanceof Error ? error.message : String(error)}`, 'BrowserSession');
+      this.traceRecordingPath = undefined;
+    }
+  }
+
+  /**
+   * 停止tracing并写入trace文件，必须在关闭上下文之前调用
+   */
+  private async stopTracing(): Promise<void> {
+    if (!this.traceRecordingPath || !this.context) return;
+
+    try {
+      await this.context.tracing.stop({ path: this.traceRecordingPath });
+    } catch (error) {
+      logger.warn(`保存trace失败: ${error instanceof Error ? error.message : String(error)}`, 'BrowserSession');
+    }
+  }
+
+  /**
+   * 把关闭后写完的HAR、trace和视频复制到导出位置，并清理临时文件
+   */
+  private exportRecordings(): void {
+    const fs = require('fs');
+    const path = require('path');
+    const exports = this.recordingExports;
+    this.recordingExports = {};
+
+    const copyFile = (label: string, source: string | undefined, destination: string | undefined, keepSource: boolean) => {
+      if (!source) return;
+      if (!fs.existsSync(source)) {
+        logger.warn(`${label}文件未生成: ${source}`, 'BrowserSession');
+        return;
+      }
+      if (destination) {
+        try {
+          if (path.resolve(destination) !== path.resolve(source)) {
+            fs.mkdirSync(path.dirname(destination), { recursive: true });
+            fs.copyFileSync(source, destination);
+          }
+          logger.info(`📼 ${label}已保存: ${destination}`, 'BrowserSession');
+        } catch (error) {
+          logger.warn(`保存${label}失败 (${destination}): ${error instanceof Error ? error.message : String(error)}`, 'BrowserSession');
+        }
+      }
+      // 临时录制文件复制完就删掉
+      if (!keepSource) {
+        fs.rmSync(source, { force: true });
+      } else {
+        logger.info(`📼 ${label}已保存: ${source}`, 'BrowserSession');
+      }
+    };
+
+    copyFile('HAR', this.harRecordingPath, exports.har, !!this.profile.harPath);
+    copyFile('trace', this.traceRecordingPath, exports.trace, !!this.profile.tracePath);
+
+    if (this.videoRecordingDir && fs.existsSync(this.videoRecordingDir)) {
+      if (exports.videoDir && path.resolve(exports.videoDir) !== path.resolve(this.videoRecordingDir)) {
+        try {
+          fs.mkdirSync(exports.videoDir, { recursive: true });
+          for (const file of fs.readdirSync(this.videoRecordingDir)) {
+            fs.copyFileSync(path.join(this.videoRecordingDir, file), path.join(exports.videoDir, file));
+          }
+          logger.info(`🎬 视频已保存: ${exports.videoDir}`, 'BrowserSession');
+        } catch (error) {
+          logger.warn(`保存视频失败 (${exports.videoDir}): ${error instanceof Error ? error.message : String(error)}`, 'BrowserSession');
+        }
+      }
+      if (!this.profile.videoDir) {
+        fs.rmSync(this.videoRecordingDir, { recursive: true, force: true });
+      } else {
+        logger.info(`🎬 视频已保存: ${this.videoRecordingDir}`, 'BrowserSession');
+      }
+    }
+  }
+
   /**
    * 📥 获取下载历史
    */
@@ -239,20 +605,163 @@ export class BrowserSession {
     return this.downloadManager?.getDownloadsPath() || Config.getDefaultDownloadsPath();
   }
 
+  getEngine(): BrowserEngine {
+    return this.profile.browserType || 'chromium';
+  }
+
+  /**
+   * 使用浏览器池提供的浏览器：start() 只在上面创建新的上下文，close() 不关闭浏览器
+   */
+  useSharedBrowser(browser: any): void {
+    if (this.isStarted()) {
+      throw new Error('Cannot attach a shared browser to a session that has already started');
+    }
+    if (this.profile.userDataDir) {
+      throw new Error('userDataDir requires a dedicated browser and cannot be used with a shared browser');
+    }
+    this.sharedBrowser = browser;
+  }
+
+  /**
+   * 按配置启动一个可以被多个会话共享的浏览器实例
+   */
+  static async launchSharedBrowser(profile: BrowserProfile = {}): Promise<any> {
+    return new BrowserSession(profile).launchBrowser();
+  }
+
+  /**
+   * 是否通过CDP连接到用户自己的浏览器（关闭会话时不会关闭浏览器）
+   */
+  isConnectedOverCDP(): boolean {
+    return this.connectedOverCDP;
+  }
+
+  private getBrowserType(): any {
+    const engine = this.getEngine();
+    if (!['chromium', 'firefox', 'webkit'].includes(engine)) {
+      throw new Error(`Unsupported browser type: ${engine} (use chromium, firefox or webkit)`);
+    }
+    return playwright[engine];
+  }
+
+  /**
+   * 📱 是否启用了触摸（tap 操作和移动端滚动依赖它）
+   */
+  isTouchEnabled(): boolean {
+    return this.touchEnabled;
+  }
+
+  /**
+   * 按名称查找 Playwright 设备描述（如 "iPhone 13"、"Pixel 7"），忽略大小写
+   */
+  static getDeviceDescriptor(name: string): any {
+    const devices = playwright.devices;
+    const key = devices[name] ? name : Object.keys(devices).find(device => device.toLowerCase() === name.toLowerCase());
+    if (!key) {
+      const examples = ['iPhone 15', 'iPhone 13', 'Pixel 7', 'Galaxy S9+', 'iPad Mini', 'iPad Pro 11'].filter(device => devices[device]).join(', ');
+      throw new Error(`Unknown device: ${name}. Examples: ${examples} (run "sentra-auto devices" for the full list)`);
+    }
+    return devices[key];
+  }
+
+  static listDevices(): string[] {
+    return Object.keys(playwright.devices);
+  }
+
+  /**
+   * 📱 上下文的设备模拟参数：设置了 device 时使用设备描述，单独设置的 userAgent、deviceScaleFactor、isMobile、hasTouch 优先
+   */
+  private getEmulationOptions(): { viewport?: { width: number; height: number }; userAgent?: string; deviceScaleFactor?: number; isMobile?: boolean; hasTouch?: boolean } {
+    const descriptor = this.profile.device ? BrowserSession.getDeviceDescriptor(this.profile.device) : undefined;
+    const options = {
+      viewport: descriptor ? descriptor.viewport : this.profile.viewport,
+      userAgent: descriptor && !this.profile.userAgent ? descriptor.userAgent : this.getUserAgent(),
+      deviceScaleFactor: this.profile.deviceScaleFactor ?? descriptor?.deviceScaleFactor,
+      isMobile: this.profile.isMobile ?? descriptor?.isMobile,
+      hasTouch: this.profile.hasTouch ?? descriptor?.hasTouch,
+    };
+
+    if (options.isMobile && this.getEngine() === 'firefox') {
+      logger.warn('📱 Firefox 不支持 isMobile，只模拟视口、User-Agent 和触摸', 'BrowserSession');
+      options.isMobile = undefined;
+    }
+    if (descriptor) {
+      const flags = [options.isMobile && 'mobile', options.hasTouch && 'touch'].filter(Boolean).join(', ');
+      logger.info(`📱 模拟设备: ${this.profile.device} (${options.viewport.width}x${options.viewport.height}${flags ? `, ${flags}` : ''})`, 'BrowserSession');
+      if (descriptor.defaultBrowserType !== this.getEngine()) {
+        logger.info(`📱 ${this.profile.device} 的默认引擎是 ${descriptor.defaultBrowserType}，当前使用 ${this.getEngine()}`, 'BrowserSession');
+      }
+    }
+
+    this.touchEnabled = !!options.hasTouch;
+    return options;
+  }
+
+  /**
+   * 默认伪装成 Chrome；其他引擎保留自己的 User-Agent，否则网站会按 Chrome 返回页面，失去跨引擎测试的意义
+   */
+  private getUserAgent(): string | undefined {
+    if (this.profile.userAgent) {
+      return this.profile.userAgent;
+    }
+    return this.getEngine() === 'chromium'
+      ? 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+      : undefined;
+  }
+
   /**
    * 使用传统的 launch + newContext 方式启动浏览器
    */
   private async startWithNewContext(): Promise<void> {
-    logger.info('🚀 启动新浏览器实例', 'BrowserSession');
+    if (this.sharedBrowser) {
+      logger.info(`♻️ 在共享浏览器上创建新的上下文 (${this.getEngine()})`, 'BrowserSession');
+      this.browser = this.sharedBrowser;
+    } else {
+      logger.info(`🚀 启动新浏览器实例 (${this.getEngine()})`, 'BrowserSession');
+      this.browser = await this.launchBrowser();
+    }
+
+    // 确保下载目录存在
+    if (this.profile.downloadsPath) {
+      await this.ensureDownloadsDirectory(this.profile.downloadsPath);
+    }
+
+    // Create context
+    this.context = await this.browser.newContext({
+      storageState: this.storageState,
+      ...this.getEmulationOptions(),
+      ignoreHTTPSErrors: this.profile.ignoreHTTPSErrors,
+      proxy: this.profile.proxy,
+      locale: this.profile.locale,
+      timezoneId: this.profile.timezone,
+      geolocation: this.profile.geolocation,
+      permissions: this.profile.permissions,
+      extraHTTPHeaders: this.profile.extraHTTPHeaders,
+      colorScheme: this.profile.colorScheme,
+      reducedMotion: this.profile.reducedMotion,
+      forcedColors: this.profile.forcedColors,
+      // 下载配置
+      acceptDownloads: this.profile.acceptDownloads !== false,
+      downloadsPath: this.profile.downloadsPath,
+      // Service Worker 发出的请求不经过 context.route，启用域名策略或网络规则时必须禁用
+      serviceWorkers: this.needsRequestRouting() ? 'block' : 'allow',
+      recordHar: this.harRecordingPath ? { path: this.harRecordingPath } : undefined,
+      recordVideo: this.videoRecordingDir ? { dir: this.videoRecordingDir, size: this.profile.videoSize } : undefined,
+    });
+  }
 
+  /**
+   * 启动浏览器实例，浏览器没有安装时自动安装后重试
+   */
+  private async launchBrowser(): Promise<any> {
     // Try to launch browser, with auto-install fallback
     try {
-      this.browser = await chromium.launch({
+      return await this.getBrowserType().launch({
         headless: this.profile.headless,
         executablePath: this.profile.executablePath,
         timeout: this.profile.timeout,
         slowMo: this.profile.slowMo,
-        devtools: this.profile.devtools,
+        devtools: this.getEngine() === 'chromium' ? this.profile.devtools : undefined,
         args: this.profile.args,
       });
     } catch (error: any) {
@@ -263,50 +772,26 @@ export class BrowserSession {
         try {
           // Install browser using playwright
           const { execSync } = require('child_process');
-          execSync('npx playwright install chromium', { stdio: 'inherit' });
+          execSync(`npx playwright install ${this.getEngine()}`, { stdio: 'inherit' });
 
           logger.success('浏览器安装完成，重新启动...', 'BrowserSession');
 
           // Retry launch without custom executable path
-          this.browser = await chromium.launch({
+          return await this.getBrowserType().launch({
             headless: this.profile.headless,
             timeout: this.profile.timeout,
             slowMo: this.profile.slowMo,
-            devtools: this.profile.devtools,
+            devtools: this.getEngine() === 'chromium' ? this.profile.devtools : undefined,
             args: this.profile.args,
           });
         } catch (installError) {
           logger.error('浏览器自动安装失败', installError as Error, 'BrowserSession');
-          throw new Error(`浏览器启动失败。请手动运行: npx playwright install chromium`);
+          throw new Error(`浏览器启动失败。请手动运行: npx playwright install ${this.getEngine()}`);
         }
       } else {
         throw error;
       }
     }
-
-    // 确保下载目录存在
-    if (this.profile.downloadsPath) {
-      await this.ensureDownloadsDirectory(this.profile.downloadsPath);
-    }
-
-    // Create context
-    this.context = await this.browser.newContext({
-      viewport: this.profile.viewport,
-      userAgent: this.profile.userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      ignoreHTTPSErrors: this.profile.ignoreHTTPSErrors,
-      proxy: this.profile.proxy,
-      locale: this.profile.locale,
-      timezoneId: this.profile.timezone,
-      geolocation: this.profile.geolocation,
-      permissions: this.profile.permissions,
-      extraHTTPHeaders: this.profile.extraHTTPHeaders,
-      colorScheme: this.profile.colorScheme,
-      reducedMotion: this.profile.reducedMotion,
-      forcedColors: this.profile.forcedColors,
-      // 下载配置
-      acceptDownloads: this.profile.acceptDownloads !== false,
-      downloadsPath: this.profile.downloadsPath,
-    });
   }
 
   /**
@@ -320,7 +805,7 @@ export class BrowserSession {
       logger.info(`🔗 连接到调试端口: ${debugUrl}`, 'BrowserSession');
 
       // 使用connectOverCDP连接
-      this.browser = await chromium.connectOverCDP(debugUrl);
+      this.browser = await playwright.chromium.connectOverCDP(debugUrl);
 
       // 获取现有上下文
       const contexts = this.browser.contexts();
@@ -405,7 +890,7 @@ export class BrowserSession {
       const debugUrl = `http://${connectionConfig.debugHost}:${connectionConfig.debugPort}`;
       logger.info(`🔗 重新连接到调试端口: ${debugUrl}`, 'BrowserSession');
 
-      this.browser = await chromium.connectOverCDP(debugUrl);
+      this.browser = await playwright.chromium.connectOverCDP(debugUrl);
 
       const contexts = this.browser.contexts();
       if (contexts.length === 0) {
@@ -436,44 +921,32 @@ export class BrowserSession {
     try {
       logger.info('🧹 检查并清理现有浏览器进程...', 'BrowserSession');
 
-      const { execSync } = require('child_process');
-      const path = require('path');
-
-      // 获取浏览器可执行文件名
-      const browserName = path.basename(this.profile.executablePath || '', '.exe');
+      const platform = createProcessPlatform();
+      // 获取浏览器进程名（Linux 上启动脚本和实际进程名不同）
+      const processNames = platform.getProcessNames(this.profile.executablePath || '');
 
       // 检查是否有相同的浏览器进程在运行
-      try {
-        const result = execSync(`tasklist /FI "IMAGENAME eq ${browserName}.exe" /FO CSV`, {
-          encoding: 'utf8',
-          timeout: 5000
-        });
-
-        if (result.includes(browserName)) {
-          logger.info(`🔍 发现现有${browserName}进程，正在清理...`, 'BrowserSession');
-
-          // 强制结束所有相同名称的浏览器进程
-          execSync(`taskkill /F /IM ${browserName}.exe`, {
-            encoding: 'utf8',
-            timeout: 10000
-          });
+      const processes = platform.listProcesses(processNames);
+      if (processes.length > 0) {
+        logger.info(`🔍 发现 ${processes.length} 个现有${processNames[0]}进程，正在清理...`, 'BrowserSession');
+
+        // 强制结束所有相同名称的浏览器进程
+        for (const browserProcess of processes) {
+          if (!platform.killProcess(browserProcess.pid)) {
+            logger.warn(`⚠️ 无法结束进程 PID: ${browserProcess.pid}`, 'BrowserSession');
+          }
+        }
 
-          logger.info(`✅ 已清理${browserName}进程`, 'BrowserSession');
+        logger.info(`✅ 已清理${processNames[0]}进程`, 'BrowserSession');
 
-          // 等待进程完全结束
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        } else {
-          logger.info('✅ 未发现冲突的浏览器进程', 'BrowserSession');
-        }
-      } catch (error: any) {
-        // 如果tasklist命令失败，可能是因为没有找到进程，这是正常的
-        if (!error.message.includes('No tasks are running')) {
-          logger.warn(`⚠️ 检查浏览器进程时出错: ${error.message}`, 'BrowserSession');
-        }
+        // 等待进程完全结束
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      } else {
+        logger.info('✅ 未发现冲突的浏览器进程', 'BrowserSession');
       }
 
       // 额外检查调试端口是否被占用
-      await this.checkAndCleanupDebugPort();
+      await this.checkAndCleanupDebugPort(platform);
 
     } catch (error: any) {
       logger.warn(`⚠️ 清理浏览器进程时出错: ${error.message}`, 'BrowserSession');
@@ -484,49 +957,27 @@ export class BrowserSession {
   /**
    * 🔍 检查并清理调试端口
    */
-  private async checkAndCleanupDebugPort(): Promise<void> {
+  private async checkAndCleanupDebugPort(platform: ProcessPlatform = createProcessPlatform()): Promise<void> {
     try {
       const connectionConfig = Config.getBrowserConnectionConfig();
-      const { execSync } = require('child_process');
 
       // 检查端口是否被占用
-      try {
-        const result = execSync(`netstat -ano | findstr :${connectionConfig.debugPort}`, {
-          encoding: 'utf8',
-          timeout: 5000
-        });
+      const pids = platform.findPortOwners(connectionConfig.debugPort);
+      if (pids.length > 0) {
+        logger.info(`🔍 调试端口${connectionConfig.debugPort}被占用，正在清理...`, 'BrowserSession');
 
-        if (result.trim()) {
-          logger.info(`🔍 调试端口${connectionConfig.debugPort}被占用，正在清理...`, 'BrowserSession');
-
-          // 提取PID并结束进程
-          const lines = result.trim().split('\n');
-          for (const line of lines) {
-            const parts = line.trim().split(/\s+/);
-            if (parts.length >= 5) {
-              const pid = parts[parts.length - 1];
-              if (pid && pid !== '0') {
-                try {
-                  execSync(`taskkill /F /PID ${pid}`, {
-                    encoding: 'utf8',
-                    timeout: 5000
-                  });
-                  logger.info(`✅ 已结束占用端口的进程 PID: ${pid}`, 'BrowserSession');
-                } catch (killError) {
-                  logger.warn(`⚠️ 无法结束进程 PID: ${pid}`, 'BrowserSession');
-                }
-              }
-            }
+        for (const pid of pids) {
+          if (platform.killProcess(pid)) {
+            logger.info(`✅ 已结束占用端口的进程 PID: ${pid}`, 'BrowserSession');
+          } else {
+            logger.warn(`⚠️ 无法结束进程 PID: ${pid}`, 'BrowserSession');
           }
-
-          // 等待端口释放
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        } else {
-          logger.info(`✅ 调试端口${connectionConfig.debugPort}未被占用`, 'BrowserSession');
         }
-      } catch (error: any) {
-        // 如果netstat命令失败，可能是因为端口未被占用
-        logger.info(`✅ 调试端口${connectionConfig.debugPort}检查完成`, 'BrowserSession');
+
+        // 等待端口释放
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      } else {
+        logger.info(`✅ 调试端口${connectionConfig.debugPort}未被占用`, 'BrowserSession');
       }
 
     } catch (error: any) {
@@ -538,7 +989,8 @@ export class BrowserSession {
     try {
       // 检查是否应该关闭浏览器
       const connectionConfig = Config.getBrowserConnectionConfig();
-      const shouldCloseBrowser = connectionConfig.autoClose && !connectionConfig.connectToUserBrowser;
+      // 共享浏览器总是走完整的关闭流程，performClose 只关闭自己的上下文
+      const shouldCloseBrowser = (connectionConfig.autoClose && !this.connectedOverCDP) || !!this.sharedBrowser;
 
       if (!shouldCloseBrowser) {
         logger.info('🔗 CDP连接模式，保持浏览器运行', 'BrowserSession');
@@ -547,6 +999,7 @@ export class BrowserSession {
         if (this.enhancedMode) {
           await this.disableEnhancedMode();
         }
+        await this.stopTracing();
 
         // 断开连接但不关闭浏览器
         if (this.browser) {
@@ -561,6 +1014,8 @@ export class BrowserSession {
         this.browser = null;
         this.context = null;
         this.page = null;
+        this.routingInstalled = false;
+        this.exportRecordings();
 
         logger.success('✅ 会话已结束，浏览器保持运行', 'BrowserSession');
         return;
@@ -580,7 +1035,9 @@ export class BrowserSession {
       logger.error('Error closing browser session', error as Error, 'BrowserSession');
       // Force kill if normal close fails
       try {
-        if (this.browser) {
+        if (this.sharedBrowser) {
+          await this.context?.close();
+        } else if (this.browser) {
           await this.browser.close();
         }
       } catch (killError) {
@@ -599,6 +1056,9 @@ export class BrowserSession {
       }
     }
 
+    // trace 需要在上下文关闭前停止
+    await this.stopTracing();
+
     if (this.page) {
       try {
         await this.page.close();
@@ -615,16 +1075,19 @@ export class BrowserSession {
         logger.warn('Failed to close context gracefully', 'BrowserSession');
       }
       this.context = null;
+      this.routingInstalled = false;
+      // HAR和视频在上下文关闭时才写完
+      this.exportRecordings();
     }
 
-    if (this.browser) {
+    if (this.browser && !this.sharedBrowser) {
       try {
         await this.browser.close();
       } catch (error) {
         logger.warn('Failed to close browser gracefully', 'BrowserSession');
       }
-      this.browser = null;
     }
+    this.browser = null;
 
     this.domService = null;
   }
@@ -635,6 +1098,7 @@ export class BrowserSession {
     }
 
     try {
+      this.domainPolicy.assertAllowed(url);
       logger.info(`Navigating to: ${url}`, 'BrowserSession');
       await this.page.goto(url, { waitUntil: 'domcontentloaded', timeout: this.profile.timeout });
       await this.page.waitForTimeout(1000); // Wait for page to stabilize
@@ -651,10 +1115,12 @@ export class BrowserSession {
     }
 
     try {
-      // 🎯 如果启用了增强模式，使用增强DOM检测器
-      if (this.enhancedMode && this.masterController) {
+      // 🎯 如果启用了增强模式，使用增强DOM检测器（accessibility 模式不注入脚本，直接使用DOM服务）
+      if (this.enhancedMode && this.masterController && this.domService.getExtractionMode() !== 'accessibility') {
         logger.info('🔍 使用增强DOM检测器', 'BrowserSession');
-        return await this.masterController.getEnhancedDOMState();
+        const enhancedState = await this.masterController.getEnhancedDOMState();
+        this.domService.recordSnapshot(enhancedState);
+        return enhancedState;
       }
 
       // 否则使用标准DOM服务
@@ -665,7 +1131,7 @@ export class BrowserSession {
     }
   }
 
-  async click(index: number, xpath?: string, cssSelector?: string, text?: string, attributes?: Record<string, string>): Promise<boolean> {
+  async click(index: number, xpath?: string, cssSelector?: string, text?: string, attributes?: Record<string, string>, fingerprint?: ElementFingerprint): Promise<boolean> {
     if (!this.page) {
       throw new Error('Browser session not started');
     }
@@ -673,18 +1139,20 @@ export class BrowserSession {
     try {
       logger.info(`🎯 开始点击元素 index: ${index}`, 'BrowserSession');
 
-      // 使用buildDomTree.js设置的data-browser-use-index属性
-      const selector = `[data-browser-use-index="${index}"]`;
+      // 使用buildDomTree.js设置的data-browser-use-index属性；带指纹时按指纹找回LLM选中的元素
+      const locator = fingerprint
+        ? (await this.createRobustLocator(index, { xpath, cssSelector, text, attributes, fingerprint })) || this.getElementByIndex(index)
+        : this.getElementByIndex(index);
 
       // 等待元素存在并可见
-      await this.page.waitForSelector(selector, { timeout: 10000 });
+      await locator.waitFor({ state: 'visible', timeout: 10000 });
 
       // Store current state to detect navigation
       const currentUrl = this.page.url();
       const currentDOMHash = await this.getDOMStructureHash();
 
       // 执行点击
-      await this.page.click(selector);
+      await locator.click();
 
       logger.info(`✅ 成功点击元素 index: ${index}`, 'BrowserSession');
 
@@ -702,14 +1170,34 @@ export class BrowserSession {
     }
   }
 
+  /**
+   * 按索引定位元素，iframe 和开放 Shadow DOM 中的元素同样适用
+   */
+  private getElementByIndex(index: number): any {
+    return this.domService
+      ? this.domService.getIndexedLocator(index)
+      : this.page.locator(`[data-browser-use-index="${index}"]`).first();
+  }
+
   /**
    * 创建强健的Playwright定位器 - 符合最佳实践
    */
-  private async createRobustLocator(index: number, options: { xpath?: string, cssSelector?: string, text?: string, attributes?: Record<string, string> }): Promise<any> {
+  private async createRobustLocator(index: number, options: { xpath?: string, cssSelector?: string, text?: string, attributes?: Record<string, string>, fingerprint?: ElementFingerprint }): Promise<any> {
     logger.info(`🔍 创建强健定位器 index: ${index}`, 'BrowserSession');
 
-    // 获取缓存的元素信息
-    const cachedElement = this.domService['elementCache'].get(`index_${index}`);
+    // 策略0: 按指纹在最新快照中找到元素，页面重新渲染后索引变化也能确定是哪个元素
+    const resolved = options.fingerprint ? this.domService?.resolveFingerprint(options.fingerprint) : undefined;
+    if (resolved && this.domService) {
+      if (resolved.index !== index) {
+        logger.info(`🧬 元素索引已变化: ${index} -> ${resolved.index} (${options.fingerprint!.role} "${options.fingerprint!.name}")`, 'BrowserSession');
+      }
+      return this.domService.getIndexedLocator(resolved.index);
+    }
+
+    // 获取缓存的元素信息，iframe 中的元素在对应的 frame 里查找
+    // 指纹找不到时，当前索引上的可能已经是另一个元素，不能用它的信息
+    const cachedElement = options.fingerprint ? undefined : this.domService?.getCachedElement(index);
+    const scope = this.domService ? this.domService.getFrameScope(cachedElement?.framePath) : this.page;
 
     // 策略1: 使用用户可见的属性（Playwright最佳实践）
     if (cachedElement) {
@@ -717,7 +1205,7 @@ export class BrowserSession {
       const role = cachedElement.attributes?.role;
       if (role && cachedElement.text) {
         try {
-          const locator = this.page.getByRole(role as any, { name: new RegExp(cachedElement.text.trim(), 'i') });
+          const locator = scope.getByRole(role as any, { name: new RegExp(cachedElement.text.trim(), 'i') });
           if (await locator.count() === 1) {
             logger.info(`✅ 通过role+name定位成功: ${role}[${cachedElement.text}]`, 'BrowserSession');
             return locator;
@@ -730,7 +1218,7 @@ export class BrowserSession {
       // 使用文本内容定位
       if (cachedElement.text && cachedElement.text.trim()) {
         try {
-          const locator = this.page.getByText(cachedElement.text.trim());
+          const locator = scope.getByText(cachedElement.text.trim());
           if (await locator.count() === 1) {
             logger.info(`✅ 通过文本定位成功: ${cachedElement.text}`, 'BrowserSession');
             return locator;
@@ -744,7 +1232,7 @@ export class BrowserSession {
       const label = cachedElement.attributes?.['aria-label'] || cachedElement.attributes?.label;
       if (label) {
         try {
-          const locator = this.page.getByLabel(label);
+          const locator = scope.getByLabel(label);
           if (await locator.count() === 1) {
             logger.info(`✅ 通过label定位成功: ${label}`, 'BrowserSession');
             return locator;
@@ -758,7 +1246,7 @@ export class BrowserSession {
       const placeholder = cachedElement.attributes?.placeholder;
       if (placeholder) {
         try {
-          const locator = this.page.getByPlaceholder(placeholder);
+          const locator = scope.getByPlaceholder(placeholder);
           if (await locator.count() === 1) {
             logger.info(`✅ 通过placeholder定位成功: ${placeholder}`, 'BrowserSession');
             return locator;
@@ -772,7 +1260,7 @@ export class BrowserSession {
       const title = cachedElement.attributes?.title;
       if (title) {
         try {
-          const locator = this.page.getByTitle(title);
+          const locator = scope.getByTitle(title);
           if (await locator.count() === 1) {
             logger.info(`✅ 通过title定位成功: ${title}`, 'BrowserSession');
             return locator;
@@ -786,7 +1274,7 @@ export class BrowserSession {
     // 策略2: 使用传入的选择器（回退策略）
     if (options.cssSelector) {
       try {
-        const locator = this.page.locator(options.cssSelector);
+        const locator = scope.locator(options.cssSelector);
         if (await locator.count() === 1) {
           logger.info(`✅ 通过CSS选择器定位成功: ${options.cssSelector}`, 'BrowserSession');
           return locator;
@@ -796,9 +1284,9 @@ export class BrowserSession {
       }
     }
 
-    if (options.xpath) {
+    if (options.xpath && !cachedElement?.inShadowRoot) {
       try {
-        const locator = this.page.locator(`xpath=${options.xpath}`);
+        const locator = scope.locator(`xpath=${options.xpath}`);
         if (await locator.count() === 1) {
           logger.info(`✅ 通过XPath定位成功: ${options.xpath}`, 'BrowserSession');
           return locator;
@@ -810,7 +1298,7 @@ export class BrowserSession {
 
     // 策略3: 通过data-browser-use-index属性（最后的回退）
     try {
-      const locator = this.page.locator(`[data-browser-use-index="${index}"]`);
+      const locator = scope.locator(`[data-browser-use-index="${index}"]`);
       if (await locator.count() === 1) {
         logger.info(`✅ 通过data-browser-use-index定位成功: ${index}`, 'BrowserSession');
         return locator;
@@ -902,7 +1390,7 @@ export class BrowserSession {
   /**
    * 强健的文本输入 - 使用Playwright最佳实践
    */
-  async type(index: number, text: string, xpath?: string, cssSelector?: string, attributes?: Record<string, string>): Promise<void> {
+  async type(index: number, text: string, xpath?: string, cssSelector?: string, attributes?: Record<string, string>, fingerprint?: ElementFingerprint): Promise<void> {
     if (!this.page) {
       throw new Error('Browser session not started');
     }
@@ -910,21 +1398,23 @@ export class BrowserSession {
     try {
       logger.info(`⌨️ 开始输入文本到元素 index: ${index}, text: "${text}"`, 'BrowserSession');
 
-      // 使用buildDomTree.js设置的data-browser-use-index属性
-      const selector = `[data-browser-use-index="${index}"]`;
+      // 使用buildDomTree.js设置的data-browser-use-index属性；带指纹时按指纹找回LLM选中的元素
+      const locator = fingerprint
+        ? (await this.createRobustLocator(index, { xpath, cssSelector, attributes, fingerprint })) || this.getElementByIndex(index)
+        : this.getElementByIndex(index);
 
       // 等待元素存在并可见
-      await this.page.waitForSelector(selector, { timeout: 10000 });
+      await locator.waitFor({ state: 'visible', timeout: 10000 });
 
       // 验证元素是否适合输入操作
-      await this.validateInputElement(selector, index);
+      await this.validateInputElement(locator, index);
 
       // Store current state to detect navigation
       const currentUrl = this.page.url();
       const currentDOMHash = await this.getDOMStructureHash();
 
       // 清除现有内容并输入新文本
-      await this.page.fill(selector, text);
+      await locator.fill(text);
 
       logger.info(`✅ 成功输入文本到元素 index: ${index}`, 'BrowserSession');
 
@@ -943,11 +1433,10 @@ export class BrowserSession {
   /**
    * 验证元素是否适合输入操作
    */
-  private async validateInputElement(selector: string, index: number): Promise<void> {
+  private async validateInputElement(locator: any, index: number): Promise<void> {
     try {
       // 获取元素信息
-      const elementInfo = await this.page.evaluate((sel) => {
-        const element = document.querySelector(sel);
+      const elementInfo = await locator.evaluate((element: Element) => {
         if (!element) return null;
 
         return {
@@ -960,7 +1449,7 @@ export class BrowserSession {
           className: element.className,
           href: element.getAttribute('href')
         };
-      }, selector);
+      });
 
       if (!elementInfo) {
         throw new Error(`Element with index ${index} not found`);
@@ -1129,6 +1618,12 @@ export class BrowserSession {
       throw new Error('Browser session not started');
     }
 
+    // 触摸设备上用手指滑动滚动，内部滚动容器（移动端常见）也能跟着滚
+    if (this.touchEnabled) {
+      await this.swipe(direction === 'down' ? 'up' : 'down', { distance: amount });
+      return;
+    }
+
     try {
       const scrollAmount = amount || 500;
       const scrollDirection = direction === 'down' ? scrollAmount : -scrollAmount;
@@ -1150,11 +1645,18 @@ export class BrowserSession {
     await new Promise(resolve => setTimeout(resolve, seconds * 1000));
   }
 
-  async takeScreenshot(): Promise<string> {
+  /**
+   * 截取当前视口
+   *
+   * options.marks 给出元素时，先在页面上绘制与 DOMElement.index 对应的编号框，截图后移除；
+   * options.maxSize 限制输出图片的最长边。
+   */
+  async takeScreenshot(options: ScreenshotOptions = {}): Promise<string> {
     if (!this.page) {
       throw new Error('Browser session not started');
     }
 
+    let marksDrawn = false;
     try {
       // 1. 先等待页面基本稳定（短时间）
       try {
@@ -1166,16 +1668,38 @@ export class BrowserSession {
       // 2. 获取视口尺寸
       const dimensions = await this.page.evaluate(() => ({
         width: Math.min(1920, window.innerWidth),
-        height: Math.min(1080, window.innerHeight)
+        height: Math.min(1080, window.innerHeight),
+        scrollX: window.scrollX,
+        scrollY: window.scrollY,
+        devicePixelRatio: window.devicePixelRatio || 1
       }));
 
-      // 3. 使用优化的截图参数
+      // 3. 绘制编号框
+      if (options.marks && options.marks.length > 0) {
+        const count = await this.drawScreenshotMarks(options.marks, dimensions);
+        marksDrawn = count > 0;
+        logger.debug(`🔢 截图标注了 ${count} 个元素`, 'BrowserSession');
+      }
+
+      // 4. 超出尺寸上限时缩小；chromium 通过CDP按比例截图，其他引擎只能去掉设备像素比
+      const scale = options.maxSize
+        ? Math.min(1, options.maxSize / (Math.max(dimensions.width, dimensions.height) * dimensions.devicePixelRatio))
+        : 1;
+      if (scale < 1 && this.getEngine() === 'chromium') {
+        return await this.captureScaledScreenshot(dimensions, scale);
+      }
+      if (scale < 1) {
+        logger.debug(`当前引擎不支持按比例截图，使用CSS像素尺寸 (${this.getEngine()})`, 'BrowserSession');
+      }
+
+      // 5. 使用优化的截图参数
       const screenshot = await this.page.screenshot({
         type: 'jpeg',
         quality: 80,
         fullPage: false,
         timeout: 15000, // 增加超时时间
         animations: 'disabled', // 禁用动画避免等待
+        scale: scale < 1 ? 'css' : undefined,
         clip: {
           x: 0,
           y: 0,
@@ -1218,6 +1742,114 @@ export class BrowserSession {
           return 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
         }
       }
+    } finally {
+      if (marksDrawn) {
+        await this.removeScreenshotMarks();
+      }
+    }
+  }
+
+  /**
+   * 在页面顶层绘制编号框（Set-of-Marks），只标注和视口相交的元素，返回绘制的数量
+   *
+   * 位置来自元素定位器的 boundingBox，iframe 和 Shadow DOM 中的元素同样适用；
+   * buildDomTree 的高亮层在截图期间隐藏，避免两套编号重叠。
+   */
+  private async drawScreenshotMarks(elements: DOMElement[], viewport: { width: number; height: number }): Promise<number> {
+    const candidates = elements.filter(element => element.isVisible !== false).slice(0, MAX_SCREENSHOT_MARKS);
+    const boxes = await Promise.all(candidates.map(async element => {
+      try {
+        const box = await this.getElementByIndex(element.index).boundingBox({ timeout: 1000 });
+        return box ? { index: element.index, x: box.x, y: box.y, width: box.width, height: box.height } : null;
+      } catch {
+        return null;
+      }
+    }));
+
+    const marks = boxes.filter(box =>
+      box && box.width > 0 && box.height > 0 &&
+      box.x < viewport.width && box.y < viewport.height &&
+      box.x + box.width > 0 && box.y + box.height > 0
+    );
+    if (marks.length === 0) {
+      return 0;
+    }
+
+    await this.page.evaluate(({ marks, id }: { marks: Array<{ index: number; x: number; y: number; width: number; height: number }>; id: string }) => {
+      document.getElementById(id)?.remove();
+      const highlights = document.getElementById('playwright-highlight-container');
+      if (highlights) {
+        highlights.dataset.sentraDisplay = highlights.style.display;
+        highlights.style.display = 'none';
+      }
+
+      const colors = ['#FF0000', '#0066FF', '#00A000', '#FF6600', '#9900CC', '#CC0066', '#008080', '#996600'];
+      const container = document.createElement('div');
+      container.id = id;
+      container.style.cssText = 'position:fixed;top:0;left:0;width:100%;height:100%;pointer-events:none;z-index:2147483647;';
+
+      for (const mark of marks) {
+        const color = colors[mark.index % colors.length];
+        // 裁剪到视口内，超出视口的部分不画
+        const left = Math.max(0, mark.x);
+        const top = Math.max(0, mark.y);
+        const width = Math.min(window.innerWidth, mark.x + mark.width) - left;
+        const height = Math.min(window.innerHeight, mark.y + mark.height) - top;
+
+        const box = document.createElement('div');
+        box.style.cssText = `position:absolute;left:${left}px;top:${top}px;width:${width}px;height:${height}px;border:2px solid ${color};box-sizing:border-box;`;
+
+        const label = document.createElement('div');
+        label.textContent = String(mark.index);
+        // 标签放在框的左上角外侧，贴近视口顶部时放进框内
+        const labelTop = top >= 16 ? -16 : 0;
+        label.style.cssText = `position:absolute;left:-2px;top:${labelTop}px;background:${color};color:#fff;font:bold 12px/14px Arial,sans-serif;padding:1px 3px;border-radius:2px;white-space:nowrap;`;
+
+        box.appendChild(label);
+        container.appendChild(box);
+      }
+
+      document.documentElement.appendChild(container);
+    }, { marks, id: SCREENSHOT_MARKS_ID });
+
+    return marks.length;
+  }
+
+  /**
+   * 移除编号框并恢复高亮层
+   */
+  private async removeScreenshotMarks(): Promise<void> {
+    try {
+      await this.page.evaluate((id: string) => {
+        document.getElementById(id)?.remove();
+        const highlights = document.getElementById('playwright-highlight-container');
+        if (highlights && highlights.dataset.sentraDisplay !== undefined) {
+          highlights.style.display = highlights.dataset.sentraDisplay;
+          delete highlights.dataset.sentraDisplay;
+        }
+      }, SCREENSHOT_MARKS_ID);
+    } catch (error) {
+      logger.debug(`移除截图编号框失败: ${error}`, 'BrowserSession');
+    }
+  }
+
+  /**
+   * 通过CDP按比例截取视口（仅 chromium），clip 使用文档坐标，需要加上滚动偏移
+   */
+  private async captureScaledScreenshot(
+    viewport: { width: number; height: number; scrollX: number; scrollY: number },
+    scale: number
+  ): Promise<string> {
+    const client = await this.context.newCDPSession(this.page);
+    try {
+      const result = await client.send('Page.captureScreenshot', {
+        format: 'jpeg',
+        quality: 80,
+        clip: { x: viewport.scrollX, y: viewport.scrollY, width: viewport.width, height: viewport.height, scale }
+      });
+      return result.data;
+    } finally {
+      await client.detach().catch(() => {});
     }
   }
 
@@ -1275,6 +1907,10 @@ export class BrowserSession {
     return this.context;
   }
 
+  getDOMService(): DOMService | null {
+    return this.domService;
+  }
+
   /**
    * 创建新标签页并导航
    */
@@ -1284,6 +1920,7 @@ export class BrowserSession {
     }
 
     try {
+      this.domainPolicy.assertAllowed(url);
       logger.info(`Creating new tab and navigating to: ${url}`, 'BrowserSession');
 
       // 创建新页面
@@ -1454,7 +2091,7 @@ export class BrowserSession {
 
         // 更新DOM服务
         if (this.domService) {
-          this.domService = new DOMService(this.page);
+          this.domService = new DOMService(this.page, this.profile.domMode);
         }
 
         logger.success('✅ 智能标签页切换成功', 'BrowserSession');
@@ -1493,13 +2130,12 @@ export class BrowserSession {
         await element.hover();
         logger.info(`Hovered over element with xpath: ${xpath}`, 'BrowserSession');
       } else {
-        const elements = await this.page.locator('[data-browser-use-index]').all();
-        if (index >= 0 && index < elements.length) {
-          await elements[index].hover();
-          logger.info(`Hovered over element at index: ${index}`, 'BrowserSession');
-        } else {
+        const element = this.getElementByIndex(index);
+        if (await element.count() === 0) {
           throw new Error(`Element index ${index} out of range`);
         }
+        await element.hover();
+        logger.info(`Hovered over element at index: ${index}`, 'BrowserSession');
       }
       await this.page.waitForTimeout(300);
     } catch (error) {
@@ -1520,12 +2156,11 @@ export class BrowserSession {
         sourceElement = this.page.locator(`xpath=${sourceXpath}`);
         targetElement = this.page.locator(`xpath=${targetXpath}`);
       } else {
-        const elements = await this.page.locator('[data-browser-use-index]').all();
-        if (sourceIndex >= elements.length || targetIndex >= elements.length) {
+        sourceElement = this.getElementByIndex(sourceIndex);
+        targetElement = this.getElementByIndex(targetIndex);
+        if (await sourceElement.count() === 0 || await targetElement.count() === 0) {
           throw new Error('Element index out of range');
         }
-        sourceElement = elements[sourceIndex];
-        targetElement = elements[targetIndex];
       }
 
       await sourceElement.dragTo(targetElement);
@@ -1537,6 +2172,261 @@ export class BrowserSession {
     }
   }
 
+  /**
+   * 📱 轻触元素，需要启用触摸的上下文（设备模拟或 hasTouch）
+   */
+  async tap(index: number, xpath?: string): Promise<boolean> {
+    if (!this.page) {
+      throw new Error('Browser session not started');
+    }
+    if (!this.touchEnabled) {
+      throw new Error('Tap requires a touch-enabled browser (set BrowserProfile.device or hasTouch); use click instead');
+    }
+
+    try {
+      const locator = xpath
+        ? this.page.locator(`xpath=${xpath}`)
+        : this.getElementByIndex(index);
+      await locator.first().waitFor({ state: 'visible', timeout: 10000 });
+
+      const currentUrl = this.page.url();
+      const currentDOMHash = await this.getDOMStructureHash();
+
+      await locator.first().tap();
+      logger.info(`👆 轻触元素 index: ${index}`, 'BrowserSession');
+
+      return await this.waitForPotentialNavigation(currentUrl, currentDOMHash);
+    } catch (error) {
+      logger.error(`Failed to tap element ${index}`, error as Error, 'BrowserSession');
+      throw error;
+    }
+  }
+
+  /**
+   * 📱 滑动手势，direction 是手指移动的方向（向上滑动会让内容向下滚动）
+   *
+   * 指定元素时在元素范围内滑动（轮播图、抽屉等），否则在视口中间滑动；
+   * 没有启用触摸时用鼠标拖动模拟。
+   */
+  async swipe(direction: 'up' | 'down' | 'left' | 'right', options: { index?: number; xpath?: string; distance?: number } = {}): Promise<void> {
+    if (!this.page) {
+      throw new Error('Browser session not started');
+    }
+
+    try {
+      // 滑动区域：目标元素或整个视口
+      let area: { x: number; y: number; width: number; height: number };
+      if (options.xpath || options.index !== undefined) {
+        const locator = options.xpath
+          ? this.page.locator(`xpath=${options.xpath}`)
+          : this.getElementByIndex(options.index!);
+        await locator.first().scrollIntoViewIfNeeded();
+        area = await locator.first().boundingBox();
+        if (!area) {
+          throw new Error(`Element ${options.xpath || options.index} is not visible`);
+        }
+      } else {
+        const viewport = await this.getViewportSize();
+        area = { x: 0, y: 0, width: viewport.width, height: viewport.height };
+      }
+
+      const horizontal = direction === 'left' || direction === 'right';
+      const span = horizontal ? area.width : area.height;
+      // 起点和终点都留在区域内，边缘滑动会触发浏览器的返回手势或下拉刷新
+      const distance = Math.min(options.distance || span * 0.6, span * 0.8);
+      const sign = direction === 'down' || direction === 'right' ? 1 : -1;
+      const centerX = area.x + area.width / 2;
+      const centerY = area.y + area.height / 2;
+      const start = {
+        x: horizontal ? centerX - (sign * distance) / 2 : centerX,
+        y: horizontal ? centerY : centerY - (sign * distance) / 2,
+      };
+      const end = {
+        x: horizontal ? start.x + sign * distance : start.x,
+        y: horizontal ? start.y : start.y + sign * distance,
+      };
+
+      if (!this.touchEnabled) {
+        await this.page.mouse.move(start.x, start.y);
+        await this.page.mouse.down();
+        await this.page.mouse.move(end.x, end.y, { steps: 10 });
+        await this.page.mouse.up();
+      } else if (this.getEngine() === 'chromium') {
+        await this.dispatchTouchSwipe(start, end);
+      } else {
+        await this.dispatchSyntheticSwipe(start, end);
+      }
+
+      logger.info(`👆 向${{ up: '上', down: '下', left: '左', right: '右' }[direction]}滑动 ${Math.round(distance)}px`, 'BrowserSession');
+      await this.page.waitForTimeout(500); // 等待惯性滚动和动画
+    } catch (error) {
+      logger.error(`Failed to swipe ${direction}`, error as Error, 'BrowserSession');
+      throw error;
+    }
+  }
+
+  /**
+   * 通过CDP发送原生触摸事件，页面会像真机一样滚动并收到 touch 事件（仅 chromium）
+   */
+  private async dispatchTouchSwipe(start: { x: number; y: number }, end: { x: number; y: number }): Promise<void> {
+    const client = await this.context.newCDPSession(this.page);
+    const steps = 10;
+    try {
+      await client.send('Input.dispatchTouchEvent', { type: 'touchStart', touchPoints: [{ x: start.x, y: start.y }] });
+      for (let i = 1; i <= steps; i++) {
+        const x = start.x + ((end.x - start.x) * i) / steps;
+        const y = start.y + ((end.y - start.y) * i) / steps;
+        await client.send('Input.dispatchTouchEvent', { type: 'touchMove', touchPoints: [{ x, y }] });
+      }
+      await client.send('Input.dispatchTouchEvent', { type: 'touchEnd', touchPoints: [] });
+    } finally {
+      await client.detach().catch(() => {});
+    }
+  }
+
+  /**
+   * 其他引擎没有原生触摸输入：在页面里派发 touch 事件，页面没有自己处理时再滚动最近的可滚动容器
+   */
+  private async dispatchSyntheticSwipe(start: { x: number; y: number }, end: { x: number; y: number }): Promise<void> {
+    await this.page.evaluate(({ start, end }: { start: { x: number; y: number }; end: { x: number; y: number } }) => {
+      const target = document.elementFromPoint(start.x, start.y) || document.body;
+      let handled = false;
+
+      try {
+        const touchAt = (x: number, y: number) => new Touch({ identifier: Date.now(), target, clientX: x, clientY: y });
+        const fire = (type: string, point: { x: number; y: number }, active: boolean) => {
+          const touch = touchAt(point.x, point.y);
+          const event = new TouchEvent(type, {
+            bubbles: true,
+            cancelable: true,
+            touches: active ? [touch] : [],
+            targetTouches: active ? [touch] : [],
+            changedTouches: [touch],
+          });
+          // 页面调用了 preventDefault 说明自己处理了手势（轮播图等）
+          if (!target.dispatchEvent(event)) {
+            handled = true;
+          }
+        };
+        fire('touchstart', start, true);
+        fire('touchmove', { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }, true);
+        fire('touchmove', end, true);
+        fire('touchend', end, false);
+      } catch {
+        // 引擎不支持构造 Touch，直接滚动
+      }
+
+      if (handled) return;
+
+      const dx = start.x - end.x;
+      const dy = start.y - end.y;
+      let element: Element | null = target;
+      while (element && element !== document.documentElement && element !== document.body) {
+        const style = window.getComputedStyle(element);
+        const scrollableY = dy !== 0 && /(auto|scroll)/.test(style.overflowY) && element.scrollHeight > element.clientHeight;
+        const scrollableX = dx !== 0 && /(auto|scroll)/.test(style.overflowX) && element.scrollWidth > element.clientWidth;
+        if (scrollableX || scrollableY) {
+          element.scrollBy(dx, dy);
+          return;
+        }
+        element = element.parentElement;
+      }
+      window.scrollBy(dx, dy);
+    }, { start, end });
+  }
+
+  /**
+   * 视口尺寸（CSS像素），坐标操作使用的坐标系
+   */
+  async getViewportSize(): Promise<{ width: number; height: number }> {
+    if (!this.page) {
+      throw new Error('Browser session not started');
+    }
+    return this.page.viewportSize() || await this.page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight }));
+  }
+
+  private async assertInViewport(x: number, y: number): Promise<void> {
+    const viewport = await this.getViewportSize();
+    if (!Number.isFinite(x) || !Number.isFinite(y) || x < 0 || y < 0 || x >= viewport.width || y >= viewport.height) {
+      throw new Error(`Coordinate (${x}, ${y}) is outside the viewport (${viewport.width}x${viewport.height})`);
+    }
+  }
+
+  /**
+   * 🎯 按视口坐标点击，用于 canvas、地图等没有可索引元素的区域
+   */
+  async clickAt(x: number, y: number, options: { button?: 'left' | 'right' | 'middle'; clickCount?: number } = {}): Promise<boolean> {
+    if (!this.page) {
+      throw new Error('Browser session not started');
+    }
+
+    try {
+      await this.assertInViewport(x, y);
+
+      const currentUrl = this.page.url();
+      const currentDOMHash = await this.getDOMStructureHash();
+
+      await this.page.mouse.click(x, y, { button: options.button || 'left', clickCount: options.clickCount || 1 });
+      logger.info(`🎯 点击坐标 (${x}, ${y})${options.clickCount === 2 ? ' (双击)' : ''}`, 'BrowserSession');
+
+      return await this.waitForPotentialNavigation(currentUrl, currentDOMHash);
+    } catch (error) {
+      logger.error(`Failed to click at (${x}, ${y})`, error as Error, 'BrowserSession');
+      throw error;
+    }
+  }
+
+  /**
+   * 🎯 按视口坐标拖动（平移地图、在画布上绘制、拖动滑块）
+   */
+  async dragAt(start: { x: number; y: number }, end: { x: number; y: number }): Promise<void> {
+    if (!this.page) {
+      throw new Error('Browser session not started');
+    }
+
+    try {
+      await this.assertInViewport(start.x, start.y);
+      await this.assertInViewport(end.x, end.y);
+
+      await this.page.mouse.move(start.x, start.y);
+      await this.page.mouse.down();
+      await this.page.mouse.move(end.x, end.y, { steps: 15 });
+      await this.page.mouse.up();
+
+      logger.info(`🎯 拖动 (${start.x}, ${start.y}) -> (${end.x}, ${end.y})`, 'BrowserSession');
+      await this.page.waitForTimeout(500);
+    } catch (error) {
+      logger.error(`Failed to drag from (${start.x}, ${start.y}) to (${end.x}, ${end.y})`, error as Error, 'BrowserSession');
+      throw error;
+    }
+  }
+
+  /**
+   * 🎯 在指定坐标滚动鼠标滚轮，滚轮事件发给该位置下的元素（地图缩放、PDF 翻页、内部滚动区域）
+   */
+  async scrollAt(x: number, y: number, direction: 'up' | 'down' | 'left' | 'right', amount?: number): Promise<void> {
+    if (!this.page) {
+      throw new Error('Browser session not started');
+    }
+
+    try {
+      await this.assertInViewport(x, y);
+
+      const distance = amount || 300;
+      const deltaX = direction === 'left' ? -distance : direction === 'right' ? distance : 0;
+      const deltaY = direction === 'up' ? -distance : direction === 'down' ? distance : 0;
+
+      await this.page.mouse.move(x, y);
+      await this.page.mouse.wheel(deltaX, deltaY);
+
+      logger.info(`🎯 在 (${x}, ${y}) 滚动 ${direction} ${distance}px`, 'BrowserSession');
+      await this.page.waitForTimeout(500);
+    } catch (error) {
+      logger.error(`Failed to scroll at (${x}, ${y})`, error as Error, 'BrowserSession');
+      throw error;
+    }
+  }
+
   async pressKey(key: string, modifiers?: string[], options: {
     waitForNavigation?: boolean;
     expectFormSubmit?: boolean;
@@ -1661,13 +2551,12 @@ export class BrowserSession {
         await element.selectOption(value);
         logger.info(`Selected option in element with xpath: ${xpath}`, 'BrowserSession');
       } else {
-        const elements = await this.page.locator('[data-browser-use-index]').all();
-        if (index >= 0 && index < elements.length) {
-          await elements[index].selectOption(value);
-          logger.info(`Selected option in element at index: ${index}`, 'BrowserSession');
-        } else {
+        const element = this.getElementByIndex(index);
+        if (await element.count() === 0) {
           throw new Error(`Element index ${index} out of range`);
         }
+        await element.selectOption(value);
+        logger.info(`Selected option in element at index: ${index}`, 'BrowserSession');
       }
       await this.page.waitForTimeout(500);
     } catch (error) {
@@ -1687,13 +2576,12 @@ export class BrowserSession {
         await element.setInputFiles(filePath);
         logger.info(`Uploaded file to element with xpath: ${xpath}`, 'BrowserSession');
       } else {
-        const elements = await this.page.locator('[data-browser-use-index]').all();
-        if (index >= 0 && index < elements.length) {
-          await elements[index].setInputFiles(filePath);
-          logger.info(`Uploaded file to element at index: ${index}`, 'BrowserSession');
-        } else {
+        const element = this.getElementByIndex(index);
+        if (await element.count() === 0) {
           throw new Error(`Element index ${index} out of range`);
         }
+        await element.setInputFiles(filePath);
+        logger.info(`Uploaded file to element at index: ${index}`, 'BrowserSession');
       }
       await this.page.waitForTimeout(1000);
     } catch (error) {
@@ -1723,6 +2611,10 @@ export class BrowserSession {
     }
 
     try {
+      if (url) {
+        this.domainPolicy.assertAllowed(url);
+      }
+
       const newPage = await this.context.newPage();
       this.tabs.push(newPage);
       const tabIndex = this.tabs.length - 1;
@@ -1749,7 +2641,7 @@ export class BrowserSession {
       this.page = this.tabs[tabIndex];
 
       if (this.domService) {
-        this.domService = new DOMService(this.page);
+        this.domService = new DOMService(this.page, this.profile.domMode);
       }
 
       await this.page.bringToFront();
@@ -1783,7 +2675,7 @@ export class BrowserSession {
       // Switch to the current tab
       this.page = this.tabs[this.currentTabIndex];
       if (this.domService) {
-        this.domService = new DOMService(this.page);
+        this.domService = new DOMService(this.page, this.profile.domMode);
       }
 
       logger.info(`Closed tab ${indexToClose}`, 'BrowserSession');
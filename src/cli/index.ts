@@ -5,11 +5,94 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { Agent } from '../agent/service';
 import { BrowserSession } from '../browser/session';
+import { BrowserPool } from '../browser/browser-pool';
 import { LLMFactory } from '../llm/factory';
 import Config from '../config';
 import { logger } from '../utils/logger';
 import { Symbols } from '../utils/symbols';
-
+import { Helpers } from '../utils/helpers';
+import { Validator } from '../utils/validation';
+import { RunHistoryService } from '../history/service';
+import { createCliApprovalHandler } from '../approval/service';
+import { ProfileStore } from '../profiles/service';
+import { JSONSchema, UsageTotals } from '../types';
+
+// 格式化token用量和费用
+function formatUsage(usage?: { total: UsageTotals }): string {
+  if (!usage || usage.total.requests === 0) {
+    return 'n/a';
+  }
+  const { total } = usage;
+  const unpriced = total.unpricedRequests > 0 ? ` (${total.unpricedRequests} requests without pricing)` : '';
+  return `${total.totalTokens} tokens (${total.promptTokens} in / ${total.completionTokens} out), $${total.cost.toFixed(4)}${unpriced}`;
+}
+
+// HAR参数可以是文件路径，也可以是录制过HAR的运行ID
+function resolveHarFile(value: string): string {
+  const fs = require('fs');
+  if (fs.existsSync(value)) {
+    return value;
+  }
+
+  const harPath = new RunHistoryService(Config.getRunsDirectory()).getHarPath(value);
+  if (fs.existsSync(harPath)) {
+    return harPath;
+  }
+  throw new Error(`HAR file not found: ${value}`);
+}
+
+// 读取 --output-schema 指定的 JSON Schema 文件
+function loadOutputSchema(file: string): JSONSchema {
+  const fs = require('fs');
+  if (!fs.existsSync(file)) {
+    throw new Error(`Output schema file not found: ${file}`);
+  }
+
+  let schema: any;
+  try {
+    schema = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Output schema file is not valid JSON: ${file} (${error instanceof Error ? error.message : String(error)})`);
+  }
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error(`Output schema file must contain a JSON Schema object: ${file}`);
+  }
+  return schema;
+}
+
+// 等待用户在终端按回车
+function waitForEnter(prompt: string): Promise<void> {
+  const readline = require('readline');
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise(resolve => rl.question(prompt, () => {
+    rl.close();
+    resolve();
+  }));
+}
+
+// 打开可见浏览器让用户操作，按回车后按需保存登录状态
+async function runProfileBrowser(name: string, options: { url?: string; load?: boolean; save: boolean }): Promise<void> {
+  const browserProfile = Config.getBrowserProfile();
+  browserProfile.headless = false;
+  browserProfile.storageStateName = options.load ? name : undefined;
+
+  const browserSession = new BrowserSession(browserProfile);
+  await browserSession.start();
+  try {
+    if (options.url) {
+      await browserSession.navigate(options.url);
+    }
+    await waitForEnter(chalk.cyan(options.save
+      ? `\n在浏览器中完成登录后按回车保存配置文件 ${name}... `
+      : '\n按回车关闭浏览器... '));
+    if (options.save) {
+      const filePath = await browserSession.saveStorageState(name);
+      console.log(chalk.green(`✅ 已保存配置文件 ${name}: ${filePath}`));
+    }
+  } finally {
+    await browserSession.close();
+  }
+}
 
 // 创建命令行程序实例
 const program = new Command();
@@ -28,6 +111,9 @@ program
   .option('-h, --headless', '无头模式运行浏览器', false)
   .option('-v, --visible', '可视化模式运行浏览器', false)
   .option('--no-vision', '禁用视觉/截图功能')
+  .option('--prompt-mode <mode>', '页面状态的提示词格式: full, diff (只发送变化的元素)')
+  .option('--marks', '在截图上绘制与元素索引对应的编号框')
+  .option('--screenshot-max-size <pixels>', '截图最长边的像素上限')
   .option('--max-steps <number>', '最大执行步数', '100')
   .option('--provider <provider>', 'LLM 提供商 (openai, anthropic, google)')
   .option('--model <model>', 'LLM 模型名称')
@@ -36,6 +122,24 @@ program
   .option('--enable-plugins', '启用插件系统', true)
   .option('--disable-plugins', '禁用插件系统')
   .option('--plugin-test', '测试插件系统')
+  .option('--output-schema <file>', '结构化结果的JSON Schema文件，结果会以JSON输出')
+  .option('--approval', '敏感操作执行前在终端询问确认')
+  .option('--approval-categories <list>', '需要确认的操作类别，逗号分隔 (如 upload_file,execute_script,set_cookie,purchase,delete,submit)')
+  .option('--max-tokens <number>', '本次运行的token预算，超出后停止')
+  .option('--max-cost <usd>', '本次运行的费用预算（美元），超出后停止')
+  .option('--secrets-file <file>', '密钥JSON文件，任务中用 {{secret:name}} 引用，真实值不会发送给LLM')
+  .option('--network-rules <file>', '网络路由规则JSON文件（拦截、改写请求或返回本地数据）')
+  .option('--block-resources <types>', '拦截的资源类型，逗号分隔 (如 image,font,media)')
+  .option('--block-ads', '拦截常见广告和跟踪脚本')
+  .option('--record-har', '录制HAR到运行目录')
+  .option('--replay-har <fileOrRunId>', '从HAR文件（或某次运行录制的HAR）回放网络请求，不访问真实网络')
+  .option('--har-fallback', '回放时HAR中没有的请求访问真实网络')
+  .option('--trace', '录制Playwright trace到运行目录')
+  .option('--video', '录制页面视频到运行目录')
+  .option('--profile <name>', '使用保存的浏览器配置文件（cookies和localStorage）')
+  .option('--browser <engine>', '浏览器引擎: chromium, firefox, webkit')
+  .option('--device <name>', '模拟设备，如 "iPhone 13"、"Pixel 7"（设备列表见 devices 命令）')
+  .option('--dom-mode <mode>', '页面表示方式: dom, accessibility (使用无障碍树)')
   .action(async (task: string, options) => {
     try {
       // 如果用户要求调试模式，就开启详细日志
@@ -103,6 +207,44 @@ program
       } else if (options.headless) {
         browserProfile.headless = true;   // 隐藏浏览器窗口，提高性能
       }
+      if (options.networkRules) {
+        browserProfile.networkRules = Config.getNetworkRules(options.networkRules);
+      }
+      if (options.blockResources) {
+        browserProfile.blockResourceTypes = options.blockResources.split(',').map((t: string) => t.trim()).filter(Boolean);
+      }
+      if (options.blockAds) {
+        browserProfile.blockAdsAndTrackers = true;
+      }
+      if (options.recordHar) {
+        browserProfile.recordHar = true;
+      }
+      if (options.replayHar) {
+        browserProfile.replayHar = resolveHarFile(options.replayHar);
+      }
+      if (options.harFallback) {
+        browserProfile.harNotFound = 'fallback';
+      }
+      if (options.trace) {
+        browserProfile.recordTrace = true;
+      }
+      if (options.video) {
+        browserProfile.recordVideo = true;
+      }
+      if (options.profile) {
+        browserProfile.storageStateName = options.profile;
+      }
+      if (options.browser) {
+        browserProfile.browserType = options.browser;
+      }
+      if (options.device) {
+        browserProfile.device = options.device;
+      }
+      if (options.domMode) {
+        browserProfile.domMode = options.domMode;
+      }
+      // 启动浏览器前检查，拼错的引擎名不要等到 Playwright 启动时才报错
+      Validator.validateBrowserProfile(browserProfile);
 
       // 获取AI代理的行为设置
       const agentSettings = Config.getAgentSettings();
@@ -110,6 +252,23 @@ program
       // 应用用户的命令行选项
       if (options.maxSteps) agentSettings.maxSteps = parseInt(options.maxSteps);
       if (options.noVision) agentSettings.useVision = false;
+      if (options.promptMode) agentSettings.domPromptMode = options.promptMode;
+      if (options.marks) agentSettings.screenshotMarks = true;
+      if (options.screenshotMaxSize) agentSettings.screenshotMaxSize = parseInt(options.screenshotMaxSize);
+      if (options.maxTokens) agentSettings.maxTokens = parseInt(options.maxTokens);
+      if (options.maxCost) agentSettings.maxCost = parseFloat(options.maxCost);
+      if (options.outputSchema) {
+        agentSettings.outputSchema = loadOutputSchema(options.outputSchema);
+      }
+      if (options.secretsFile) {
+        agentSettings.secrets = Config.getSecrets(options.secretsFile);
+      }
+      if (options.approvalCategories) {
+        agentSettings.approvalCategories = options.approvalCategories.split(',').map((c: string) => c.trim()).filter(Boolean);
+      }
+      if (options.approval || options.approvalCategories) {
+        agentSettings.approvalHandler = createCliApprovalHandler();
+      }
 
       const taskIcon = Symbols.getTask('task');
       const modelIcon = Symbols.getSystem('model');
@@ -134,12 +293,15 @@ program
       
       console.log(chalk.gray(`${browserIcon} 浏览器: ${browserProfile.headless ? '无头模式' : '可视化模式'}`));
       console.log(chalk.gray(`${visionIcon} 视觉: ${agentSettings.useVision ? '已启用' : '已禁用'}`));
+      if (agentSettings.secrets && Object.keys(agentSettings.secrets).length > 0) {
+        console.log(chalk.gray(`🔐 密钥: ${Object.keys(agentSettings.secrets).join(', ')}`));
+      }
       console.log('');
 
       // 创建AI大脑实例，这是整个系统的智能核心
       const spinner = ora('正在初始化 AI 模型...').start();
       LLMFactory.validateConfig(llmConfig);
-      const llm = LLMFactory.createLLM(llmConfig);
+      const agentLLM = LLMFactory.createAgentLLM(llmConfig);
       spinner.succeed('AI 模型初始化完成');
 
       // 启动浏览器，为AI准备工作环境
@@ -155,33 +317,6 @@ program
 
       // 创建智能代理，把AI大脑和浏览器连接起来
       spinner.start('正在创建智能代理...');
-      
-      // 处理新的增强版LLM系统兼容性
-      let agentLLM;
-      if ('generateResponse' in llm && typeof llm.generateResponse === 'function') {
-        // 如果是增强版LLM，需要创建一个兼容层
-        if ('getStats' in llm) {
-          // 这是增强版LLM，创建一个简单的适配器
-          const { BaseLLM } = await import('../llm/base');
-          agentLLM = new (class extends BaseLLM {
-            async generateResponse(messages: any[], useStructuredOutput?: boolean) {
-              return (llm as any).generateResponse(messages, useStructuredOutput);
-            }
-          })({
-            provider: 'multi-provider' as any,
-            model: 'enhanced',
-            apiKey: 'enhanced',
-            strategy: 'priority' as any,
-            endpoints: []
-          });
-        } else {
-          // 这是传统BaseLLM
-          agentLLM = llm;
-        }
-      } else {
-        throw new Error('无效的LLM实例');
-      }
-      
       const agent = new Agent(task, agentLLM, browserSession, agentSettings);
       spinner.succeed('智能代理创建完成');
 
@@ -201,6 +336,10 @@ program
       console.log(chalk.gray(`   执行时长: ${history.totalDuration.toFixed(2)} 秒`));
       const resultIcon = history.success ? Symbols.getStatus('success') : Symbols.getStatus('error');
       console.log(chalk.gray(`   执行结果: ${resultIcon} ${history.success ? '成功' : '失败'}`));
+      console.log(chalk.gray(`   Token用量: ${formatUsage(history.metadata.usage)}`));
+      if (history.metadata.stopReason) {
+        console.log(chalk.yellow(`   停止原因: ${history.metadata.stopReason}`));
+      }
 
       // 如果有最终消息，也显示出来
       if (history.steps.length > 0) {
@@ -210,9 +349,19 @@ program
         }
       }
 
+      if (history.output !== undefined) {
+        console.log(chalk.blue(`\n${Symbols.getSystem('summary')} 结构化结果:`));
+        console.log(JSON.stringify(history.output, null, 2));
+      }
+
+      const runDirectory = agent.getRunDirectory();
+      if (runDirectory) {
+        console.log(chalk.gray(`   运行记录: ${runDirectory}`));
+      }
+
       // 根据配置决定是否关闭浏览器
       const connectionConfig = Config.getBrowserConnectionConfig();
-      const shouldCloseBrowser = connectionConfig.autoClose && !connectionConfig.connectToUserBrowser;
+      const shouldCloseBrowser = connectionConfig.autoClose && !browserSession.isConnectedOverCDP();
 
       if (shouldCloseBrowser) {
         spinner.start('正在关闭浏览器...');
@@ -373,6 +522,7 @@ program
       console.log(chalk.gray(`  无头模式: ${browserProfile.headless ? '是' : '否'}`));
       console.log(chalk.gray(`  视窗大小: ${browserProfile.viewport?.width}x${browserProfile.viewport?.height}`));
       console.log(chalk.gray(`  超时时间: ${browserProfile.timeout}ms`));
+      console.log(chalk.gray(`  浏览器引擎: ${browserProfile.browserType || 'chromium'}`));
       console.log(chalk.gray(`  用户数据目录: ${browserProfile.userDataDir || '未设置'}`));
       console.log(chalk.gray(`  可执行文件路径: ${browserProfile.executablePath || '默认'}`));
       console.log(chalk.gray(`  语言设置: ${browserProfile.locale || '默认'}`));
@@ -478,6 +628,390 @@ program
     }
   });
 
+// 设备列表命令
+program
+  .command('devices')
+  .description('列出可用于设备模拟的设备名称 (BROWSER_DEVICE / --device)')
+  .option('--filter <text>', '按名称过滤，如 iPhone、Pixel、iPad')
+  .action((options) => {
+    const filter = options.filter ? String(options.filter).toLowerCase() : '';
+    const devices = BrowserSession.listDevices().filter(name => !filter || name.toLowerCase().includes(filter));
+
+    console.log(chalk.blue.bold(`\n📱 可模拟的设备 (${devices.length})\n`));
+    for (const name of devices) {
+      const descriptor = BrowserSession.getDeviceDescriptor(name);
+      const flags = [descriptor.isMobile && 'mobile', descriptor.hasTouch && 'touch'].filter(Boolean).join(', ');
+      console.log(chalk.gray(`  ${name.padEnd(32)} ${descriptor.viewport.width}x${descriptor.viewport.height} @${descriptor.deviceScaleFactor}x  ${descriptor.defaultBrowserType}${flags ? `  (${flags})` : ''}`));
+    }
+    console.log('');
+  });
+
+// 运行记录命令 - 查看历史运行，排查失败原因
+const historyCommand = program
+  .command('history')
+  .description('查看和管理历史运行记录');
+
+historyCommand
+  .command('list')
+  .description('列出历史运行记录')
+  .option('--limit <number>', '最多显示的条数', '20')
+  .action((options) => {
+    try {
+      const service = new RunHistoryService(Config.getRunsDirectory());
+      const runs = service.listRuns().slice(0, parseInt(options.limit));
+
+      if (runs.length === 0) {
+        console.log(chalk.gray(`暂无运行记录 (${service.getBaseDirectory()})`));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`\n📁 运行记录 (${service.getBaseDirectory()})\n`));
+      for (const run of runs) {
+        const icon = run.success ? Symbols.getStatus('success') : Symbols.getStatus('error');
+        const color = run.success ? chalk.green : chalk.red;
+        console.log(color(`${icon} ${run.runId}`));
+        console.log(chalk.gray(`   ${Helpers.truncateText(run.task, 80)}`));
+        console.log(chalk.gray(`   ${run.steps} 步, ${Helpers.formatDuration(run.totalDuration)}, ${run.startTime.toLocaleString()}`));
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red('❌ 读取运行记录失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+historyCommand
+  .command('show')
+  .description('显示某次运行的详细步骤')
+  .argument('<runId>', '运行记录ID')
+  .action((runId: string) => {
+    try {
+      const service = new RunHistoryService(Config.getRunsDirectory());
+      const history = service.loadRun(runId);
+      const resultIcon = history.success ? Symbols.getStatus('success') : Symbols.getStatus('error');
+
+      console.log(chalk.blue.bold(`\n📋 运行详情: ${runId}\n`));
+      console.log(chalk.gray(Helpers.generateExecutionSummary(history)));
+      console.log(chalk.gray(`Result: ${resultIcon} ${history.success ? '成功' : '失败'}`));
+      console.log(chalk.gray(`Usage: ${formatUsage(history.metadata?.usage)}`));
+      for (const [service, totals] of Object.entries(history.metadata?.usage?.byService || {})) {
+        console.log(chalk.gray(`  ${service}: ${totals.totalTokens} tokens, $${totals.cost.toFixed(4)} (${totals.requests} requests)`));
+      }
+      for (const [endpoint, totals] of Object.entries(history.metadata?.usage?.byEndpoint || {})) {
+        console.log(chalk.gray(`  ${endpoint}: ${totals.totalTokens} tokens, $${totals.cost.toFixed(4)}`));
+      }
+      if (history.metadata?.harFile) {
+        console.log(chalk.gray(`HAR: ${history.metadata.harFile}`));
+      }
+      if (history.metadata?.traceFile) {
+        console.log(chalk.gray(`Trace: ${history.metadata.traceFile} (npx playwright show-trace ${history.metadata.traceFile})`));
+      }
+      if (history.metadata?.videoDir) {
+        console.log(chalk.gray(`Videos: ${history.metadata.videoDir}`));
+      }
+      console.log(chalk.gray(`Directory: ${service.getRunDirectory(runId)}\n`));
+      if (history.output !== undefined) {
+        console.log(chalk.gray(`Output: ${JSON.stringify(history.output)}\n`));
+      }
+
+      for (const step of history.steps) {
+        const icon = step.result.success ? Symbols.getStatus('success') : Symbols.getStatus('error');
+        const color = step.result.success ? chalk.green : chalk.red;
+        console.log(color(`${icon} Step ${step.stepNumber}: ${RunHistoryService.describeAction(step.action)}`));
+        if (step.agentOutput?.next_goal) {
+          console.log(chalk.gray(`   目标: ${step.agentOutput.next_goal}`));
+        }
+        if (!step.result.success && step.result.error) {
+          console.log(chalk.red(`   错误: ${step.result.error}`));
+        }
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red('❌ 读取运行记录失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+historyCommand
+  .command('diff')
+  .description('逐步比较两次运行')
+  .argument('<a>', '运行记录ID A')
+  .argument('<b>', '运行记录ID B')
+  .action((a: string, b: string) => {
+    try {
+      const service = new RunHistoryService(Config.getRunsDirectory());
+      const diff = service.diffRuns(a, b);
+
+      console.log(chalk.blue.bold(`\n🔍 运行对比\n`));
+      console.log(chalk.gray(`A: ${diff.a.runId} (${diff.a.success ? '成功' : '失败'}, ${diff.a.steps} 步)`));
+      console.log(chalk.gray(`B: ${diff.b.runId} (${diff.b.success ? '成功' : '失败'}, ${diff.b.steps} 步)\n`));
+
+      for (const step of diff.steps) {
+        if (step.same) {
+          console.log(chalk.gray(`  Step ${step.stepNumber}: ${step.a}`));
+        } else {
+          console.log(chalk.yellow(`~ Step ${step.stepNumber}:`));
+          console.log(chalk.red(`    A: ${step.a ?? '(无)'}`));
+          console.log(chalk.green(`    B: ${step.b ?? '(无)'}`));
+        }
+      }
+
+      if (diff.firstDivergentStep !== undefined) {
+        console.log(chalk.yellow(`\n两次运行从第 ${diff.firstDivergentStep} 步开始出现分歧\n`));
+      } else {
+        console.log(chalk.green('\n两次运行的步骤完全一致\n'));
+      }
+    } catch (error) {
+      console.error(chalk.red('❌ 对比运行记录失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+historyCommand
+  .command('prune')
+  .description('清理旧的运行记录')
+  .option('--keep <number>', '保留最近的N次运行')
+  .option('--older-than <days>', '删除早于N天的运行')
+  .action((options) => {
+    try {
+      if (options.keep === undefined && options.olderThan === undefined) {
+        console.log(chalk.yellow('请指定 --keep <number> 或 --older-than <days>'));
+        process.exit(1);
+      }
+
+      const service = new RunHistoryService(Config.getRunsDirectory());
+      const removed = service.pruneRuns({
+        keep: options.keep !== undefined ? parseInt(options.keep) : undefined,
+        olderThanDays: options.olderThan !== undefined ? parseFloat(options.olderThan) : undefined,
+      });
+
+      console.log(chalk.green(`✅ 已删除 ${removed.length} 条运行记录`));
+      removed.forEach(runId => console.log(chalk.gray(`   • ${runId}`)));
+    } catch (error) {
+      console.error(chalk.red('❌ 清理运行记录失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// 浏览器配置文件命令
+const profileCommand = program
+  .command('profile')
+  .description('管理命名浏览器配置文件（保存的cookies和localStorage）');
+
+profileCommand
+  .command('save')
+  .description('打开浏览器登录后保存为配置文件，或从storageState文件导入')
+  .argument('<name>', '配置文件名称')
+  .option('--url <url>', '打开的登录页面')
+  .option('--from-file <file>', '直接导入Playwright storageState JSON文件，不打开浏览器')
+  .action(async (name: string, options) => {
+    try {
+      const store = new ProfileStore(Config.getProfilesDirectory());
+      ProfileStore.validateName(name);
+
+      if (options.fromFile) {
+        const fs = require('fs');
+        const filePath = store.save(name, JSON.parse(fs.readFileSync(options.fromFile, 'utf-8')));
+        console.log(chalk.green(`✅ 已导入配置文件 ${name}: ${filePath}`));
+        return;
+      }
+
+      await runProfileBrowser(name, { url: options.url, load: store.exists(name), save: true });
+      process.exit(0);
+    } catch (error) {
+      console.error(chalk.red('❌ 保存配置文件失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('load')
+  .description('用配置文件打开浏览器，检查或刷新登录状态')
+  .argument('<name>', '配置文件名称')
+  .option('--url <url>', '打开的页面')
+  .option('--save', '关闭前把更新后的状态写回配置文件')
+  .action(async (name: string, options) => {
+    try {
+      // 先确认配置文件存在，再启动浏览器
+      new ProfileStore(Config.getProfilesDirectory()).load(name);
+      await runProfileBrowser(name, { url: options.url, load: true, save: !!options.save });
+      process.exit(0);
+    } catch (error) {
+      console.error(chalk.red('❌ 加载配置文件失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('list')
+  .description('列出已保存的配置文件')
+  .action(() => {
+    try {
+      const store = new ProfileStore(Config.getProfilesDirectory());
+      const profiles = store.list();
+
+      if (profiles.length === 0) {
+        console.log(chalk.gray(`暂无配置文件 (${store.getBaseDirectory()})`));
+        return;
+      }
+
+      console.log(chalk.blue.bold(`\n🍪 浏览器配置文件 (${store.getBaseDirectory()})\n`));
+      for (const profile of profiles) {
+        console.log(chalk.green(`• ${profile.name}`));
+        console.log(chalk.gray(`   ${profile.cookies} cookies, ${profile.origins} origins, 更新于 ${profile.updatedAt.toLocaleString()}`));
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red('❌ 读取配置文件失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('delete')
+  .description('删除配置文件')
+  .argument('<name>', '配置文件名称')
+  .action((name: string) => {
+    try {
+      if (!new ProfileStore(Config.getProfilesDirectory()).delete(name)) {
+        console.error(chalk.red(`❌ 配置文件不存在: ${name}`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✅ 已删除配置文件 ${name}`));
+    } catch (error) {
+      console.error(chalk.red('❌ 删除配置文件失败:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// API服务器命令
+program
+  .command('serve')
+  .description('启动HTTP API服务器，供其他服务提交和监控任务')
+  .option('--host <host>', '监听地址')
+  .option('--port <port>', '监听端口')
+  .option('--concurrency <number>', '同时运行的任务数（每个任务一个浏览器）')
+  .option('--pool-size <number>', '浏览器池大小，任务共享预先启动的浏览器（0 表示不使用）')
+  .option('--token <token>', '访问令牌，请求需带 Authorization: Bearer <token>')
+  .option('-h, --headless', '无头模式运行浏览器', false)
+  .option('-v, --visible', '可视化模式运行浏览器', false)
+  .option('--debug', '启用调试日志')
+  .action(async (options) => {
+    try {
+      if (options.debug) {
+        process.env.LOG_LEVEL = 'debug';
+      }
+
+      const serverConfig = Config.getServerConfig();
+      const llmConfig = Config.getLLMConfig();
+      LLMFactory.validateConfig(llmConfig);
+
+      const browserProfile = Config.getBrowserProfile();
+      if (options.visible) {
+        browserProfile.headless = false;
+      } else if (options.headless) {
+        browserProfile.headless = true;
+      }
+
+      const concurrency = options.concurrency ? parseInt(options.concurrency) : serverConfig.concurrency;
+      if (concurrency > 1 && Config.getBrowserConnectionConfig().connectToUserBrowser) {
+        console.log(chalk.yellow('⚠️ 连接用户浏览器模式下多个任务会共用同一个浏览器，建议并发设为 1'));
+      }
+
+      // 浏览器池：多个任务共享预先启动的浏览器，每个任务使用独立的上下文
+      const poolConfig = Config.getBrowserPoolConfig();
+      const poolSize = options.poolSize !== undefined ? parseInt(options.poolSize) : poolConfig.size;
+      let browserPool: BrowserPool | undefined;
+      if (poolSize > 0) {
+        if (poolSize * poolConfig.maxContextsPerBrowser < concurrency) {
+          console.log(chalk.yellow(`⚠️ 浏览器池最多同时运行 ${poolSize * poolConfig.maxContextsPerBrowser} 个任务，小于并发数 ${concurrency}，多出的任务会等待空闲上下文`));
+        }
+        browserPool = new BrowserPool(browserProfile, { ...poolConfig, size: poolSize });
+        await browserPool.start();
+      }
+
+      const { ApiServer } = await import('../server/service');
+      const server = new ApiServer({
+        host: options.host || serverConfig.host,
+        port: options.port ? parseInt(options.port) : serverConfig.port,
+        token: options.token || serverConfig.token,
+        concurrency,
+        llmConfig,
+        browserProfile,
+        agentSettings: Config.getAgentSettings(),
+        browserPool,
+      });
+
+      const { host, port } = await server.start();
+      console.log(chalk.green(`\n${Symbols.getProgress('start')} API服务器已启动: http://${host}:${port}`));
+      console.log(chalk.gray(`   并发任务数: ${concurrency}`));
+      if (browserPool) {
+        console.log(chalk.gray(`   浏览器池: ${poolSize} 个浏览器，每个最多 ${poolConfig.maxContextsPerBrowser} 个任务`));
+      }
+      console.log(chalk.gray(`   提交任务: curl -X POST http://${host}:${port}/tasks -H 'Content-Type: application/json' -d '{"task":"..."}'`));
+      console.log(chalk.gray('   按 Ctrl+C 停止\n'));
+
+      let stopping = false;
+      const shutdown = async () => {
+        if (stopping) return;
+        stopping = true;
+        console.log(chalk.yellow('\n正在停止API服务器...'));
+        await server.stop();
+        await browserPool?.close();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+
+    } catch (error) {
+      console.error(chalk.red(`\n${Symbols.getStatus('error')} Error:`), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// MCP服务器命令
+program
+  .command('mcp')
+  .description('以MCP服务器模式运行（stdio），供外部AI客户端调用浏览器工具')
+  .option('-h, --headless', '无头模式运行浏览器', false)
+  .option('-v, --visible', '可视化模式运行浏览器', false)
+  .option('--secrets-file <file>', '密钥JSON文件，工具参数中用 {{secret:name}} 引用')
+  .action(async (options) => {
+    // stdout 只能输出协议消息，日志和其他输出全部转到 stderr
+    console.log = console.error;
+    console.info = console.error;
+    console.warn = console.error;
+    console.debug = console.error;
+
+    try {
+      const browserProfile = Config.getBrowserProfile();
+      if (options.visible) {
+        browserProfile.headless = false;
+      } else if (options.headless) {
+        browserProfile.headless = true;
+      }
+
+      const { McpServer } = await import('../mcp/service');
+      const server = new McpServer(new BrowserSession(browserProfile), {
+        secrets: Config.getSecrets(options.secretsFile),
+      });
+
+      const shutdown = async () => {
+        await server.close();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+
+      // 客户端关闭输入流时退出
+      await server.listen();
+      await shutdown();
+    } catch (error) {
+      console.error(`MCP server error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command('test')
   .description('Test browser and LLM connectivity')
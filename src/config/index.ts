@@ -1,5 +1,5 @@
 import { config } from 'dotenv';
-import { LLMConfig, BrowserProfile, AgentSettings, LLMEndpoint } from '../types';
+import { LLMConfig, BrowserEngine, BrowserProfile, DOMExtractionMode, AgentSettings, LLMEndpoint, ModelPrice, NetworkResourceType, NetworkRouteRule } from '../types';
 import { createLLMConfigFromEnv, MultiProviderLLMManager } from '../llm/manager';
 import { logger } from '../utils/logger';
 
@@ -54,6 +54,7 @@ export class Config {
     }
 
     return {
+      browserType: (process.env.BROWSER_TYPE || 'chromium') as BrowserEngine,
       headless: process.env.BROWSER_HEADLESS === 'true',
       viewport: {
         width: parseInt(process.env.BROWSER_VIEWPORT_WIDTH || process.env.BROWSER_WIDTH || '1920'),
@@ -85,9 +86,52 @@ export class Config {
       // 下载配置
       acceptDownloads: process.env.BROWSER_ACCEPT_DOWNLOADS !== 'false',
       downloadsPath: process.env.BROWSER_DOWNLOADS_PATH || this.getDefaultDownloadsPath(),
+      // 域名访问策略
+      allowedDomains: process.env.ALLOWED_DOMAINS?.split(',').map(d => d.trim()).filter(Boolean),
+      blockedDomains: process.env.BLOCKED_DOMAINS?.split(',').map(d => d.trim()).filter(Boolean),
+      // 网络拦截
+      networkRules: this.getNetworkRules(),
+      blockResourceTypes: process.env.BLOCK_RESOURCE_TYPES?.split(',').map(t => t.trim()).filter(Boolean) as NetworkResourceType[] | undefined,
+      blockAdsAndTrackers: process.env.BLOCK_ADS === 'true',
+      recordNetwork: process.env.BROWSER_RECORD_NETWORK !== 'false',
+      // HAR录制和回放
+      recordHar: process.env.BROWSER_RECORD_HAR === 'true',
+      harPath: process.env.BROWSER_HAR_PATH,
+      replayHar: process.env.BROWSER_REPLAY_HAR,
+      harNotFound: process.env.BROWSER_HAR_NOT_FOUND === 'fallback' ? 'fallback' : 'abort',
+      // trace和视频录制
+      recordTrace: process.env.BROWSER_RECORD_TRACE === 'true',
+      tracePath: process.env.BROWSER_TRACE_PATH,
+      recordVideo: process.env.BROWSER_RECORD_VIDEO === 'true',
+      videoDir: process.env.BROWSER_VIDEO_DIR,
+      // 命名配置文件（storageState）
+      storageStateName: process.env.BROWSER_PROFILE || undefined,
+      // 设备模拟
+      device: process.env.BROWSER_DEVICE || undefined,
+      deviceScaleFactor: process.env.BROWSER_DEVICE_SCALE_FACTOR ? parseFloat(process.env.BROWSER_DEVICE_SCALE_FACTOR) : undefined,
+      isMobile: process.env.BROWSER_IS_MOBILE ? process.env.BROWSER_IS_MOBILE === 'true' : undefined,
+      hasTouch: process.env.BROWSER_HAS_TOUCH ? process.env.BROWSER_HAS_TOUCH === 'true' : undefined,
+      // 页面表示方式
+      domMode: (process.env.BROWSER_DOM_MODE === 'accessibility' ? 'accessibility' : 'dom') as DOMExtractionMode,
     };
   }
 
+  /**
+   * 🌐 获取网络路由规则（JSON数组文件，格式见 NetworkRouteRule）
+   */
+  static getNetworkRules(rulesFile: string | undefined = process.env.NETWORK_RULES_FILE): NetworkRouteRule[] | undefined {
+    if (!rulesFile) {
+      return undefined;
+    }
+
+    const fs = require('fs');
+    const raw = JSON.parse(fs.readFileSync(rulesFile, 'utf-8'));
+    if (!Array.isArray(raw)) {
+      throw new Error(`Network rules file must contain a JSON array: ${rulesFile}`);
+    }
+    return raw;
+  }
+
   /**
    * 🔧 获取默认下载路径
    */
@@ -133,8 +177,101 @@ export class Config {
       maxSteps: parseInt(process.env.AGENT_MAX_STEPS || '50'),
       maxActionsPerStep: parseInt(process.env.AGENT_MAX_ACTIONS_PER_STEP || '3'),
       useVision: process.env.AGENT_USE_VISION !== 'false',
+      domPromptMode: process.env.AGENT_DOM_PROMPT_MODE === 'diff' ? 'diff' : 'full',
+      screenshotMarks: process.env.AGENT_SCREENSHOT_MARKS === 'true',
+      screenshotMaxSize: process.env.AGENT_SCREENSHOT_MAX_SIZE ? parseInt(process.env.AGENT_SCREENSHOT_MAX_SIZE) : undefined,
       temperature: parseFloat(process.env.LLM_TEMPERATURE || '0'),
       enablePlugins: process.env.ENABLE_PLUGINS !== 'false', // 默认启用插件系统
+      approvalCategories: process.env.AGENT_APPROVAL_CATEGORIES?.split(',').map(c => c.trim()).filter(Boolean),
+      saveRuns: process.env.AGENT_SAVE_RUNS !== 'false', // 默认保存运行记录
+      runsDirectory: this.getRunsDirectory(),
+      secrets: this.getSecrets(),
+      maxTokens: process.env.AGENT_MAX_TOKENS ? parseInt(process.env.AGENT_MAX_TOKENS) : undefined,
+      maxCost: process.env.AGENT_MAX_COST ? parseFloat(process.env.AGENT_MAX_COST) : undefined,
+      modelPrices: this.getModelPrices(),
+    };
+  }
+
+  /**
+   * 💰 获取自定义模型价格（美元 / 百万token），覆盖内置价格表
+   * LLM_PRICES_FILE 指向JSON文件，格式: { "my-model": { "input": 1, "output": 2 } }
+   */
+  static getModelPrices(pricesFile: string | undefined = process.env.LLM_PRICES_FILE): Record<string, ModelPrice> | undefined {
+    if (!pricesFile) {
+      return undefined;
+    }
+
+    const fs = require('fs');
+    const raw = JSON.parse(fs.readFileSync(pricesFile, 'utf-8'));
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error(`Prices file must contain a JSON object: ${pricesFile}`);
+    }
+    return raw;
+  }
+
+  /**
+   * 🔐 获取密钥：先读取JSON密钥文件，再用 SENTRA_SECRET_* 环境变量覆盖
+   * SENTRA_SECRET_GITHUB_PASSWORD -> {{secret:github_password}}
+   */
+  static getSecrets(secretsFile: string | undefined = process.env.AGENT_SECRETS_FILE): Record<string, string> {
+    const secrets: Record<string, string> = {};
+
+    if (secretsFile) {
+      const fs = require('fs');
+      const raw = JSON.parse(fs.readFileSync(secretsFile, 'utf-8'));
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`Secrets file must contain a JSON object: ${secretsFile}`);
+      }
+      for (const [name, value] of Object.entries(raw)) {
+        secrets[name] = String(value);
+      }
+    }
+
+    const prefix = 'SENTRA_SECRET_';
+    for (const [key, value] of Object.entries(process.env)) {
+      if (key.startsWith(prefix) && key.length > prefix.length && value) {
+        secrets[key.substring(prefix.length).toLowerCase()] = value;
+      }
+    }
+
+    return secrets;
+  }
+
+  /**
+   * 🔧 获取运行记录目录
+   */
+  static getRunsDirectory(): string {
+    const path = require('path');
+    return process.env.AGENT_RUNS_DIR || path.join(process.cwd(), 'runs');
+  }
+
+  /**
+   * 🔧 获取命名浏览器配置文件（storageState）的存储目录
+   */
+  static getProfilesDirectory(): string {
+    const path = require('path');
+    return process.env.BROWSER_PROFILES_DIR || path.join(process.cwd(), 'profiles');
+  }
+
+  /**
+   * 🌐 获取API服务器配置
+   */
+  static getServerConfig() {
+    return {
+      host: process.env.SENTRA_API_HOST || '127.0.0.1',
+      port: parseInt(process.env.SENTRA_API_PORT || '3000'),
+      concurrency: parseInt(process.env.SENTRA_API_CONCURRENCY || '1'),
+      token: process.env.SENTRA_API_TOKEN || undefined,
+    };
+  }
+
+  // 浏览器池配置，size 为 0 时每个任务单独启动浏览器
+  static getBrowserPoolConfig() {
+    return {
+      size: parseInt(process.env.BROWSER_POOL_SIZE || '0'),
+      maxContextsPerBrowser: parseInt(process.env.BROWSER_POOL_MAX_CONTEXTS || '4'),
+      recycleAfter: parseInt(process.env.BROWSER_POOL_RECYCLE_AFTER || '50'),
+      acquireTimeout: parseInt(process.env.BROWSER_POOL_ACQUIRE_TIMEOUT || '60000'),
     };
   }
 
@@ -1,8 +1,9 @@
 import { BrowserSession } from '../browser/session';
-import { Action, ActionResult } from '../types';
+import { Action, ActionResult, ScreenshotOptions } from '../types';
 import { logger } from '../utils/logger';
 import { PluginManager } from '../plugins/manager';
 import { PluginRegistry } from '../plugins/registry';
+import { SecretVault } from '../secrets/service';
 
 /**
  * 操作控制器 - 浏览器操作的执行者
@@ -17,11 +18,13 @@ export class Controller {
   private browserSession: BrowserSession;  // 浏览器会话，我们的工作环境
   private pluginManager?: PluginManager;   // 插件管理器
   private pluginRegistry?: PluginRegistry; // 插件注册表
+  private secretVault?: SecretVault;       // 密钥保管库，输入时替换 {{secret:name}} 占位符
 
-  constructor(browserSession: BrowserSession, pluginManager?: PluginManager, pluginRegistry?: PluginRegistry) {
+  constructor(browserSession: BrowserSession, pluginManager?: PluginManager, pluginRegistry?: PluginRegistry, secretVault?: SecretVault) {
     this.browserSession = browserSession;
     this.pluginManager = pluginManager;
     this.pluginRegistry = pluginRegistry;
+    this.secretVault = secretVault;
   }
 
   // 执行AI指定的操作，这是控制器的核心方法
@@ -29,69 +32,17 @@ export class Controller {
     try {
       logger.action(`正在执行操作: ${action.type}`, this.getActionDetails(action));
 
-      // 根据操作类型分发到对应的处理方法
-      switch (action.type) {
-        case 'click':           // 点击操作
-          return await this.handleClick(action);
-        case 'type':            // 输入文本
-          return await this.handleType(action);
-        case 'navigate':        // 页面导航
-          return await this.handleNavigate(action);
-        case 'scroll':          // 滚动页面
-          return await this.handleScroll(action);
-        case 'wait':            // 等待操作
-          return await this.handleWait(action);
-        case 'done':            // 任务完成
-          return await this.handleDone(action);
-        case 'hover':           // 鼠标悬停
-          return await this.handleHover(action);
-        case 'drag_drop':       // 拖拽操作
-          return await this.handleDragDrop(action);
-        case 'key':             // 按键操作
-        case 'key_press':
-          return await this.handleKeyPress(action);
-        case 'select':          // 选择操作
-          return await this.handleSelect(action);
-        case 'upload_file':     // 文件上传
-          return await this.handleUploadFile(action);
-        case 'take_screenshot': // 截图
-          return await this.handleTakeScreenshot(action);
-        case 'extract_data':    // 数据提取
-          return await this.handleExtractData(action);
-        case 'execute_script':  // 执行脚本
-          return await this.handleExecuteScript(action);
-        case 'switch_tab':      // 切换标签页
-          return await this.handleSwitchTab(action);
-        case 'new_tab':
-          return await this.handleNewTab(action);
-        case 'close_tab':
-          return await this.handleCloseTab(action);
-        case 'go_back':
-          return await this.handleGoBack(action);
-        case 'go_forward':
-          return await this.handleGoForward(action);
-        case 'refresh':
-          return await this.handleRefresh(action);
-        case 'set_cookie':
-          return await this.handleSetCookie(action);
-        case 'wait_for_element':
-          return await this.handleWaitForElement(action);
-        case 'wait_for_navigation':
-          return await this.handleWaitForNavigation(action);
-        // 插件相关动作
-        case 'execute_plugin':
-          return await this.handleExecutePlugin(action);
-        case 'create_page_effect':
-          return await this.handleCreatePageEffect(action);
-        case 'modify_page':
-          return await this.handleModifyPage(action);
-        case 'wrap_page_iframe':
-          return await this.handleWrapPageInIframe(action);
-        default:
-          throw new Error(`Unknown action type: ${(action as any).type}`);
-      }
+      // 丢弃之前遗留的拦截记录，只报告本次操作触发的导航
+      this.browserSession.consumeBlockedNavigations();
+
+      const result = await this.dispatchAction(action);
+      return this.applyBlockedNavigations(action, result);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      // 重定向被拦截时 goto 只会报 ERR_BLOCKED_BY_CLIENT，改用策略给出的说明
+      const blocked = this.browserSession.consumeBlockedNavigations();
+      const errorMessage = blocked.length > 0
+        ? blocked.map(blockedError => blockedError.message).join(' ')
+        : error instanceof Error ? error.message : String(error);
       logger.error(`Action failed: ${action.type}`, error as Error, 'Controller');
       
       return {
@@ -102,13 +53,108 @@ export class Controller {
     }
   }
 
+  // 根据操作类型分发到对应的处理方法
+  private async dispatchAction(action: Action): Promise<ActionResult> {
+    switch (action.type) {
+      case 'click':           // 点击操作
+        return await this.handleClick(action);
+      case 'type':            // 输入文本
+        return await this.handleType(action);
+      case 'navigate':        // 页面导航
+        return await this.handleNavigate(action);
+      case 'scroll':          // 滚动页面
+        return await this.handleScroll(action);
+      case 'wait':            // 等待操作
+        return await this.handleWait(action);
+      case 'done':            // 任务完成
+        return await this.handleDone(action);
+      case 'hover':           // 鼠标悬停
+        return await this.handleHover(action);
+      case 'tap':             // 触摸轻触
+        return await this.handleTap(action);
+      case 'swipe':           // 触摸滑动
+        return await this.handleSwipe(action);
+      case 'drag_drop':       // 拖拽操作
+        return await this.handleDragDrop(action);
+      case 'click_at':        // 坐标操作（canvas、地图等）
+        return await this.handleClickAt(action);
+      case 'drag_at':
+        return await this.handleDragAt(action);
+      case 'scroll_at':
+        return await this.handleScrollAt(action);
+      case 'key':             // 按键操作
+      case 'key_press':
+        return await this.handleKeyPress(action);
+      case 'select':          // 选择操作
+        return await this.handleSelect(action);
+      case 'upload_file':     // 文件上传
+        return await this.handleUploadFile(action);
+      case 'take_screenshot': // 截图
+        return await this.handleTakeScreenshot(action);
+      case 'extract_data':    // 数据提取
+        return await this.handleExtractData(action);
+      case 'execute_script':  // 执行脚本
+        return await this.handleExecuteScript(action);
+      case 'switch_tab':      // 切换标签页
+        return await this.handleSwitchTab(action);
+      case 'new_tab':
+        return await this.handleNewTab(action);
+      case 'close_tab':
+        return await this.handleCloseTab(action);
+      case 'go_back':
+        return await this.handleGoBack(action);
+      case 'go_forward':
+        return await this.handleGoForward(action);
+      case 'refresh':
+        return await this.handleRefresh(action);
+      case 'set_cookie':
+        return await this.handleSetCookie(action);
+      case 'wait_for_element':
+        return await this.handleWaitForElement(action);
+      case 'wait_for_navigation':
+        return await this.handleWaitForNavigation(action);
+      // 插件相关动作
+      case 'execute_plugin':
+        return await this.handleExecutePlugin(action);
+      case 'create_page_effect':
+        return await this.handleCreatePageEffect(action);
+      case 'modify_page':
+        return await this.handleModifyPage(action);
+      case 'wrap_page_iframe':
+        return await this.handleWrapPageInIframe(action);
+      default:
+        throw new Error(`Unknown action type: ${(action as any).type}`);
+    }
+  }
+
+  /**
+   * 操作触发的导航（点击链接、弹窗、重定向）被域名策略拦截时，把结果改为失败并说明原因
+   */
+  private applyBlockedNavigations(action: Action, result: ActionResult): ActionResult {
+    const blocked = this.browserSession.consumeBlockedNavigations();
+    if (blocked.length === 0) {
+      return result;
+    }
+
+    const errorMessage = blocked.map(error => error.message).join(' ');
+    logger.warn(`🛡️ ${action.type} 操作触发的导航被域名策略拦截`, 'Controller');
+
+    return {
+      ...result,
+      success: false,
+      navigationDetected: false,
+      error: errorMessage,
+      message: `The ${action.type} action tried to open a page that is not permitted. ${errorMessage}`,
+    };
+  }
+
   private async handleClick(action: any): Promise<ActionResult> {
     // Extract enhanced locator information
-    const { index, xpath, cssSelector, text, attributes } = action;
+    const { index, xpath, cssSelector, text, attributes, fingerprint } = action;
 
     try {
       // Use enhanced click with multiple strategies and retry mechanism
-      const navigationDetected = await this.browserSession.click(index, xpath, cssSelector, text, attributes);
+      const navigationDetected = await this.browserSession.click(index, xpath, cssSelector, text, attributes, fingerprint);
 
       return {
         success: true,
@@ -160,11 +206,14 @@ export class Controller {
 
   private async handleType(action: any): Promise<ActionResult> {
     // Extract enhanced locator information
-    const { index, text, xpath, cssSelector, attributes } = action;
+    const { index, text, xpath, cssSelector, attributes, fingerprint } = action;
+
+    // 真实值只在这里出现，返回给LLM的消息里仍然是占位符
+    const value = this.resolveSecrets(text);
 
     try {
       // Use enhanced type with multiple strategies and retry mechanism
-      await this.browserSession.type(index, text, xpath, cssSelector, attributes);
+      await this.browserSession.type(index, value, xpath, cssSelector, attributes, fingerprint);
 
       return {
         success: true,
@@ -172,7 +221,8 @@ export class Controller {
         extractedContent: `Typed "${text}" into element at index ${index}`,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const rawMessage = error instanceof Error ? error.message : String(error);
+      const errorMessage = this.secretVault ? this.secretVault.redact(rawMessage) : rawMessage;
 
       if (errorMessage.includes('Execution context was destroyed') ||
           errorMessage.includes('Cannot find context with specified id') ||
@@ -209,6 +259,16 @@ export class Controller {
     }
   }
 
+  private resolveSecrets(text: string): string {
+    if (this.secretVault) {
+      return this.secretVault.resolve(text);
+    }
+    if (typeof text === 'string' && /\{\{\s*secret:/.test(text)) {
+      throw new Error('Text contains a secret placeholder but no secrets are configured');
+    }
+    return text;
+  }
+
   private async handleNavigate(action: any): Promise<ActionResult> {
     await this.browserSession.navigate(action.url);
     
@@ -261,6 +321,12 @@ export class Controller {
         return `seconds: ${action.seconds}`;
       case 'done':
         return `success: ${action.success}, message: "${action.message}"`;
+      case 'click_at':
+        return `coordinate: (${action.coordinate.join(', ')})`;
+      case 'drag_at':
+        return `from: (${action.coordinate.join(', ')}), to: (${action.endCoordinate.join(', ')})`;
+      case 'scroll_at':
+        return `coordinate: (${action.coordinate.join(', ')}), direction: ${action.direction}`;
       default:
         return '';
     }
@@ -293,8 +359,8 @@ export class Controller {
     logger.info('🔄 DOM state refreshed after navigation detection', 'Controller');
   }
 
-  async takeScreenshot(): Promise<string> {
-    return await this.browserSession.takeScreenshot();
+  async takeScreenshot(options?: ScreenshotOptions): Promise<string> {
+    return await this.browserSession.takeScreenshot(options);
   }
 
   getCurrentUrl(): string {
@@ -316,6 +382,28 @@ export class Controller {
     };
   }
 
+  private async handleTap(action: any): Promise<ActionResult> {
+    const navigationDetected = await this.browserSession.tap(action.index, action.xpath);
+
+    return {
+      success: true,
+      message: `Successfully tapped element at index ${action.index}`,
+      extractedContent: `Tapped element at index ${action.index}`,
+      navigationDetected,
+    };
+  }
+
+  private async handleSwipe(action: any): Promise<ActionResult> {
+    await this.browserSession.swipe(action.direction, { index: action.index, xpath: action.xpath, distance: action.distance });
+    const target = action.index !== undefined ? ` on element ${action.index}` : '';
+
+    return {
+      success: true,
+      message: `Swiped ${action.direction}${target}${action.distance ? ` by ${action.distance}px` : ''}`,
+      extractedContent: `Swiped ${action.direction}${target}`,
+    };
+  }
+
   private async handleDragDrop(action: any): Promise<ActionResult> {
     await this.browserSession.dragAndDrop(action.sourceIndex, action.targetIndex, action.sourceXpath, action.targetXpath);
 
@@ -326,6 +414,42 @@ export class Controller {
     };
   }
 
+  private async handleClickAt(action: any): Promise<ActionResult> {
+    const [x, y] = action.coordinate;
+    const navigationDetected = await this.browserSession.clickAt(x, y, { button: action.button, clickCount: action.clickCount });
+    const kind = action.clickCount === 2 ? 'Double-clicked' : action.button === 'right' ? 'Right-clicked' : 'Clicked';
+
+    return {
+      success: true,
+      message: `${kind} at (${x}, ${y})`,
+      extractedContent: `${kind} at (${x}, ${y})`,
+      navigationDetected,
+    };
+  }
+
+  private async handleDragAt(action: any): Promise<ActionResult> {
+    const [x, y] = action.coordinate;
+    const [endX, endY] = action.endCoordinate;
+    await this.browserSession.dragAt({ x, y }, { x: endX, y: endY });
+
+    return {
+      success: true,
+      message: `Dragged from (${x}, ${y}) to (${endX}, ${endY})`,
+      extractedContent: `Dragged from (${x}, ${y}) to (${endX}, ${endY})`,
+    };
+  }
+
+  private async handleScrollAt(action: any): Promise<ActionResult> {
+    const [x, y] = action.coordinate;
+    await this.browserSession.scrollAt(x, y, action.direction, action.amount);
+
+    return {
+      success: true,
+      message: `Scrolled ${action.direction} at (${x}, ${y})${action.amount ? ` by ${action.amount}px` : ''}`,
+      extractedContent: `Scrolled ${action.direction} at (${x}, ${y})`,
+    };
+  }
+
   private async handleKeyPress(action: any): Promise<ActionResult> {
     try {
       // 通用按键选项 - 删除硬编码，让AI决策
@@ -0,0 +1,193 @@
+import { DOMElement } from '../types';
+
+export type AccessibilityState = string | number | boolean;
+
+// 无障碍树中的一个节点，来自 Playwright ariaSnapshot 的一行
+export interface AccessibilityNode {
+  role: string;
+  name: string;                                // 可访问名称，没有时为空字符串
+  states: Record<string, AccessibilityState>;  // checked、expanded、disabled、level 等
+  value?: string;                              // 行尾的文本（输入框的值、段落文本）
+  url?: string;                                // 链接的 /url 属性
+  depth: number;
+}
+
+// 作为可交互元素交给 LLM 的角色
+export const INTERACTIVE_ROLES = [
+  'button', 'link', 'textbox', 'searchbox', 'combobox', 'listbox', 'option',
+  'checkbox', 'radio', 'switch', 'slider', 'spinbutton', 'tab',
+  'menuitem', 'menuitemcheckbox', 'menuitemradio', 'treeitem',
+];
+
+// 需要输入文本的角色，其余按点击处理
+export const INPUT_ROLES = ['textbox', 'searchbox', 'combobox', 'spinbutton'];
+
+const KEY_PATTERN = /^([a-z]+)(?: "((?:[^"\\]|\\.)*)")?((?: \[[^\]]*\])*)$/;
+
+/**
+ * 解析 ariaSnapshot 的 YAML 输出，例如：
+ *
+ *   - navigation:
+ *     - link "首页":
+ *       - /url: /
+ *   - checkbox "记住我" [checked]
+ *   - textbox "邮箱": user@example.com
+ *
+ * 只按行解析，不依赖 YAML 库；无法识别的行直接跳过。
+ */
+export function parseAriaSnapshot(snapshot: string): AccessibilityNode[] {
+  const nodes: AccessibilityNode[] = [];
+  const stack: AccessibilityNode[] = [];
+
+  for (const line of snapshot.split('\n')) {
+    const match = /^(\s*)- (.*)$/.exec(line);
+    if (!match) continue;
+
+    const depth = Math.floor(match[1].length / 2);
+    const { key, value } = splitEntry(match[2]);
+
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+      stack.pop();
+    }
+
+    // 属性行（- /url: ...）属于上一层节点
+    if (key.startsWith('/')) {
+      const parent = stack[stack.length - 1];
+      if (parent && key === '/url' && value !== undefined) {
+        parent.url = value;
+      }
+      continue;
+    }
+
+    const keyMatch = KEY_PATTERN.exec(key);
+    if (!keyMatch) continue;
+
+    const node: AccessibilityNode = {
+      role: keyMatch[1],
+      name: keyMatch[2] !== undefined ? unquote(`"${keyMatch[2]}"`) : '',
+      states: parseStates(keyMatch[3]),
+      depth,
+    };
+    if (value) {
+      node.value = value;
+    }
+
+    nodes.push(node);
+    stack.push(node);
+  }
+
+  return nodes;
+}
+
+/**
+ * 把 "key: value" 拆开；key 可能被 YAML 单引号包住（名称中有冒号等字符时）
+ */
+function splitEntry(entry: string): { key: string; value?: string } {
+  let key: string;
+  let rest: string;
+
+  if (entry.startsWith("'")) {
+    let end = 1;
+    while (end < entry.length) {
+      if (entry[end] === "'" && entry[end + 1] === "'") {
+        end += 2;
+      } else if (entry[end] === "'") {
+        break;
+      } else {
+        end++;
+      }
+    }
+    key = entry.slice(1, end).replace(/''/g, "'");
+    rest = entry.slice(end + 1);
+  } else {
+    // 名称中的冒号在双引号内，只在引号外寻找分隔符
+    let inQuotes = false;
+    let end = 0;
+    for (; end < entry.length; end++) {
+      const char = entry[end];
+      if (char === '\\' && inQuotes) {
+        end++;
+      } else if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === ':' && !inQuotes && (end === entry.length - 1 || entry[end + 1] === ' ')) {
+        break;
+      }
+    }
+    key = entry.slice(0, end);
+    rest = entry.slice(end);
+  }
+
+  if (!rest.startsWith(':')) {
+    return { key };
+  }
+  const value = rest.slice(1).trim();
+  return { key, value: value ? unquote(value) : undefined };
+}
+
+function unquote(value: string): string {
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+// [checked] [checked=mixed] [level=2]
+function parseStates(text: string): Record<string, AccessibilityState> {
+  const states: Record<string, AccessibilityState> = {};
+  for (const match of text.matchAll(/\[([^\]=]+)(?:=([^\]]*))?\]/g)) {
+    const raw = match[2];
+    if (raw === undefined) {
+      states[match[1]] = true;
+    } else if (/^-?\d+(\.\d+)?$/.test(raw)) {
+      states[match[1]] = parseFloat(raw);
+    } else {
+      states[match[1]] = raw === 'true' ? true : raw === 'false' ? false : raw;
+    }
+  }
+  return states;
+}
+
+/**
+ * 格式化状态，例如 "checked disabled level=2"
+ */
+export function formatAccessibilityStates(states: Record<string, AccessibilityState> = {}): string {
+  return Object.entries(states)
+    .filter(([, value]) => value !== false)
+    .map(([key, value]) => (value === true ? key : `${key}=${value}`))
+    .join(' ');
+}
+
+/**
+ * 按无障碍树格式描述元素，例如 checkbox "记住我" [checked] 或 textbox "邮箱" value="a@b.com"
+ */
+export function formatAccessibleElement(el: DOMElement, name: string = el.text || ''): string {
+  let desc = el.role || el.tag;
+  if (name) {
+    desc += ` "${truncate(name, 80)}"`;
+  }
+
+  const states = formatAccessibilityStates(el.ariaStates);
+  if (states) {
+    desc += ` [${states}]`;
+  }
+
+  if (el.attributes?.value) {
+    desc += ` value="${truncate(el.attributes.value, 50)}"`;
+  }
+  if (el.attributes?.href) {
+    desc += ` href="${truncate(el.attributes.href, 60)}"`;
+  }
+
+  return desc;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+}
@@ -4,14 +4,27 @@
     focusHighlightIndex: -1,
     viewportExpansion: 0,
     debugMode: false,
+    startIndex: 0,          // 第一个元素的索引，逐个frame分析时接着上一个frame编号
+    traverseIframes: true,  // 为 false 时不进入iframe，由调用方通过 Playwright frame 分别分析
   }
 ) => {
-  const { doHighlightElements, focusHighlightIndex, viewportExpansion, debugMode } = args;
-  let highlightIndex = 0; // Reset highlight index
+  const { doHighlightElements, focusHighlightIndex, viewportExpansion, debugMode, startIndex = 0, traverseIframes = true } = args;
+  let highlightIndex = startIndex; // Reset highlight index
+
+  // 查找元素时也进入开放的 Shadow DOM
+  function querySelectorAllDeep(root, selector) {
+    const results = Array.from(root.querySelectorAll(selector));
+    for (const element of root.querySelectorAll('*')) {
+      if (element.shadowRoot) {
+        results.push(...querySelectorAllDeep(element.shadowRoot, selector));
+      }
+    }
+    return results;
+  }
 
   // 清理工作：移除之前的标记，避免重复索引
   // 清除旧的元素索引属性
-  const elementsWithOldIndex = document.querySelectorAll('[data-browser-use-index]');
+  const elementsWithOldIndex = querySelectorAllDeep(document, '[data-browser-use-index]');
   elementsWithOldIndex.forEach(el => {
     el.removeAttribute('data-browser-use-index');
     el.removeAttribute('data-browser-use-id');
@@ -1616,6 +1629,7 @@
         try {
           // Try to access iframe content (will fail for cross-origin)
           if (iframe.contentDocument && iframe.contentDocument.body) {
+            if (!traverseIframes) continue;
             const iframeElement = buildDomTree(iframe.contentDocument.body, iframe, false);
             if (iframeElement) nodeData.children.push(iframeElement);
           }
@@ -1817,6 +1831,11 @@
       isClickableOnly: false,
     };
 
+    // Shadow DOM 内的元素无法用 XPath 定位
+    if (node.getRootNode().host) {
+      nodeData.inShadowRoot = true;
+    }
+
     // 分类元素交互类型
     if (isInputElement(node)) {
       nodeData.interactionType = 'input';
@@ -1869,7 +1888,7 @@
       // Handle iframes
       if (tagName === "iframe") {
         try {
-          const iframeDoc = node.contentDocument || node.contentWindow?.document;
+          const iframeDoc = traverseIframes ? (node.contentDocument || node.contentWindow?.document) : null;
           if (iframeDoc) {
             for (const child of iframeDoc.childNodes) {
               const domElement = buildDomTree(child, node, false);
@@ -2091,6 +2110,6 @@
   }
 
   return debugMode ?
-    { rootId, map: DOM_HASH_MAP, perfMetrics: PERF_METRICS } :
-    { rootId, map: DOM_HASH_MAP };
+    { rootId, map: DOM_HASH_MAP, nextIndex: highlightIndex, perfMetrics: PERF_METRICS } :
+    { rootId, map: DOM_HASH_MAP, nextIndex: highlightIndex };
 }
@@ -0,0 +1,152 @@
+import { DOMElement, DOMState, DOMStateDiff, InjectionFinding } from '../types';
+
+// 被隔离的文本在提示词中的替代内容
+export const QUARANTINED_TEXT = '[quarantined: page text that looks like instructions]';
+
+// 不参与检测的属性（URL、样式和内部标记不会被当作自然语言读给LLM）
+const SKIPPED_ATTRIBUTES = ['href', 'src', 'class', 'style', 'id', 'xpath', 'data-browser-use-index'];
+
+// 类似指令的文本特征：命中任意一条即视为可疑
+const INJECTION_RULES: Array<{ rule: string; pattern: RegExp }> = [
+  {
+    rule: 'ignore_instructions',
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|any|your|the)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions|guidelines|context)\b/i,
+  },
+  { rule: 'role_override', pattern: /\byou are now (an? )?(ai|assistant|agent|dan|jailbroken|unrestricted|in (developer|god|admin) mode)\b|\bpretend (to be|you are)\b|\bfrom now on,? (you|the assistant)\b/i },
+  {
+    rule: 'system_prompt',
+    // 只匹配索要、覆盖或伪造系统提示词的说法；"System message: maintenance tonight" 这类站内通知不会命中
+    pattern: /\b(reveal|print|show|repeat|output|leak|ignore|disregard|override|replace)\b[^.\n]{0,20}\b(system|developer)\s+(prompt|instructions?)\b|\b(new|updated|real|actual|hidden)\s+(system|developer)\s+(prompt|message|instructions?)\b|\b(system|developer)\s+prompt\s*:|\bnew instructions?\s*:/i,
+  },
+  { rule: 'role_tag', pattern: /<\/?\s*(system|assistant|user_request|instructions?|browser_state|agent_history)\s*>|^\s*(system|assistant)\s*:/im },
+  {
+    rule: 'agent_directive',
+    pattern: /\b(ai|llm|ai assistant|ai agent|language model|chatbot)s?\b[^.\n]{0,30}\b(must now|should now|must immediately|must ignore|are instructed to|is instructed to)\b/i,
+  },
+  {
+    rule: 'exfiltration',
+    // 要求把凭据发送到某个地址；"Send password reset link to your email" 这类正常文案不会命中
+    pattern: /\b(send|post|upload|forward|email|reveal)\b[^.\n]{0,30}\b(passwords?|credentials?|api[ _-]?keys?|tokens?|cookies?|secrets?)\b[^.\n]{0,30}\bto\s+(https?:\/\/|[\w.+-]+@|this (url|address|form)|the following)/i,
+  },
+  { rule: 'ignore_instructions_zh', pattern: /(忽略|无视|忘记|忽视|不要理会)[^。\n]{0,10}(之前|以上|前面|先前|所有|上述)[^。\n]{0,10}(指令|指示|提示|规则|要求)/ },
+  {
+    rule: 'role_override_zh',
+    // "系统提示：会话即将过期" 是常见的站内通知，只有要求忽略、泄露或改写系统提示词时才算
+    pattern: /你现在是(一个|一名)?[^。\n]{0,10}(AI|人工智能|助手|机器人|语言模型|智能体)|从现在开始[，,]?你(必须|只能|应该|要扮演|将扮演|不再)|(忽略|无视|忘记|泄露|输出|打印|重复|覆盖)[^。\n]{0,10}系统提示词?|系统提示词[:：]/i,
+  },
+];
+
+/**
+ * 页面内容清洗 - 防止网页通过文本对代理进行提示词注入
+ *
+ * 在页面内容进入提示词之前检测元素文本和属性中类似指令的内容，
+ * 把命中的内容替换为隔离标记，并将元素标记为 untrusted。
+ */
+export class ContentSanitizer {
+  /**
+   * 检测一段文本，返回命中的规则名，没有命中时返回 null
+   */
+  scanText(text?: string): string | null {
+    if (!text || typeof text !== 'string' || text === QUARANTINED_TEXT) {
+      return null;
+    }
+
+    const match = INJECTION_RULES.find(({ pattern }) => pattern.test(text));
+    return match ? match.rule : null;
+  }
+
+  /**
+   * 清洗单个元素，返回清洗后的副本和检测结果（没有问题时原样返回元素）
+   */
+  sanitizeElement<T extends DOMElement>(element: T): { element: T; findings: InjectionFinding[] } {
+    const findings: InjectionFinding[] = [];
+    const hidden = element.isVisible === false;
+
+    const textRule = this.scanText(element.text);
+    if (textRule) {
+      findings.push(this.createFinding(element, 'text', textRule, element.text!, hidden));
+    }
+
+    let attributes = element.attributes;
+    for (const [name, value] of Object.entries(element.attributes || {})) {
+      if (SKIPPED_ATTRIBUTES.includes(name)) continue;
+
+      const rule = this.scanText(value);
+      if (rule) {
+        findings.push(this.createFinding(element, name, rule, value, hidden));
+        attributes = { ...attributes, [name]: QUARANTINED_TEXT };
+      }
+    }
+
+    if (findings.length === 0) {
+      return { element, findings };
+    }
+
+    return {
+      element: {
+        ...element,
+        text: textRule ? QUARANTINED_TEXT : element.text,
+        attributes,
+        untrusted: true,
+      },
+      findings,
+    };
+  }
+
+  /**
+   * 清洗整个页面状态（包括页面标题），返回新的 DOMState
+   */
+  sanitizeDOMState(domState: DOMState): DOMState {
+    const findings: InjectionFinding[] = [];
+    const sanitizedElements = new Map<DOMElement, DOMElement>();
+
+    const elements = domState.elements.map(element => {
+      const sanitized = this.sanitizeElement(element);
+      findings.push(...sanitized.findings);
+      sanitizedElements.set(element, sanitized.element);
+      return sanitized.element;
+    });
+
+    let title = domState.title;
+    const titleRule = this.scanText(title);
+    if (titleRule) {
+      findings.push({ field: 'title', rule: titleRule, excerpt: this.excerpt(title), hidden: false });
+      title = QUARANTINED_TEXT;
+    }
+
+    return { ...domState, elements, title, injectionFindings: findings, diff: domState.diff && this.sanitizeDiff(domState.diff, sanitizedElements) };
+  }
+
+  /**
+   * 差异中的元素和 elements 是同一批对象，直接复用清洗结果；已移除的元素不在当前页面上，不记录检测结果
+   */
+  private sanitizeDiff(diff: DOMStateDiff, sanitizedElements: Map<DOMElement, DOMElement>): DOMStateDiff {
+    const sanitize = (element: DOMElement) => sanitizedElements.get(element) || this.sanitizeElement(element).element;
+    return {
+      added: diff.added.map(sanitize),
+      removed: diff.removed.map(sanitize),
+      changed: diff.changed.map(change => ({ ...change, element: sanitize(change.element) })),
+      unchanged: diff.unchanged.map(sanitize),
+    };
+  }
+
+  /**
+   * 把检测结果转成可以写进 ActionResult 的警告
+   * 警告会出现在后续的提示词中，所以不包含原文，原文只保留在 InjectionFinding.excerpt 里
+   */
+  describeFindings(findings: InjectionFinding[]): string[] {
+    return findings.map(finding => {
+      const location = finding.elementIndex !== undefined ? `element [${finding.elementIndex}] ${finding.field}` : finding.field;
+      return `Possible prompt injection quarantined in ${location}${finding.hidden ? ' (hidden)' : ''} (${finding.rule})`;
+    });
+  }
+
+  private createFinding(element: DOMElement, field: string, rule: string, text: string, hidden: boolean): InjectionFinding {
+    return { elementIndex: element.index, field, rule, excerpt: this.excerpt(text), hidden };
+  }
+
+  private excerpt(text: string): string {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    return normalized.length > 80 ? normalized.substring(0, 80) + '...' : normalized;
+  }
+}
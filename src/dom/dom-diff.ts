@@ -0,0 +1,121 @@
+import { DOMElement, DOMElementChange, DOMState, DOMStateDiff } from '../types';
+import { ContentSanitizer, QUARANTINED_TEXT } from './content-sanitizer';
+import { matchElements } from './element-identity';
+
+// 状态类属性，变化时元素算作"已改变"
+const STATE_ATTRIBUTES = ['value', 'checked', 'selected', 'disabled', 'aria-expanded', 'aria-checked', 'aria-selected', 'aria-pressed'];
+
+const sanitizer = new ContentSanitizer();
+
+function normalizeText(text?: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim().substring(0, 100);
+}
+
+/**
+ * 比较元素内容，返回变化的字段
+ */
+function describeChanges(previous: DOMElement, current: DOMElement): string[] {
+  const changes: string[] = [];
+  if (normalizeText(previous.text) !== normalizeText(current.text)) {
+    changes.push('text');
+  }
+  for (const name of STATE_ATTRIBUTES) {
+    if ((previous.attributes?.[name] || '') !== (current.attributes?.[name] || '')) {
+      changes.push(name);
+    }
+  }
+  if (JSON.stringify(previous.ariaStates || {}) !== JSON.stringify(current.ariaStates || {})) {
+    changes.push('states');
+  }
+  if (previous.isVisible !== current.isVisible) {
+    changes.push('visibility');
+  }
+  return changes;
+}
+
+/**
+ * 计算两次快照之间的变化；页面已经导航（URL不同）时返回 null
+ *
+ * 两边都有 stableId 时按ID配对，否则按元素指纹配对。
+ */
+export function diffDOMStates(previous: DOMState, current: DOMState): DOMStateDiff | null {
+  if (previous.url !== current.url) {
+    return null;
+  }
+
+  let matches: Map<DOMElement, DOMElement>;
+  const hasStableIds = [...previous.elements, ...current.elements].every(element => element.stableId);
+  if (hasStableIds) {
+    const previousById = new Map(previous.elements.map(element => [element.stableId!, element]));
+    matches = new Map();
+    for (const element of current.elements) {
+      const match = previousById.get(element.stableId!);
+      if (match) matches.set(element, match);
+    }
+  } else {
+    matches = matchElements(previous.elements, current.elements);
+  }
+
+  const diff: DOMStateDiff = { added: [], removed: [], changed: [], unchanged: [] };
+  const matchedPrevious = new Set<DOMElement>();
+
+  for (const element of current.elements) {
+    const match = matches.get(element);
+    if (!match) {
+      diff.added.push(element);
+      continue;
+    }
+
+    matchedPrevious.add(match);
+    const changes = describeChanges(match, element);
+    if (changes.length > 0) {
+      diff.changed.push({ element, previousIndex: match.index, changes });
+    } else {
+      diff.unchanged.push(element);
+    }
+  }
+
+  diff.removed = previous.elements.filter(element => !matchedPrevious.has(element));
+  return diff;
+}
+
+/**
+ * 精简的元素描述，用于没有变化和已移除的元素：[3] button "登录"
+ */
+function formatElementLabel(element: DOMElement): string {
+  const text = normalizeText(element.text);
+  const safeText = sanitizer.scanText(text) ? QUARANTINED_TEXT : text;
+  const label = element.role || `<${element.tag}>`;
+  return `[${element.index}] ${label}${safeText ? ` "${safeText.length > 40 ? safeText.substring(0, 40) + '...' : safeText}"` : ''}`;
+}
+
+/**
+ * 把差异格式化成提示词：新增和变化的元素用完整格式（formatElements），其余只列出精简描述
+ */
+export function formatDOMDiff(diff: DOMStateDiff, formatElements: (elements: DOMElement[]) => string): string {
+  const sections: string[] = [
+    `Page has not navigated since the last step: ${diff.added.length} new, ${diff.changed.length} changed, ${diff.removed.length} removed, ${diff.unchanged.length} unchanged elements. Use the current indices below.`,
+  ];
+
+  if (diff.added.length > 0) {
+    sections.push(`New elements:\n${formatElements(diff.added)}`);
+  }
+
+  if (diff.changed.length > 0) {
+    const changed = diff.changed.map((change: DOMElementChange) => {
+      const moved = change.previousIndex !== change.element.index ? `, was [${change.previousIndex}]` : '';
+      return `${formatElements([change.element])} (changed: ${change.changes.join(', ')}${moved})`;
+    });
+    sections.push(`Changed elements:\n${changed.join('\n')}`);
+  }
+
+  if (diff.unchanged.length > 0) {
+    sections.push(`Unchanged elements:\n${diff.unchanged.map(formatElementLabel).join('\n')}`);
+  }
+
+  if (diff.removed.length > 0) {
+    sections.push(`Removed elements (previous indices, no longer on the page):\n${diff.removed.map(formatElementLabel).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
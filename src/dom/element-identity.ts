@@ -0,0 +1,210 @@
+import { DOMElement, ElementFingerprint } from '../types';
+
+type IdentifiableElement = DOMElement & { framePath?: string[]; roleLocator?: { nth: number } };
+
+// 祖先路径保留的层数：太少容易和别处的同名元素混淆，太多会因为外层布局变化而失配
+const ANCESTRY_DEPTH = 3;
+
+const INPUT_ROLES: Record<string, string> = {
+  checkbox: 'checkbox',
+  radio: 'radio',
+  search: 'searchbox',
+  number: 'spinbutton',
+  range: 'slider',
+  submit: 'button',
+  button: 'button',
+  reset: 'button',
+  image: 'button',
+};
+
+/**
+ * 显式 role 属性优先，否则按标签推断（只覆盖常见的可交互元素）
+ */
+function inferRole(element: IdentifiableElement): string {
+  const explicit = element.role || element.attributes?.role;
+  if (explicit) return explicit;
+
+  const tag = (element.tag || '').toLowerCase();
+  switch (tag) {
+    case 'a':
+      return element.attributes?.href !== undefined ? 'link' : 'a';
+    case 'input':
+      return INPUT_ROLES[(element.attributes?.type || 'text').toLowerCase()] || 'textbox';
+    case 'textarea':
+      return 'textbox';
+    case 'select':
+      return element.attributes?.multiple !== undefined ? 'listbox' : 'combobox';
+    case 'summary':
+      return 'button';
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      return 'heading';
+    default:
+      return tag;
+  }
+}
+
+function normalize(text?: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim().substring(0, 80);
+}
+
+/**
+ * 可访问名称的近似值；不使用 value，输入内容变化不影响身份
+ */
+function accessibleName(element: IdentifiableElement): string {
+  const attributes = element.attributes || {};
+  return normalize(attributes['aria-label'] || element.text || attributes.placeholder || attributes.title || attributes.alt || attributes.name);
+}
+
+function xpathSegments(xpath?: string): string[] {
+  return (xpath || '').split('/').filter(Boolean);
+}
+
+// FNV-1a，32位，足够区分同一页面上的元素
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 计算元素指纹：role、可访问名称、祖先路径决定身份，位置哈希用于区分身份相同的元素
+ */
+export function computeFingerprint(element: IdentifiableElement): ElementFingerprint {
+  const role = inferRole(element);
+  const name = accessibleName(element);
+  const segments = xpathSegments(element.xpath);
+  const ancestry = segments
+    .slice(0, -1)
+    .slice(-ANCESTRY_DEPTH)
+    .map(segment => segment.replace(/\[\d+\]$/, '').toLowerCase())
+    .join('>');
+  const framePath = element.framePath && element.framePath.length > 0 ? element.framePath.join(' >> ') : undefined;
+
+  // 带序号的完整XPath；accessibility 模式没有XPath，用同名元素中的序号
+  const position = element.xpath || (element.roleLocator ? `${role}#${element.roleLocator.nth}` : '');
+
+  return {
+    role,
+    name,
+    ancestry,
+    framePath,
+    positionHash: hashString(`${framePath || ''}|${position}`),
+    hash: hashString([role, name, ancestry, framePath || ''].join('\u0000')),
+  };
+}
+
+function getFingerprint(element: DOMElement): ElementFingerprint {
+  return element.fingerprint || computeFingerprint(element);
+}
+
+// 名称变化（计数器、按钮状态文字）时仍按角色和位置识别
+function looseKey(fingerprint: ElementFingerprint): string {
+  return [fingerprint.role, fingerprint.ancestry, fingerprint.framePath || ''].join('\u0000');
+}
+
+/**
+ * 在两次快照之间配对元素，返回 当前元素 -> 上一次的元素
+ *
+ * 先按指纹哈希配对，剩下的再忽略名称配对一次；同一身份出现多次时优先选位置相同的，否则按页面顺序。
+ */
+export function matchElements(previous: DOMElement[], current: DOMElement[]): Map<DOMElement, DOMElement> {
+  const matches = new Map<DOMElement, DOMElement>();
+  const used = new Set<DOMElement>();
+
+  for (const keyOf of [(fingerprint: ElementFingerprint) => fingerprint.hash, looseKey]) {
+    const pools = new Map<string, DOMElement[]>();
+    for (const element of previous) {
+      if (used.has(element)) continue;
+      const key = keyOf(getFingerprint(element));
+      const pool = pools.get(key);
+      if (pool) {
+        pool.push(element);
+      } else {
+        pools.set(key, [element]);
+      }
+    }
+
+    for (const element of current) {
+      if (matches.has(element)) continue;
+      const fingerprint = getFingerprint(element);
+      const pool = pools.get(keyOf(fingerprint));
+      if (!pool || pool.length === 0) continue;
+
+      const samePosition = pool.findIndex(candidate => getFingerprint(candidate).positionHash === fingerprint.positionHash);
+      const [match] = pool.splice(samePosition >= 0 ? samePosition : 0, 1);
+      matches.set(element, match);
+      used.add(match);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * 在元素列表中找到指纹对应的元素；有歧义时返回 undefined，不做猜测
+ */
+export function resolveFingerprint(fingerprint: ElementFingerprint, elements: DOMElement[]): DOMElement | undefined {
+  const pickUnique = (candidates: DOMElement[]): DOMElement | undefined => {
+    if (candidates.length === 1) return candidates[0];
+    const samePosition = candidates.filter(element => getFingerprint(element).positionHash === fingerprint.positionHash);
+    return samePosition.length === 1 ? samePosition[0] : undefined;
+  };
+
+  const exact = elements.filter(element => getFingerprint(element).hash === fingerprint.hash);
+  if (exact.length > 0) {
+    return pickUnique(exact);
+  }
+
+  // 名称变了：只接受同一位置上的同类元素
+  const key = looseKey(fingerprint);
+  const loose = elements.filter(element => {
+    const candidate = getFingerprint(element);
+    return looseKey(candidate) === key && candidate.positionHash === fingerprint.positionHash;
+  });
+  return loose.length === 1 ? loose[0] : undefined;
+}
+
+/**
+ * 元素身份表 - 跨快照记录同一页面上的元素
+ *
+ * 每次快照后调用 update：计算指纹，和上一次快照配对，沿用或分配 stableId。
+ * 页面导航后调用 reset，新页面上的元素重新分配ID（ID在整个会话中不会重复）。
+ */
+export class ElementIdentityMap {
+  private current: DOMElement[] = [];
+  private byStableId = new Map<string, DOMElement>();
+  private nextId = 1;
+
+  update(elements: DOMElement[]): void {
+    for (const element of elements) {
+      element.fingerprint = computeFingerprint(element);
+    }
+
+    const matches = matchElements(this.current, elements);
+    for (const element of elements) {
+      element.stableId = matches.get(element)?.stableId || `e${this.nextId++}`;
+    }
+
+    this.current = elements;
+    this.byStableId = new Map(elements.map(element => [element.stableId!, element]));
+  }
+
+  reset(): void {
+    this.current = [];
+    this.byStableId.clear();
+  }
+
+  get(stableId: string): DOMElement | undefined {
+    return this.byStableId.get(stableId);
+  }
+
+  /**
+   * 在最新快照中找到指纹对应的元素
+   */
+  resolve(fingerprint: ElementFingerprint): DOMElement | undefined {
+    return resolveFingerprint(fingerprint, this.current);
+  }
+}
@@ -82,6 +82,16 @@ export interface ElementAnalysisResult {
   isRecommended: boolean;
 }
 
+// 敏感元素类别 - 点击这些元素可能产生不可逆的后果
+export type SensitiveElementCategory = 'purchase' | 'delete' | 'submit';
+
+// 敏感元素关键词（按检查顺序排列，越危险越靠前）
+const SENSITIVE_KEYWORDS: Array<[SensitiveElementCategory, string[]]> = [
+  ['purchase', ['buy', 'purchase', 'checkout', 'check out', 'pay', 'pay now', 'place order', 'order now', '购买', '下单', '支付', '付款', '结算']],
+  ['delete', ['delete', 'remove', 'destroy', 'erase', 'discard', 'unsubscribe', '删除', '移除', '清空', '注销']],
+  ['submit', ['submit', 'send', 'confirm', '提交', '发送', '确认']],
+];
+
 // 通用模式匹配规则
 interface PatternRule {
   name: string;
@@ -254,6 +264,45 @@ export class ElementSemanticAnalyzer {
     return this.performBasicAnalysis(element);
   }
 
+  /**
+   * 判断元素是否属于敏感操作目标（购买/删除/提交）
+   * 与 analyzeElement 的模糊评分不同，这里只看明确的关键词，避免把普通按钮都当成敏感元素
+   */
+  public classifySensitiveElement(element: any): SensitiveElementCategory | null {
+    const attributes = element?.attributes || {};
+    const haystacks = [
+      element?.text,
+      attributes['aria-label'],
+      attributes.title,
+      attributes.value,
+      attributes.name,
+      attributes.id,
+      attributes.class,
+    ].filter((value): value is string => typeof value === 'string' && value.length > 0);
+
+    for (const [category, keywords] of SENSITIVE_KEYWORDS) {
+      if (keywords.some(keyword => haystacks.some(haystack => this.containsKeyword(haystack, keyword)))) {
+        return category;
+      }
+    }
+
+    const tag = element?.tag?.toLowerCase() || '';
+    if ((tag === 'button' || tag === 'input') && attributes.type?.toLowerCase() === 'submit') {
+      return 'submit';
+    }
+
+    return null;
+  }
+
+  // 英文关键词按单词边界匹配（避免 pay 命中 display），中文按子串匹配
+  private containsKeyword(haystack: string, keyword: string): boolean {
+    if (/^[\x00-\x7f]+$/.test(keyword)) {
+      const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`\\b${escaped}\\b`, 'i').test(haystack);
+    }
+    return haystack.includes(keyword);
+  }
+
   /**
    * 查找最佳匹配规则
    */
@@ -1,5 +1,8 @@
-import { DOMState, DOMElement } from '../types';
+import { DOMState, DOMElement, DOMExtractionMode, DOMStateDiff, ElementFingerprint } from '../types';
 import { logger } from '../utils/logger';
+import { AccessibilityNode, INTERACTIVE_ROLES, INPUT_ROLES, parseAriaSnapshot } from './accessibility-tree';
+import { diffDOMStates } from './dom-diff';
+import { ElementIdentityMap } from './element-identity';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -10,6 +13,7 @@ export interface ElementLocator {
   cssSelector?: string;     // CSS选择器
   text?: string;            // 元素文本内容
   attributes?: Record<string, string>; // 元素属性
+  framePath?: string[];     // 元素所在iframe的选择器链（从主文档开始）
 }
 
 // 增强的DOM元素接口 - 包含更多智能分析信息
@@ -28,8 +32,20 @@ export interface EnhancedDOMElement extends DOMElement {
   interactionType?: 'input' | 'click' | 'interactive' | 'none';
   isInputElement?: boolean;    // 是否为输入元素
   isClickableOnly?: boolean;   // 是否只能点击
+
+  // iframe 和 Shadow DOM
+  framePath?: string[];        // 所在iframe元素的选择器链，主文档中的元素为空
+  inShadowRoot?: boolean;      // 是否在 Shadow DOM 内（XPath 无法穿透）
+
+  // accessibility 模式：按角色、可访问名称和同名元素中的序号定位
+  roleLocator?: { role: string; name: string; nth: number };
 }
 
+// 没有唯一 id/name/title 的iframe元素用这个属性标记，供 framePath 定位
+const FRAME_ATTRIBUTE = 'data-browser-use-frame';
+// 最多进入几层嵌套的iframe
+const MAX_FRAME_DEPTH = 3;
+
 export interface DOMTreeNode {
   id: string;
   tagName: string;
@@ -65,9 +81,13 @@ export class DOMService {
   private performanceMetrics: PerformanceMetrics;
 
   private buildDomTreeScript: string;
+  private extractionMode: DOMExtractionMode;
+  private previousState?: DOMState;  // 上一次快照，用于计算差异
+  private identityMap = new ElementIdentityMap();
 
-  constructor(page: any) {
+  constructor(page: any, extractionMode: DOMExtractionMode = 'dom') {
     this.page = page;
+    this.extractionMode = extractionMode;
     this.performanceMetrics = {
       totalNodes: 0,
       processedNodes: 0,
@@ -87,6 +107,15 @@ export class DOMService {
     }
   }
 
+  getExtractionMode(): DOMExtractionMode {
+    return this.extractionMode;
+  }
+
+  setExtractionMode(mode: DOMExtractionMode): void {
+    this.extractionMode = mode;
+    this.clearCaches();
+  }
+
   /**
    * 更新页面引用
    */
@@ -94,6 +123,22 @@ export class DOMService {
     this.page = page;
     // 清理缓存，因为页面已经改变
     this.clearCaches();
+    this.previousState = undefined;
+    this.identityMap.reset();
+  }
+
+  /**
+   * 按指纹在最新快照中找到元素（索引可能已经变化），找不到或有歧义时返回 undefined
+   */
+  resolveFingerprint(fingerprint: ElementFingerprint): EnhancedDOMElement | undefined {
+    return this.identityMap.resolve(fingerprint) as EnhancedDOMElement | undefined;
+  }
+
+  /**
+   * 计算两次快照之间的变化，页面已经导航时返回 null
+   */
+  diffStates(previous: DOMState, current: DOMState): DOMStateDiff | null {
+    return diffDOMStates(previous, current);
   }
 
   /**
@@ -262,7 +307,9 @@ export class DOMService {
       }
 
       // Get enhanced clickable elements using the complete DOM analysis
-      const elements = await this.buildCompleteDOM(focusElement, viewportExpansion);
+      const elements = this.extractionMode === 'accessibility'
+        ? await this.buildAccessibilityElements()
+        : await this.buildCompleteDOM(focusElement, viewportExpansion);
 
       // Take screenshot
       const screenshot = await this.page.screenshot({
@@ -270,18 +317,51 @@ export class DOMService {
         fullPage: false
       });
 
-      return {
+      const state: DOMState = {
         elements,
         url,
         title,
         screenshot: screenshot.toString('base64'),
       };
+      this.trackChanges(state);
+      return state;
     } catch (error) {
       logger.error('Failed to get DOM state', error as Error, 'DOMService');
       throw error;
     }
   }
 
+  /**
+   * 记录由其他检测器（增强模式）生成的快照，让索引定位、指纹和差异在所有模式下使用同一份快照
+   */
+  recordSnapshot(state: DOMState): void {
+    this.clearCaches();
+    state.elements.forEach(element => this.elementCache.set(`index_${element.index}`, element as EnhancedDOMElement));
+    this.trackChanges(state);
+  }
+
+  /**
+   * 🔁 和上一次快照比较：计算元素指纹，同一页面上的元素沿用上一次的 stableId，并记录新增、变化和移除的元素
+   */
+  private trackChanges(state: DOMState): void {
+    const previous = this.previousState && this.previousState.url === state.url ? this.previousState : undefined;
+    if (!previous) {
+      this.identityMap.reset();
+    }
+    this.identityMap.update(state.elements);
+
+    if (previous) {
+      const diff = diffDOMStates(previous, state);
+      if (diff) {
+        state.diff = diff;
+        logger.debug(`🔁 DOM变化: +${diff.added.length} ~${diff.changed.length} -${diff.removed.length} (${diff.unchanged.length} 未变)`, 'DOMService');
+      }
+    }
+
+    // 保存时不带截图和差异，避免占用内存
+    this.previousState = { elements: state.elements, url: state.url, title: state.title };
+  }
+
   private clearCaches(): void {
     this.elementCache.clear();
     this.xpathCache.clear();
@@ -309,6 +389,7 @@ export class DOMService {
         focusHighlightIndex: focusElement,
         viewportExpansion: -1, // Force all interactive elements to get highlightIndex
         debugMode: true, // Enable debug mode to see what's happening
+        traverseIframes: false, // iframe（包括跨域的）在主文档之后逐个frame分析
       };
 
       let domAnalysis;
@@ -327,27 +408,7 @@ export class DOMService {
 
         // 尝试直接在页面上下文中执行脚本，避免CSP问题
         try {
-          domAnalysis = await this.page.evaluate((params: any) => {
-            try {
-              // 清除之前的函数定义
-              delete (window as any).buildDomTreeFunction;
-
-              // buildDomTree.js 是一个箭头函数表达式，需要将其赋值给 window.buildDomTreeFunction
-              // 脚本格式: (args = {...}) => { ... }
-              (window as any).buildDomTreeFunction = eval(`(${params.domScript})`);
-
-              // 检查函数是否被定义
-              if (typeof (window as any).buildDomTreeFunction !== 'function') {
-                return { error: 'buildDomTreeFunction not defined after script execution' };
-              }
-
-              // 调用函数
-              return (window as any).buildDomTreeFunction(params.args);
-            } catch (error: any) {
-              console.error('DOM script evaluation error:', error);
-              return { error: error.message, stack: error.stack };
-            }
-          }, { args, domScript });
+          domAnalysis = await this.evaluateDomScript(this.page, domScript, args);
 
           // 检查是否有错误
           if (domAnalysis && domAnalysis.error) {
@@ -426,48 +487,11 @@ export class DOMService {
       });
 
       // Extract interactive elements directly from DOM analysis result
-      const interactiveElements: EnhancedDOMElement[] = [];
-
-      // Process all nodes from the DOM analysis map to find interactive ones
-      let elementIndex = 0;
-      Object.keys(domAnalysis.map).forEach(id => {
-        const node = domAnalysis.map[id];
+      const interactiveElements = this.extractInteractiveElements(domAnalysis);
 
-        // Include all interactive nodes, assign index if not present
-        if (node.isInteractive) {
-          const textContent = this.extractTextFromNode(node, domAnalysis.map);
-
-          const element: EnhancedDOMElement = {
-            index: node.highlightIndex !== undefined ? node.highlightIndex : elementIndex++,
-            tag: node.tagName?.toLowerCase() || 'unknown',
-            text: textContent,
-            attributes: node.attributes || {},
-            xpath: node.xpath || '',
-            cssSelector: node.cssSelector || '',
-            isVisible: node.isVisible || false,
-            isClickable: true,
-            isTopElement: true,
-            highlightIndex: node.highlightIndex !== undefined ? node.highlightIndex : (elementIndex - 1),
-            boundingRect: node.rect ? {
-              x: node.rect.x || 0,
-              y: node.rect.y || 0,
-              width: node.rect.width || 0,
-              height: node.rect.height || 0,
-              top: node.rect.y || 0,
-              bottom: (node.rect.y || 0) + (node.rect.height || 0),
-              left: node.rect.x || 0,
-              right: (node.rect.x || 0) + (node.rect.width || 0)
-            } as DOMRect : undefined,
-            isInViewport: node.isInViewport || false,
-            // 🔧 修复：添加我们新增的元素分类字段
-            interactionType: node.interactionType || 'none',
-            isInputElement: node.isInputElement || false,
-            isClickableOnly: node.isClickableOnly || false
-          };
-
-          interactiveElements.push(element);
-        }
-      });
+      // 主文档之后进入iframe，索引接着主文档往后编号
+      const nextIndex = Math.max(domAnalysis.nextIndex || 0, ...interactiveElements.map(element => element.index + 1));
+      interactiveElements.push(...await this.buildFrameElements(domScript, args, nextIndex));
 
       // Sort by highlight index to maintain order
       interactiveElements.sort((a, b) => a.index - b.index);
@@ -489,6 +513,291 @@ export class DOMService {
     }
   }
 
+  /**
+   * 在页面或frame中执行 buildDomTree.js
+   */
+  private async evaluateDomScript(target: any, domScript: string, args: any): Promise<any> {
+    return target.evaluate((params: any) => {
+      try {
+        // 清除之前的函数定义
+        delete (window as any).buildDomTreeFunction;
+
+        // buildDomTree.js 是一个箭头函数表达式，需要将其赋值给 window.buildDomTreeFunction
+        // 脚本格式: (args = {...}) => { ... }
+        (window as any).buildDomTreeFunction = eval(`(${params.domScript})`);
+
+        // 检查函数是否被定义
+        if (typeof (window as any).buildDomTreeFunction !== 'function') {
+          return { error: 'buildDomTreeFunction not defined after script execution' };
+        }
+
+        // 调用函数
+        return (window as any).buildDomTreeFunction(params.args);
+      } catch (error: any) {
+        console.error('DOM script evaluation error:', error);
+        return { error: error.message, stack: error.stack };
+      }
+    }, { args, domScript });
+  }
+
+  /**
+   * 从 buildDomTree.js 的结果中提取可交互元素
+   *
+   * iframe 中的元素坐标相对于iframe，offset 是iframe在主视口中的位置
+   */
+  private extractInteractiveElements(domAnalysis: any, framePath?: string[], offset: { x: number; y: number } = { x: 0, y: 0 }): EnhancedDOMElement[] {
+    const interactiveElements: EnhancedDOMElement[] = [];
+
+    // Process all nodes from the DOM analysis map to find interactive ones
+    let elementIndex = 0;
+    Object.keys(domAnalysis.map).forEach(id => {
+      const node = domAnalysis.map[id];
+
+      // iframe 中没有索引的元素会和其他frame的索引冲突，直接跳过
+      if (framePath && node.highlightIndex === undefined) {
+        return;
+      }
+
+      // Include all interactive nodes, assign index if not present
+      if (node.isInteractive) {
+        const textContent = this.extractTextFromNode(node, domAnalysis.map);
+
+        const element: EnhancedDOMElement = {
+          index: node.highlightIndex !== undefined ? node.highlightIndex : elementIndex++,
+          tag: node.tagName?.toLowerCase() || 'unknown',
+          text: textContent,
+          attributes: node.attributes || {},
+          xpath: node.xpath || '',
+          cssSelector: node.cssSelector || '',
+          isVisible: node.isVisible || false,
+          isClickable: true,
+          isTopElement: true,
+          highlightIndex: node.highlightIndex !== undefined ? node.highlightIndex : (elementIndex - 1),
+          boundingRect: node.rect ? {
+            x: (node.rect.x || 0) + offset.x,
+            y: (node.rect.y || 0) + offset.y,
+            width: node.rect.width || 0,
+            height: node.rect.height || 0,
+            top: (node.rect.y || 0) + offset.y,
+            bottom: (node.rect.y || 0) + (node.rect.height || 0) + offset.y,
+            left: (node.rect.x || 0) + offset.x,
+            right: (node.rect.x || 0) + (node.rect.width || 0) + offset.x
+          } as DOMRect : undefined,
+          isInViewport: node.isInViewport || false,
+          // 🔧 修复：添加我们新增的元素分类字段
+          interactionType: node.interactionType || 'none',
+          isInputElement: node.isInputElement || false,
+          isClickableOnly: node.isClickableOnly || false,
+          framePath,
+          inShadowRoot: node.inShadowRoot || undefined,
+        };
+
+        interactiveElements.push(element);
+      }
+    });
+
+    return interactiveElements;
+  }
+
+  /**
+   * 🖼️ 逐个分析iframe（包括跨域iframe），支付表单、嵌入式登录框通常都在iframe里
+   *
+   * 通过 Playwright 的 frame 执行脚本，不受同源策略限制；
+   * iframe元素会被打上 data-browser-use-frame 标记，framePath 记录从主文档到元素所在frame的选择器链。
+   */
+  private async buildFrameElements(domScript: string, args: any, startIndex: number): Promise<EnhancedDOMElement[]> {
+    const elements: EnhancedDOMElement[] = [];
+    let nextIndex = startIndex;
+
+    const visit = async (parentFrame: any, parentPath: string[]): Promise<void> => {
+      if (parentPath.length >= MAX_FRAME_DEPTH) {
+        return;
+      }
+
+      for (const frame of parentFrame.childFrames()) {
+        if (frame.isDetached()) continue;
+
+        try {
+          const frameElement = await frame.frameElement();
+          // 不可见的iframe（统计、预加载）跳过
+          const box = await frameElement.boundingBox();
+          if (!box || box.width === 0 || box.height === 0) continue;
+
+          const framePath = [...parentPath, await this.getFrameSelector(frameElement)];
+          const analysis = await this.evaluateDomScript(frame, domScript, { ...args, startIndex: nextIndex });
+          if (analysis && !analysis.error && analysis.map) {
+            const frameElements = this.extractInteractiveElements(analysis, framePath, { x: box.x, y: box.y });
+            elements.push(...frameElements);
+            nextIndex = Math.max(analysis.nextIndex || nextIndex, ...frameElements.map(element => element.index + 1));
+            logger.debug(`🖼️ iframe ${frame.url()} 中找到 ${frameElements.length} 个可交互元素`, 'DOMService');
+          } else if (analysis?.error) {
+            logger.debug(`iframe ${frame.url()} DOM analysis failed: ${analysis.error}`, 'DOMService');
+          }
+
+          await visit(frame, framePath);
+        } catch (error) {
+          // frame 可能在分析过程中被移除或导航
+          logger.debug(`Failed to analyze iframe ${frame.url()}: ${error}`, 'DOMService');
+        }
+      }
+    };
+
+    await visit(this.page.mainFrame(), []);
+    return elements;
+  }
+
+  /**
+   * ♿ 从浏览器无障碍树构建元素（accessibility 模式）
+   *
+   * 不注入脚本、不修改页面，元素用角色、可访问名称和状态描述；
+   * 定位时使用 getByRole(role, { name }).nth(n)，所以页面重新渲染后索引依然有效。
+   */
+  private async buildAccessibilityElements(): Promise<EnhancedDOMElement[]> {
+    const elements: EnhancedDOMElement[] = [];
+
+    const visit = async (frame: any, framePath: string[]): Promise<void> => {
+      let snapshot = '';
+      try {
+        snapshot = await frame.locator('body').ariaSnapshot({ timeout: 5000 });
+      } catch (error) {
+        logger.debug(`Failed to read accessibility tree of ${frame.url()}: ${error}`, 'DOMService');
+        return;
+      }
+
+      const frameElements = this.createAccessibilityElements(parseAriaSnapshot(snapshot), elements.length, framePath);
+      elements.push(...frameElements);
+      if (framePath.length > 0) {
+        logger.debug(`🖼️ iframe ${frame.url()} 中找到 ${frameElements.length} 个可交互元素`, 'DOMService');
+      }
+
+      if (framePath.length >= MAX_FRAME_DEPTH) {
+        return;
+      }
+      for (const child of frame.childFrames()) {
+        if (child.isDetached()) continue;
+        try {
+          const frameElement = await child.frameElement();
+          const box = await frameElement.boundingBox();
+          if (!box || box.width === 0 || box.height === 0) continue;
+          await visit(child, [...framePath, await this.getFrameSelector(frameElement)]);
+        } catch (error) {
+          logger.debug(`Failed to analyze iframe ${child.url()}: ${error}`, 'DOMService');
+        }
+      }
+    };
+
+    await visit(this.page.mainFrame(), []);
+
+    elements.forEach(element => this.elementCache.set(`index_${element.index}`, element));
+    logger.info(`♿ 无障碍树中找到 ${elements.length} 个可交互元素`, 'DOMService');
+    return elements;
+  }
+
+  /**
+   * 把无障碍节点转换成元素；nth 按 getByRole 的匹配规则计数（没有名称时匹配该角色的所有元素）
+   */
+  private createAccessibilityElements(nodes: AccessibilityNode[], startIndex: number, framePath: string[]): EnhancedDOMElement[] {
+    const elements: EnhancedDOMElement[] = [];
+    const occurrences = new Map<string, number>();
+    const count = (key: string): number => {
+      const seen = occurrences.get(key) || 0;
+      occurrences.set(key, seen + 1);
+      return seen;
+    };
+
+    for (const node of nodes) {
+      if (!INTERACTIVE_ROLES.includes(node.role)) continue;
+
+      const roleCount = count(node.role);
+      const nth = node.name ? count(`${node.role}|${node.name}`) : roleCount;
+      const isInput = INPUT_ROLES.includes(node.role);
+
+      const attributes: Record<string, string> = { role: node.role };
+      if (node.url) attributes.href = node.url;
+      if (isInput && node.value) attributes.value = node.value;
+
+      elements.push({
+        index: startIndex + elements.length,
+        tag: node.role,
+        role: node.role,
+        text: node.name || (isInput ? '' : node.value || ''),
+        attributes,
+        ariaStates: Object.keys(node.states).length > 0 ? node.states : undefined,
+        xpath: '',
+        isVisible: true,
+        isClickable: node.states.disabled !== true,
+        isInteractive: true,
+        interactionType: isInput ? 'input' : 'click',
+        isInputElement: isInput,
+        isClickableOnly: !isInput,
+        framePath: framePath.length > 0 ? framePath : undefined,
+        roleLocator: { role: node.role, name: node.name, nth },
+      });
+    }
+
+    return elements;
+  }
+
+  /**
+   * 在父frame中定位iframe元素的选择器：优先用唯一的 id/name/title（重放时仍然有效），否则打上标记
+   */
+  private async getFrameSelector(frameElement: any): Promise<string> {
+    return frameElement.evaluate((element: Element, markerAttribute: string) => {
+      const root = element.getRootNode() as Document | ShadowRoot;
+      const tag = element.tagName.toLowerCase();
+      for (const attribute of ['id', 'name', 'title']) {
+        const value = element.getAttribute(attribute);
+        if (value) {
+          const selector = `${tag}[${attribute}="${CSS.escape(value)}"]`;
+          if (root.querySelectorAll(selector).length === 1) {
+            return selector;
+          }
+        }
+      }
+
+      let marker = element.getAttribute(markerAttribute);
+      if (!marker) {
+        marker = Math.random().toString(36).substring(2, 8);
+        element.setAttribute(markerAttribute, marker);
+      }
+      return `[${markerAttribute}="${marker}"]`;
+    }, FRAME_ATTRIBUTE);
+  }
+
+  /**
+   * 元素所在的定位范围：主文档是 page，iframe 中是逐层的 frameLocator
+   */
+  getFrameScope(framePath?: string[]): any {
+    let scope = this.page;
+    for (const selector of framePath || []) {
+      scope = scope.frameLocator(selector);
+    }
+    return scope;
+  }
+
+  /**
+   * 按索引定位元素，iframe 中的元素通过缓存的 framePath 定位
+   */
+  getIndexedLocator(index: number): any {
+    const cachedElement = this.elementCache.get(`index_${index}`);
+    const scope = this.getFrameScope(cachedElement?.framePath);
+
+    // accessibility 模式下页面上没有索引属性
+    const roleLocator = cachedElement?.roleLocator;
+    if (roleLocator) {
+      const locator = roleLocator.name
+        ? scope.getByRole(roleLocator.role, { name: roleLocator.name, exact: true })
+        : scope.getByRole(roleLocator.role);
+      return locator.nth(roleLocator.nth);
+    }
+
+    return scope.locator(`[data-browser-use-index="${index}"]`).first();
+  }
+
+  getCachedElement(index: number): EnhancedDOMElement | undefined {
+    return this.elementCache.get(`index_${index}`);
+  }
+
   private extractTextFromNode(node: any, domMap: any): string {
     if (!node || !domMap) return '';
 
@@ -840,12 +1149,14 @@ export class DOMService {
   }
 
   async locateElement(locator: ElementLocator): Promise<any> {
+    const framePath = locator.framePath || (locator.index !== undefined ? this.getCachedElement(locator.index)?.framePath : undefined);
+    const scope = this.getFrameScope(framePath);
     const strategies = [
       () => this.locateByIndex(locator.index),
-      () => this.locateByCSSSelector(locator.cssSelector),
-      () => this.locateByXPath(locator.xpath),
-      () => this.locateByText(locator.text),
-      () => this.locateByAttributes(locator.attributes)
+      () => this.locateByCSSSelector(locator.cssSelector, scope),
+      () => this.locateByXPath(locator.xpath, scope),
+      () => this.locateByText(locator.text, scope),
+      () => this.locateByAttributes(locator.attributes, scope)
     ];
 
     for (const strategy of strategies) {
@@ -873,9 +1184,9 @@ export class DOMService {
 
     logger.info(`🔍 尝试定位元素 index: ${index}`, 'DOMService');
 
-    // 策略1: 通过data-browser-use-index属性查找
+    // 策略1: 通过data-browser-use-index属性查找（CSS选择器会穿透开放的 Shadow DOM）
     try {
-      const element = await this.page.locator(`[data-browser-use-index="${index}"]`).first();
+      const element = this.getIndexedLocator(index);
       if (await element.count() > 0) {
         logger.info(`✅ 通过data-browser-use-index找到元素 ${index}`, 'DOMService');
         return element;
@@ -887,19 +1198,20 @@ export class DOMService {
     // 策略2: 通过缓存的元素信息查找
     const cachedElement = this.elementCache.get(`index_${index}`);
     if (cachedElement) {
+      const scope = this.getFrameScope(cachedElement.framePath);
       try {
         // 尝试通过CSS选择器查找
         if (cachedElement.cssSelector) {
-          const element = await this.page.locator(cachedElement.cssSelector).first();
+          const element = await scope.locator(cachedElement.cssSelector).first();
           if (await element.count() > 0) {
             logger.info(`✅ 通过缓存CSS选择器找到元素 ${index}`, 'DOMService');
             return element;
           }
         }
 
-        // 尝试通过XPath查找
-        if (cachedElement.xpath) {
-          const element = await this.page.locator(`xpath=${cachedElement.xpath}`).first();
+        // 尝试通过XPath查找（XPath 无法进入 Shadow DOM）
+        if (cachedElement.xpath && !cachedElement.inShadowRoot) {
+          const element = await scope.locator(`xpath=${cachedElement.xpath}`).first();
           if (await element.count() > 0) {
             logger.info(`✅ 通过缓存XPath找到元素 ${index}`, 'DOMService');
             return element;
@@ -908,7 +1220,7 @@ export class DOMService {
 
         // 尝试通过文本内容查找
         if (cachedElement.text && cachedElement.text.trim()) {
-          const element = await this.page.locator(`text="${cachedElement.text.trim()}"`).first();
+          const element = await scope.locator(`text="${cachedElement.text.trim()}"`).first();
           if (await element.count() > 0) {
             logger.info(`✅ 通过缓存文本找到元素 ${index}`, 'DOMService');
             return element;
@@ -919,7 +1231,11 @@ export class DOMService {
       }
     }
 
-    // 策略3: 重新扫描页面，按顺序查找第index个交互元素
+    // 策略3: 重新扫描页面，按顺序查找第index个交互元素（只适用于主文档）
+    if (cachedElement?.framePath) {
+      logger.warn(`❌ 无法在iframe中找到元素 ${index}`, 'DOMService');
+      return null;
+    }
     try {
       const interactiveElements = await this.page.locator('button, a[href], input, textarea, select, [onclick], [role="button"], [role="link"], [tabindex]:not([tabindex="-1"])').all();
       if (interactiveElements.length > index) {
@@ -934,11 +1250,11 @@ export class DOMService {
     return null;
   }
 
-  private async locateByCSSSelector(cssSelector?: string): Promise<any> {
+  private async locateByCSSSelector(cssSelector?: string, scope: any = this.page): Promise<any> {
     if (!cssSelector) return null;
 
     try {
-      const element = await this.page.locator(cssSelector).first();
+      const element = await scope.locator(cssSelector).first();
       const count = await element.count();
       return count > 0 ? element : null;
     } catch (error) {
@@ -946,11 +1262,11 @@ export class DOMService {
     }
   }
 
-  private async locateByXPath(xpath?: string): Promise<any> {
+  private async locateByXPath(xpath?: string, scope: any = this.page): Promise<any> {
     if (!xpath) return null;
 
     try {
-      const element = await this.page.locator(`xpath=${xpath}`).first();
+      const element = await scope.locator(`xpath=${xpath}`).first();
       const count = await element.count();
       return count > 0 ? element : null;
     } catch (error) {
@@ -958,23 +1274,23 @@ export class DOMService {
     }
   }
 
-  private async locateByText(text?: string): Promise<any> {
+  private async locateByText(text?: string, scope: any = this.page): Promise<any> {
     if (!text) return null;
 
     try {
       // Try exact text match first
-      let element = await this.page.locator(`text="${text}"`).first();
+      let element = await scope.locator(`text="${text}"`).first();
       let count = await element.count();
 
       if (count === 0) {
         // Try partial text match
-        element = await this.page.locator(`text=${text}`).first();
+        element = await scope.locator(`text=${text}`).first();
         count = await element.count();
       }
 
       if (count === 0) {
         // Try case-insensitive match
-        element = await this.page.locator(`text=/${text}/i`).first();
+        element = await scope.locator(`text=/${text}/i`).first();
         count = await element.count();
       }
 
@@ -984,7 +1300,7 @@ export class DOMService {
     }
   }
 
-  private async locateByAttributes(attributes?: Record<string, string>): Promise<any> {
+  private async locateByAttributes(attributes?: Record<string, string>, scope: any = this.page): Promise<any> {
     if (!attributes || Object.keys(attributes).length === 0) return null;
 
     try {
@@ -996,7 +1312,7 @@ export class DOMService {
       });
 
       const selector = selectors.join('');
-      const element = await this.page.locator(selector).first();
+      const element = await scope.locator(selector).first();
       const count = await element.count();
       return count > 0 ? element : null;
     } catch (error) {
@@ -1024,17 +1340,18 @@ export class DOMService {
     logger.debug(`Attempting to relocate element: ${originalElement.tag}[${originalElement.index}]`, 'DOMService');
 
     // Try multiple strategies to find the element again
+    const scope = this.getFrameScope(originalElement.framePath);
     const strategies = [
       // Try by CSS selector first (most reliable)
-      () => originalElement.cssSelector ? this.locateByCSSSelector(originalElement.cssSelector) : null,
+      () => originalElement.cssSelector ? this.locateByCSSSelector(originalElement.cssSelector, scope) : null,
       // Try by XPath
-      () => originalElement.xpath ? this.locateByXPath(originalElement.xpath) : null,
+      () => originalElement.xpath && !originalElement.inShadowRoot ? this.locateByXPath(originalElement.xpath, scope) : null,
       // Try by text content
-      () => originalElement.text ? this.locateByText(originalElement.text) : null,
+      () => originalElement.text ? this.locateByText(originalElement.text, scope) : null,
       // Try by attributes
-      () => this.locateByAttributes(originalElement.attributes),
+      () => this.locateByAttributes(originalElement.attributes, scope),
       // Try by similar elements (same tag + similar attributes)
-      () => this.locateSimilarElement(originalElement)
+      () => this.locateSimilarElement(originalElement, scope)
     ];
 
     for (const strategy of strategies) {
@@ -1055,10 +1372,10 @@ export class DOMService {
     throw new Error(`Failed to relocate element: ${originalElement.tag}[${originalElement.index}]`);
   }
 
-  private async locateSimilarElement(originalElement: EnhancedDOMElement): Promise<any> {
+  private async locateSimilarElement(originalElement: EnhancedDOMElement, scope: any = this.page): Promise<any> {
     try {
       // Find elements with same tag
-      const elements = await this.page.locator(originalElement.tag).all();
+      const elements = await scope.locator(originalElement.tag).all();
 
       for (const element of elements) {
         // Check if attributes match
@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Action, AgentHistory, AgentStep, DOMState } from '../types';
+import { Helpers } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+export interface RunSummary {
+  runId: string;
+  task: string;
+  success: boolean;
+  completed: boolean;
+  steps: number;
+  totalDuration: number;
+  startTime: Date;
+  directory: string;
+}
+
+export interface RunStepDiff {
+  stepNumber: number;
+  a?: string;       // 运行A中该步骤的描述
+  b?: string;       // 运行B中该步骤的描述
+  same: boolean;
+}
+
+export interface RunDiff {
+  a: RunSummary;
+  b: RunSummary;
+  firstDivergentStep?: number;
+  steps: RunStepDiff[];
+}
+
+export interface PruneOptions {
+  keep?: number;          // 保留最近的N次运行
+  olderThanDays?: number; // 删除早于N天的运行
+}
+
+const HISTORY_FILE = 'history.json';
+const FINAL_DOM_FILE = 'final-dom.json';
+const LOG_FILE = 'run.log';
+const SCREENSHOT_DIR = 'screenshots';
+const HAR_FILE = 'network.har';
+const TRACE_FILE = 'trace.zip';
+const VIDEO_DIR = 'videos';
+
+/**
+ * 运行记录服务 - 把每次代理运行持久化到磁盘
+ *
+ * 每次运行一个目录：history.json、每步截图、最终DOM快照和运行日志，
+ * 方便事后排查任务为什么失败。
+ */
+export class RunHistoryService {
+  private baseDir: string;
+
+  constructor(baseDir: string = path.join(process.cwd(), 'runs')) {
+    this.baseDir = baseDir;
+  }
+
+  getBaseDirectory(): string {
+    return this.baseDir;
+  }
+
+  getRunDirectory(runId: string): string {
+    return path.join(this.baseDir, runId);
+  }
+
+  /**
+   * 创建新的运行目录，返回运行ID
+   */
+  createRun(): string {
+    const runId = `${Helpers.getTimestamp()}_${Math.random().toString(36).substring(2, 6)}`;
+    fs.mkdirSync(path.join(this.getRunDirectory(runId), SCREENSHOT_DIR), { recursive: true });
+    return runId;
+  }
+
+  saveScreenshot(runId: string, stepNumber: number, base64: string): string {
+    const fileName = `step-${String(stepNumber).padStart(3, '0')}.jpg`;
+    const filePath = path.join(this.getRunDirectory(runId), SCREENSHOT_DIR, fileName);
+    fs.writeFileSync(filePath, Buffer.from(base64, 'base64'));
+    return filePath;
+  }
+
+  /**
+   * 运行目录中HAR文件的路径（文件在浏览器会话关闭后才会写入）
+   */
+  getHarPath(runId: string): string {
+    return path.join(this.getRunDirectory(runId), HAR_FILE);
+  }
+
+  /**
+   * 运行目录中Playwright trace的路径（浏览器会话关闭后写入）
+   */
+  getTracePath(runId: string): string {
+    return path.join(this.getRunDirectory(runId), TRACE_FILE);
+  }
+
+  /**
+   * 运行目录中存放录制视频的目录
+   */
+  getVideoDirectory(runId: string): string {
+    return path.join(this.getRunDirectory(runId), VIDEO_DIR);
+  }
+
+  /**
+   * 列出运行中保存的截图，按步骤排序
+   */
+  listScreenshots(runId: string): Array<{ stepNumber: number; path: string }> {
+    const dir = path.join(this.getRunDirectory(runId), SCREENSHOT_DIR);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(dir)
+      .map(fileName => ({ fileName, match: /^step-(\d+)\.jpg$/.exec(fileName) }))
+      .filter(entry => entry.match)
+      .map(entry => ({ stepNumber: parseInt(entry.match![1], 10), path: path.join(dir, entry.fileName) }))
+      .sort((a, b) => a.stepNumber - b.stepNumber);
+  }
+
+  getScreenshotPath(runId: string, stepNumber: number): string | null {
+    const screenshot = this.listScreenshots(runId).find(entry => entry.stepNumber === stepNumber);
+    return screenshot ? screenshot.path : null;
+  }
+
+  saveFinalDOM(runId: string, domState: DOMState): void {
+    const { screenshot, ...rest } = domState;
+    this.writeJSON(path.join(this.getRunDirectory(runId), FINAL_DOM_FILE), rest);
+  }
+
+  appendLog(runId: string, line: string): void {
+    fs.appendFileSync(path.join(this.getRunDirectory(runId), LOG_FILE), line + '\n');
+  }
+
+  saveHistory(runId: string, history: AgentHistory): void {
+    // 截图已经单独保存，不再重复写入JSON
+    const steps = history.steps.map(step => step.domState?.screenshot
+      ? { ...step, domState: { ...step.domState, screenshot: undefined } }
+      : step);
+    this.writeJSON(path.join(this.getRunDirectory(runId), HISTORY_FILE), { ...history, steps });
+  }
+
+  loadRun(runId: string): AgentHistory {
+    const filePath = path.join(this.getRunDirectory(runId), HISTORY_FILE);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+
+    return RunHistoryService.readHistoryFile(filePath);
+  }
+
+  /**
+   * 读取 history.json，并还原其中的日期字段
+   */
+  static readHistoryFile(filePath: string): AgentHistory {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return {
+      ...raw,
+      startTime: new Date(raw.startTime),
+      endTime: raw.endTime ? new Date(raw.endTime) : undefined,
+      steps: (raw.steps || []).map((step: any) => ({ ...step, timestamp: new Date(step.timestamp) })),
+    };
+  }
+
+  getRunSummary(runId: string): RunSummary {
+    const history = this.loadRun(runId);
+    return {
+      runId,
+      task: history.task,
+      success: history.success,
+      completed: history.completed,
+      steps: history.steps.length,
+      totalDuration: history.totalDuration,
+      startTime: history.startTime,
+      directory: this.getRunDirectory(runId),
+    };
+  }
+
+  /**
+   * 列出所有运行记录，最新的在前
+   */
+  listRuns(): RunSummary[] {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+
+    const summaries: RunSummary[] = [];
+    for (const entry of fs.readdirSync(this.baseDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      try {
+        summaries.push(this.getRunSummary(entry.name));
+      } catch (error) {
+        // 运行中或被中断的目录还没有history.json
+        logger.debug(`Skipping incomplete run ${entry.name}: ${error}`, 'RunHistoryService');
+      }
+    }
+
+    return summaries.sort((x, y) => y.startTime.getTime() - x.startTime.getTime());
+  }
+
+  /**
+   * 逐步比较两次运行，找出从哪一步开始出现分歧
+   */
+  diffRuns(runIdA: string, runIdB: string): RunDiff {
+    const historyA = this.loadRun(runIdA);
+    const historyB = this.loadRun(runIdB);
+    const total = Math.max(historyA.steps.length, historyB.steps.length);
+    const steps: RunStepDiff[] = [];
+
+    for (let i = 0; i < total; i++) {
+      const stepA = historyA.steps[i];
+      const stepB = historyB.steps[i];
+      const a = stepA ? RunHistoryService.describeStep(stepA) : undefined;
+      const b = stepB ? RunHistoryService.describeStep(stepB) : undefined;
+      steps.push({ stepNumber: i + 1, a, b, same: a === b });
+    }
+
+    return {
+      a: this.getRunSummary(runIdA),
+      b: this.getRunSummary(runIdB),
+      firstDivergentStep: steps.find(step => !step.same)?.stepNumber,
+      steps,
+    };
+  }
+
+  /**
+   * 清理旧的运行记录，返回被删除的运行ID
+   */
+  pruneRuns(options: PruneOptions): string[] {
+    const runs = this.listRuns();
+    const cutoff = options.olderThanDays !== undefined
+      ? Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000
+      : undefined;
+
+    const removed: string[] = [];
+    runs.forEach((run, position) => {
+      const beyondKeep = options.keep !== undefined && position >= options.keep;
+      const tooOld = cutoff !== undefined && run.startTime.getTime() < cutoff;
+      if (beyondKeep || tooOld) {
+        fs.rmSync(run.directory, { recursive: true, force: true });
+        removed.push(run.runId);
+      }
+    });
+
+    return removed;
+  }
+
+  static describeStep(step: AgentStep): string {
+    const status = step.result?.success ? 'ok' : 'failed';
+    return `${RunHistoryService.describeAction(step.action)} -> ${status}`;
+  }
+
+  static describeAction(action: Action): string {
+    const a = action as any;
+    switch (action.type) {
+      case 'navigate':
+        return `navigate ${a.url}`;
+      case 'type':
+        return `type [${a.index}] "${Helpers.truncateText(String(a.text), 40)}"`;
+      case 'scroll':
+        return `scroll ${a.direction}`;
+      case 'wait':
+        return `wait ${a.seconds}s`;
+      case 'done':
+        return `done (${a.success ? 'success' : 'failure'})`;
+      default:
+        return typeof a.index === 'number' ? `${action.type} [${a.index}]` : action.type;
+    }
+  }
+
+  private writeJSON(filePath: string, data: any): void {
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+  }
+}
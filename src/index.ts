@@ -2,8 +2,15 @@
 
 export { Agent } from './agent/service';
 export { BrowserSession } from './browser/session';
+export { BrowserPool } from './browser/browser-pool';
+export { DomainPolicy, DomainNotAllowedError } from './browser/domain-policy';
+export { NetworkInterceptor, AD_TRACKER_PATTERNS } from './browser/network-interceptor';
 export { Controller } from './controller/service';
 export { DOMService } from './dom/service';
+export { ContentSanitizer } from './dom/content-sanitizer';
+export { parseAriaSnapshot, INTERACTIVE_ROLES } from './dom/accessibility-tree';
+export { diffDOMStates, formatDOMDiff } from './dom/dom-diff';
+export { ElementIdentityMap, computeFingerprint, resolveFingerprint } from './dom/element-identity';
 
 // Enhanced browser components
 export { MasterController } from './browser/master-controller';
@@ -22,6 +29,15 @@ export { PlanningService } from './planning/service';
 export { ReflectionService } from './reflection/service';
 export { ErrorRecoveryService } from './recovery/service';
 export { PerformanceMonitoringService } from './monitoring/service';
+export { Replayer } from './replay/service';
+export { RunHistoryService } from './history/service';
+export { ProfileStore } from './profiles/service';
+export { ApprovalService, ApprovalQueue, createCliApprovalHandler, DEFAULT_APPROVAL_CATEGORIES } from './approval/service';
+export { SecretVault } from './secrets/service';
+export { UsageTracker, DEFAULT_MODEL_PRICES } from './usage/service';
+export { ApiServer } from './server/service';
+export { TaskQueue } from './server/task-queue';
+export { McpServer } from './mcp/service';
 
 export { logger } from './utils/logger';
 export { Validator } from './utils/validation';
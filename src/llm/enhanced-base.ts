@@ -1,7 +1,8 @@
-import { LLMConfig, LLMEndpoint, LLMStrategy } from '../types';
+import { JSONSchema, LLMConfig, LLMEndpoint, LLMStrategy } from '../types';
 import { MultiProviderLLMManager } from './manager';
 import { OpenAILLM } from './openai';
 import { GoogleLLM } from './google';
+import { AnthropicLLM } from './anthropic';
 import { logger } from '../utils/logger';
 
 export interface LLMMessage {
@@ -20,6 +21,9 @@ export interface LLMResponse {
     completionTokens: number;
     totalTokens: number;
   };
+  model?: string;     // 实际响应的模型
+  provider?: string;
+  endpoint?: string;  // 多端点模式下实际使用的端点ID
 }
 
 /**
@@ -80,9 +84,17 @@ export class EnhancedBaseLLM {
             break;
             
           case 'anthropic':
-            // TODO: 实现Anthropic LLM类
-            logger.warn(`Anthropic LLM 暂未实现，跳过端点: ${endpoint.model}`, 'EnhancedBaseLLM');
-            continue;
+            llmInstance = new AnthropicLLM({
+              provider: endpoint.provider,
+              model: endpoint.model,
+              apiKey: endpoint.apiKey,
+              baseURL: endpoint.baseURL,
+              temperature: this.config.temperature,
+              maxTokens: this.config.maxTokens,
+              strategy: this.config.strategy,
+              endpoints: [endpoint]
+            });
+            break;
             
           default:
             logger.warn(`未知的LLM供应商: ${endpoint.provider}`, 'EnhancedBaseLLM');
@@ -103,14 +115,14 @@ export class EnhancedBaseLLM {
   /**
    * 🎯 生成响应（智能端点选择）
    */
-  async generateResponse(messages: LLMMessage[], useStructuredOutput: boolean = false): Promise<LLMResponse> {
+  async generateResponse(messages: LLMMessage[], useStructuredOutput: boolean = false, outputSchema?: JSONSchema): Promise<LLMResponse> {
     const maxRetries = this.config.maxRetries || 3;
     const userControl = this.config.userControl || {};
     let lastError: Error | null = null;
 
     // 🔧 如果启用了“总是重试所有端点”模式，尝试所有端点
     if (userControl.alwaysRetryAll) {
-      return this.tryAllEndpoints(messages, useStructuredOutput);
+      return this.tryAllEndpoints(messages, useStructuredOutput, outputSchema);
     }
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
@@ -121,7 +133,7 @@ export class EnhancedBaseLLM {
         if (!selectedEndpoint) {
           if (userControl.enableFallbackMode !== false) {
             logger.warn('没有可用的端点，尝试回退模式', 'EnhancedBaseLLM');
-            return this.tryFallbackMode(messages, useStructuredOutput);
+            return this.tryFallbackMode(messages, useStructuredOutput, outputSchema);
           }
           throw new Error('没有可用的LLM端点');
         }
@@ -139,7 +151,7 @@ export class EnhancedBaseLLM {
         
         try {
           // 执行请求
-          const response = await llmInstance.generateResponse(messages, useStructuredOutput);
+          const response = await llmInstance.generateResponse(messages, useStructuredOutput, outputSchema);
           const responseTime = Date.now() - startTime;
 
           // 更新成功统计
@@ -147,7 +159,7 @@ export class EnhancedBaseLLM {
           this.manager.updateEndpointHealth(endpointId, true, responseTime);
 
           logger.debug(`请求成功: ${instanceKey} (${responseTime}ms)`, 'EnhancedBaseLLM');
-          return response;
+          return { ...response, endpoint: endpointId };
 
         } catch (error) {
           const responseTime = Date.now() - startTime;
@@ -221,7 +233,7 @@ export class EnhancedBaseLLM {
   /**
    * 🔄 尝试所有端点（总是重试所有端点模式）
    */
-  private async tryAllEndpoints(messages: LLMMessage[], useStructuredOutput: boolean): Promise<LLMResponse> {
+  private async tryAllEndpoints(messages: LLMMessage[], useStructuredOutput: boolean, outputSchema?: JSONSchema): Promise<LLMResponse> {
     const availableEndpoints = this.manager.getAvailableEndpoints();
     
     if (availableEndpoints.length === 0) {
@@ -244,7 +256,7 @@ export class EnhancedBaseLLM {
         logger.info(`尝试端点: ${instanceKey}`, 'EnhancedBaseLLM');
         const startTime = Date.now();
         
-        const response = await llmInstance.generateResponse(messages, useStructuredOutput);
+        const response = await llmInstance.generateResponse(messages, useStructuredOutput, outputSchema);
         const responseTime = Date.now() - startTime;
 
         // 更新成功统计
@@ -252,7 +264,7 @@ export class EnhancedBaseLLM {
         this.manager.updateEndpointHealth(endpointId, true, responseTime);
 
         logger.info(`端点成功: ${instanceKey} (${responseTime}ms)`, 'EnhancedBaseLLM');
-        return response;
+        return { ...response, endpoint: endpointId };
 
       } catch (error) {
         lastError = error as Error;
@@ -269,7 +281,7 @@ export class EnhancedBaseLLM {
   /**
    * 🚫 回退模式（强制使用不健康的端点）
    */
-  private async tryFallbackMode(messages: LLMMessage[], useStructuredOutput: boolean): Promise<LLMResponse> {
+  private async tryFallbackMode(messages: LLMMessage[], useStructuredOutput: boolean, outputSchema?: JSONSchema): Promise<LLMResponse> {
     logger.warn('进入回退模式，尝试使用所有端点（包括不健康的）', 'EnhancedBaseLLM');
     
     const allEndpoints = this.config.endpoints;
@@ -285,10 +297,10 @@ export class EnhancedBaseLLM {
         }
 
         logger.warn(`回退模式尝试: ${instanceKey}`, 'EnhancedBaseLLM');
-        const response = await llmInstance.generateResponse(messages, useStructuredOutput);
+        const response = await llmInstance.generateResponse(messages, useStructuredOutput, outputSchema);
         
         logger.info(`回退模式成功: ${instanceKey}`, 'EnhancedBaseLLM');
-        return response;
+        return { ...response, endpoint: this.getEndpointId(endpoint) };
 
       } catch (error) {
         lastError = error as Error;
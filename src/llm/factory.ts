@@ -1,4 +1,4 @@
-import { LLMConfig, LLMEndpoint } from '../types';
+import { JSONSchema, LLMConfig, LLMEndpoint } from '../types';
 import { BaseLLM } from './base';
 import { OpenAILLM } from './openai';
 import { AnthropicLLM } from './anthropic';
@@ -34,6 +34,31 @@ export class LLMFactory {
     throw new Error('无效的LLM配置：既不是多供应商配置也不是单一供应商配置');
   }
   
+  /**
+   * 🤖 创建供 Agent 使用的LLM实例
+   * 多供应商模式下返回的 EnhancedBaseLLM 不是 BaseLLM，这里用适配器包一层，
+   * 让它也能生成提示词并上报用量
+   */
+  static createAgentLLM(config: LLMConfig): BaseLLM {
+    const llm = this.createLLM(config);
+    if (llm instanceof BaseLLM) {
+      return llm;
+    }
+
+    const enhanced = llm;
+    return new (class extends BaseLLM {
+      async generateResponse(messages: any[], useStructuredOutput?: boolean, outputSchema?: JSONSchema) {
+        return enhanced.generateResponse(messages, useStructuredOutput, outputSchema);
+      }
+    })({
+      provider: 'multi-provider' as any,
+      model: 'enhanced',
+      apiKey: 'enhanced',
+      strategy: 'priority' as any,
+      endpoints: []
+    });
+  }
+
   /**
    * 🔄 创建传统单一供应商LLM实例（向后兼容）
    */
@@ -1,6 +1,6 @@
 import OpenAI from 'openai';
 import { BaseLLM, LLMMessage, LLMResponse } from './base';
-import { LLMConfig } from '../types';
+import { JSONSchema, LLMConfig } from '../types';
 import { logger } from '../utils/logger';
 
 // Google Gemini function schema for Agent response (OpenAI compatible)
@@ -46,57 +46,88 @@ const GOOGLE_AGENT_FUNCTION = {
         description: 'Decision about tab switching based on available tabs and current task'
       },
       action: {
-        type: 'object',
-        description: 'The specific action to execute',
-        properties: {
-          type: {
-            type: 'string',
-            enum: ['click', 'type', 'key', 'scroll', 'navigate', 'wait', 'done'],
-            description: 'Type of action to perform'
-          },
-          index: {
-            type: 'integer',
-            description: 'Element index for click/type actions'
-          },
-          text: {
-            type: 'string',
-            description: 'Text to type for type actions'
-          },
-          key: {
-            type: 'string',
-            description: 'Key to press for key actions (e.g., "Enter", "Tab", "Escape")'
+        type: 'array',
+        description: 'Ordered list of actions to execute in sequence. Later actions are skipped if the page changes.',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['click', 'type', 'key', 'scroll', 'navigate', 'wait', 'done', 'tap', 'swipe', 'click_at', 'drag_at', 'scroll_at'],
+              description: 'Type of action to perform'
+            },
+            index: {
+              type: 'integer',
+              description: 'Element index for click/type/tap actions, or the element to swipe inside for swipe actions'
+            },
+            text: {
+              type: 'string',
+              description: 'Text to type for type actions'
+            },
+            key: {
+              type: 'string',
+              description: 'Key to press for key actions (e.g., "Enter", "Tab", "Escape")'
+            },
+            coordinate: {
+              type: 'array',
+              items: { type: 'number' },
+              minItems: 2,
+              maxItems: 2,
+              description: 'X,Y viewport coordinates for click_at, drag_at (start point) and scroll_at actions'
+            },
+            endCoordinate: {
+              type: 'array',
+              items: { type: 'number' },
+              minItems: 2,
+              maxItems: 2,
+              description: 'X,Y viewport coordinates where drag_at actions end'
+            },
+            button: {
+              type: 'string',
+              enum: ['left', 'right', 'middle'],
+              description: 'Mouse button for click_at actions'
+            },
+            clickCount: {
+              type: 'integer',
+              description: 'Number of clicks for click_at actions (2 for double click)'
+            },
+            amount: {
+              type: 'number',
+              description: 'Scroll distance in pixels for scroll and scroll_at actions'
+            },
+            direction: {
+              type: 'string',
+              enum: ['up', 'down', 'left', 'right'],
+              description: 'Direction for scroll, scroll_at and swipe actions (for swipe: the finger movement)'
+            },
+            distance: {
+              type: 'number',
+              description: 'Swipe distance in pixels for swipe actions'
+            },
+            url: {
+              type: 'string',
+              description: 'URL for navigate actions'
+            },
+            seconds: {
+              type: 'number',
+              description: 'Number of seconds to wait for wait actions'
+            },
+            success: {
+              type: 'boolean',
+              description: 'Whether the task was completed successfully for done actions'
+            },
+            message: {
+              type: 'string',
+              description: 'Completion message for done actions'
+            },
+            data: {
+              description: 'Structured result for done actions when the task defines an output schema'
+            }
           },
-          coordinate: {
-            type: 'array',
-            items: { type: 'number' },
-            minItems: 2,
-            maxItems: 2,
-            description: 'X,Y coordinates for scroll actions'
-          },
-          direction: {
-            type: 'string',
-            enum: ['up', 'down', 'left', 'right'],
-            description: 'Direction for scroll actions'
-          },
-          url: {
-            type: 'string',
-            description: 'URL for navigate actions'
-          },
-          seconds: {
-            type: 'number',
-            description: 'Number of seconds to wait for wait actions'
-          },
-          success: {
-            type: 'boolean',
-            description: 'Whether the task was completed successfully for done actions'
-          },
-          message: {
-            type: 'string',
-            description: 'Completion message for done actions'
-          }
-        },
-        required: ['type'],
-        additionalProperties: false
+          required: ['type'],
+          additionalProperties: false
+        }
       }
     },
     required: ['thinking', 'evaluation_previous_goal', 'memory', 'next_goal', 'tab_decision', 'action'],
@@ -120,7 +151,7 @@ export class GoogleLLM extends BaseLLM {
     logger.info(`Using Google Gemini via OpenAI-compatible API at ${baseURL}`, 'GoogleLLM');
   }
 
-  async generateResponse(messages: LLMMessage[], useStructuredOutput: boolean = false): Promise<LLMResponse> {
+  async generateResponse(messages: LLMMessage[], useStructuredOutput: boolean = false, outputSchema?: JSONSchema): Promise<LLMResponse> {
     try {
       logger.debug(`Sending request to Google Gemini with model: ${this.config.model}`, 'GoogleLLM');
 
@@ -177,7 +208,7 @@ export class GoogleLLM extends BaseLLM {
       if (useStructuredOutput) {
         requestParams.tools = [{
           type: 'function',
-          function: GOOGLE_AGENT_FUNCTION
+          function: { ...GOOGLE_AGENT_FUNCTION, parameters: this.buildToolParameters(GOOGLE_AGENT_FUNCTION.parameters, messages, outputSchema) }
         }];
         requestParams.tool_choice = {
           type: 'function',
@@ -245,17 +276,15 @@ export class GoogleLLM extends BaseLLM {
         throw new Error('No content in Google Gemini response');
       }
 
-      const usage = response.usage ? {
-        promptTokens: response.usage.prompt_tokens,
-        completionTokens: response.usage.completion_tokens,
-        totalTokens: response.usage.total_tokens,
-      } : undefined;
+      const usage = this.parseUsage(response);
 
       logger.debug(`Google Gemini response received, tokens: ${usage?.totalTokens || 'unknown'}`, 'GoogleLLM');
 
       return {
         content,
         usage,
+        model: response.model || this.config.model,
+        provider: 'google',
       };
     } catch (error) {
       logger.error('Google Gemini API request failed', error as Error, 'GoogleLLM');
@@ -263,4 +292,30 @@ export class GoogleLLM extends BaseLLM {
     }
   }
 
+  /**
+   * 解析token用量：OpenAI兼容接口返回 usage，部分代理只返回 Gemini 原生的 usageMetadata
+   */
+  private parseUsage(response: any): LLMResponse['usage'] {
+    if (response.usage) {
+      const promptTokens = response.usage.prompt_tokens || 0;
+      const completionTokens = response.usage.completion_tokens || 0;
+      return {
+        promptTokens,
+        completionTokens,
+        totalTokens: response.usage.total_tokens || promptTokens + completionTokens,
+      };
+    }
+
+    if (response.usageMetadata) {
+      const promptTokens = response.usageMetadata.promptTokenCount || 0;
+      const completionTokens = response.usageMetadata.candidatesTokenCount || 0;
+      return {
+        promptTokens,
+        completionTokens,
+        totalTokens: response.usageMetadata.totalTokenCount || promptTokens + completionTokens,
+      };
+    }
+
+    return undefined;
+  }
 }
@@ -1,6 +1,6 @@
 import OpenAI from 'openai';
 import { BaseLLM, LLMMessage, LLMResponse } from './base';
-import { LLMConfig } from '../types';
+import { JSONSchema, LLMConfig } from '../types';
 import { logger } from '../utils/logger';
 
 // Function schema for Agent response to ensure structured JSON output
@@ -46,57 +46,88 @@ const AGENT_RESPONSE_FUNCTION = {
         description: 'Decision about tab switching based on available tabs and current task'
       },
       action: {
-        type: 'object',
-        description: 'The specific action to execute',
-        properties: {
-          type: {
-            type: 'string',
-            enum: ['click', 'type', 'key', 'scroll', 'navigate', 'wait', 'done', 'key_press'],
-            description: 'Type of action to perform'
-          },
-          index: {
-            type: 'integer',
-            description: 'Element index for click/type actions'
-          },
-          text: {
-            type: 'string',
-            description: 'Text to type for type actions'
-          },
-          key: {
-            type: 'string',
-            description: 'Key to press for key actions (e.g., "Enter", "Tab", "Escape")'
-          },
-          coordinate: {
-            type: 'array',
-            items: { type: 'number' },
-            minItems: 2,
-            maxItems: 2,
-            description: 'X,Y coordinates for scroll actions'
-          },
-          direction: {
-            type: 'string',
-            enum: ['up', 'down', 'left', 'right'],
-            description: 'Direction for scroll actions'
-          },
-          url: {
-            type: 'string',
-            description: 'URL for navigate actions'
-          },
-          seconds: {
-            type: 'number',
-            description: 'Number of seconds to wait for wait actions'
-          },
-          success: {
-            type: 'boolean',
-            description: 'Whether the task was completed successfully for done actions'
+        type: 'array',
+        description: 'Ordered list of actions to execute in sequence. Later actions are skipped if the page changes.',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['click', 'type', 'key', 'scroll', 'navigate', 'wait', 'done', 'key_press', 'tap', 'swipe', 'click_at', 'drag_at', 'scroll_at'],
+              description: 'Type of action to perform'
+            },
+            index: {
+              type: 'integer',
+              description: 'Element index for click/type/tap actions, or the element to swipe inside for swipe actions'
+            },
+            text: {
+              type: 'string',
+              description: 'Text to type for type actions'
+            },
+            key: {
+              type: 'string',
+              description: 'Key to press for key actions (e.g., "Enter", "Tab", "Escape")'
+            },
+            coordinate: {
+              type: 'array',
+              items: { type: 'number' },
+              minItems: 2,
+              maxItems: 2,
+              description: 'X,Y viewport coordinates for click_at, drag_at (start point) and scroll_at actions'
+            },
+            endCoordinate: {
+              type: 'array',
+              items: { type: 'number' },
+              minItems: 2,
+              maxItems: 2,
+              description: 'X,Y viewport coordinates where drag_at actions end'
+            },
+            button: {
+              type: 'string',
+              enum: ['left', 'right', 'middle'],
+              description: 'Mouse button for click_at actions'
+            },
+            clickCount: {
+              type: 'integer',
+              description: 'Number of clicks for click_at actions (2 for double click)'
+            },
+            amount: {
+              type: 'number',
+              description: 'Scroll distance in pixels for scroll and scroll_at actions'
+            },
+            direction: {
+              type: 'string',
+              enum: ['up', 'down', 'left', 'right'],
+              description: 'Direction for scroll, scroll_at and swipe actions (for swipe: the finger movement)'
+            },
+            distance: {
+              type: 'number',
+              description: 'Swipe distance in pixels for swipe actions'
+            },
+            url: {
+              type: 'string',
+              description: 'URL for navigate actions'
+            },
+            seconds: {
+              type: 'number',
+              description: 'Number of seconds to wait for wait actions'
+            },
+            success: {
+              type: 'boolean',
+              description: 'Whether the task was completed successfully for done actions'
+            },
+            message: {
+              type: 'string',
+              description: 'Completion message for done actions'
+            },
+            data: {
+              description: 'Structured result for done actions when the task defines an output schema'
+            }
           },
-          message: {
-            type: 'string',
-            description: 'Completion message for done actions'
-          }
-        },
-        required: ['type'],
-        additionalProperties: false
+          required: ['type'],
+          additionalProperties: false
+        }
       }
     },
     required: ['thinking', 'evaluation_previous_goal', 'memory', 'next_goal', 'tab_decision', 'action'],
@@ -120,7 +151,7 @@ export class OpenAILLM extends BaseLLM {
     }
   }
 
-  async generateResponse(messages: LLMMessage[], useStructuredOutput: boolean = false): Promise<LLMResponse> {
+  async generateResponse(messages: LLMMessage[], useStructuredOutput: boolean = false, outputSchema?: JSONSchema): Promise<LLMResponse> {
     try {
       logger.debug(`Sending request to OpenAI with model: ${this.config.model}`, 'OpenAILLM');
 
@@ -173,7 +204,7 @@ export class OpenAILLM extends BaseLLM {
       if (useStructuredOutput) {
         requestParams.tools = [{
           type: 'function',
-          function: AGENT_RESPONSE_FUNCTION
+          function: { ...AGENT_RESPONSE_FUNCTION, parameters: this.buildToolParameters(AGENT_RESPONSE_FUNCTION.parameters, messages, outputSchema) }
         }];
         requestParams.tool_choice = {
           type: 'function',
@@ -218,6 +249,8 @@ export class OpenAILLM extends BaseLLM {
       return {
         content,
         usage,
+        model: response.model || this.config.model,
+        provider: 'openai',
       };
     } catch (error) {
       logger.error('OpenAI API request failed', error as Error, 'OpenAILLM');
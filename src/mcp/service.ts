@@ -0,0 +1,379 @@
+import * as readline from 'readline';
+import { BrowserSession } from '../browser/session';
+import { Controller } from '../controller/service';
+import { MessageManager } from '../message/manager';
+import { ContentSanitizer } from '../dom/content-sanitizer';
+import { SecretVault } from '../secrets/service';
+import { Action, ActionResult, JSONSchema } from '../types';
+import { logger } from '../utils/logger';
+
+// 支持的MCP协议版本，最新的放在最前
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const DOM_STATE_URI = 'sentra://dom-state';
+const PAGE_STATE_URI = 'sentra://page-state';
+const SCREENSHOT_URI = 'sentra://screenshot';
+
+// JSON-RPC 错误码
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+export interface McpServerOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  secrets?: Record<string, string>;
+  enhancedMode?: boolean;   // 是否启用增强DOM检测，与 run 命令保持一致
+}
+
+interface McpContent {
+  type: 'text' | 'image';
+  text?: string;
+  data?: string;
+  mimeType?: string;
+}
+
+interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+  toAction?: (args: any) => Action;   // 没有 toAction 的工具由 callTool 单独处理
+}
+
+class JsonRpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+  }
+}
+
+const INDEX_SCHEMA: JSONSchema = { type: 'integer', minimum: 0, description: 'Element index from browser_get_state' };
+
+// 对外暴露的工具：除 get_state/screenshot/list_tabs 外都转换成 Controller 的操作执行
+const TOOLS: McpTool[] = [
+  {
+    name: 'browser_get_state',
+    description: 'Get the current URL, title, open tabs and the indexed list of interactive elements. Call this before using element indexes.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'browser_navigate',
+    description: 'Navigate the current tab to a URL.',
+    inputSchema: { type: 'object', properties: { url: { type: 'string' } }, required: ['url'] },
+    toAction: args => ({ type: 'navigate', url: args.url }),
+  },
+  {
+    name: 'browser_click',
+    description: 'Click the element with the given index.',
+    inputSchema: { type: 'object', properties: { index: INDEX_SCHEMA }, required: ['index'] },
+    toAction: args => ({ type: 'click', index: args.index }),
+  },
+  {
+    name: 'browser_type',
+    description: 'Type text into the input element with the given index. Use {{secret:name}} placeholders for credentials.',
+    inputSchema: { type: 'object', properties: { index: INDEX_SCHEMA, text: { type: 'string' } }, required: ['index', 'text'] },
+    toAction: args => ({ type: 'type', index: args.index, text: args.text }),
+  },
+  {
+    name: 'browser_scroll',
+    description: 'Scroll the page up or down.',
+    inputSchema: {
+      type: 'object',
+      properties: { direction: { type: 'string', enum: ['up', 'down'] }, amount: { type: 'integer', minimum: 1, description: 'Pixels to scroll' } },
+      required: ['direction'],
+    },
+    toAction: args => ({ type: 'scroll', direction: args.direction, amount: args.amount }),
+  },
+  {
+    name: 'browser_go_back',
+    description: 'Go back in the current tab history.',
+    inputSchema: { type: 'object', properties: {} },
+    toAction: () => ({ type: 'go_back' }),
+  },
+  {
+    name: 'browser_extract_data',
+    description: 'Extract text (or an attribute) from elements matching a CSS selector or XPath.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        selector: { type: 'string' },
+        xpath: { type: 'string' },
+        attribute: { type: 'string' },
+        multiple: { type: 'boolean' },
+      },
+    },
+    toAction: args => ({ type: 'extract_data', selector: args.selector, xpath: args.xpath, attribute: args.attribute, multiple: args.multiple }),
+  },
+  {
+    name: 'browser_screenshot',
+    description: 'Take a screenshot of the current tab.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'browser_list_tabs',
+    description: 'List open tabs.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'browser_new_tab',
+    description: 'Open a new tab, optionally navigating to a URL.',
+    inputSchema: { type: 'object', properties: { url: { type: 'string' } } },
+    toAction: args => ({ type: 'new_tab', url: args.url }),
+  },
+  {
+    name: 'browser_switch_tab',
+    description: 'Switch to the tab with the given index.',
+    inputSchema: { type: 'object', properties: { tabIndex: { type: 'integer', minimum: 0 } }, required: ['tabIndex'] },
+    toAction: args => ({ type: 'switch_tab', tabIndex: args.tabIndex }),
+  },
+  {
+    name: 'browser_close_tab',
+    description: 'Close the tab with the given index (the current tab if omitted).',
+    inputSchema: { type: 'object', properties: { tabIndex: { type: 'integer', minimum: 0 } } },
+    toAction: args => ({ type: 'close_tab', tabIndex: args.tabIndex }),
+  },
+];
+
+/**
+ * MCP服务器 - 让外部AI客户端通过 Model Context Protocol 操作浏览器
+ *
+ * 使用 stdio 传输（每行一条 JSON-RPC 消息），
+ * 工具调用通过 Controller 执行，复用元素定位、域名策略和密钥替换逻辑；
+ * 当前页面状态以资源的形式提供。
+ */
+export class McpServer {
+  private browserSession: BrowserSession;
+  private controller: Controller;
+  private options: McpServerOptions;
+  private messageManager = new MessageManager('');
+  private contentSanitizer = new ContentSanitizer();
+  private secretVault?: SecretVault;
+  private detachRedactor?: () => void;
+  private queue: Promise<void> = Promise.resolve();   // 工具调用串行执行，同一时间只操作一个页面
+  private rl?: readline.Interface;
+  private startPromise?: Promise<void>;
+
+  constructor(browserSession: BrowserSession, options: McpServerOptions = {}) {
+    this.browserSession = browserSession;
+    this.options = { input: process.stdin, output: process.stdout, enhancedMode: true, ...options };
+
+    if (options.secrets && Object.keys(options.secrets).length > 0) {
+      this.secretVault = new SecretVault(options.secrets);
+      const vault = this.secretVault;
+      this.detachRedactor = logger.addRedactor(text => vault.redact(text));
+    }
+    this.controller = new Controller(browserSession, undefined, undefined, this.secretVault);
+  }
+
+  /**
+   * 开始读取输入流，输入结束时 resolve
+   */
+  listen(): Promise<void> {
+    this.rl = readline.createInterface({ input: this.options.input!, terminal: false });
+    logger.info('🔌 MCP服务器已启动 (stdio)', 'McpServer');
+
+    this.rl.on('line', line => {
+      if (line.trim()) {
+        this.handleLine(line).catch(error => logger.error('处理MCP消息失败', error as Error, 'McpServer'));
+      }
+    });
+
+    return new Promise(resolve => this.rl!.once('close', () => resolve()));
+  }
+
+  async close(): Promise<void> {
+    this.rl?.close();
+    await this.queue;
+    if (this.browserSession.isStarted()) {
+      await this.browserSession.close();
+    }
+    this.detachRedactor?.();
+    this.detachRedactor = undefined;
+  }
+
+  getTools(): Array<Omit<McpTool, 'toAction'>> {
+    return TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+  }
+
+  /**
+   * 处理一条JSON-RPC消息，返回响应（通知没有响应）
+   */
+  async handleMessage(message: any): Promise<any | null> {
+    const isRequest = message && typeof message === 'object' && message.id !== undefined && message.id !== null;
+
+    try {
+      if (!message || typeof message !== 'object' || Array.isArray(message) || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+        throw new JsonRpcError(INVALID_REQUEST, 'Invalid JSON-RPC request');
+      }
+
+      const result = await this.dispatch(message.method, message.params || {});
+      return isRequest ? { jsonrpc: '2.0', id: message.id, result } : null;
+    } catch (error) {
+      if (!isRequest) {
+        logger.debug(`MCP notification ${message?.method} failed: ${error}`, 'McpServer');
+        return null;
+      }
+      const code = error instanceof JsonRpcError ? error.code : INTERNAL_ERROR;
+      return { jsonrpc: '2.0', id: message.id, error: { code, message: error instanceof Error ? error.message : String(error) } };
+    }
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.send({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+
+    const response = await this.handleMessage(message);
+    if (response) {
+      this.send(response);
+    }
+  }
+
+  private async dispatch(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: 'sentra-auto-browser', version: '1.0.0' },
+        };
+      }
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+        return {};
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: this.getTools() };
+      case 'tools/call':
+        return this.serialize(() => this.callTool(params.name, params.arguments || {}));
+      case 'resources/list':
+        return {
+          resources: [
+            { uri: PAGE_STATE_URI, name: 'Page state', description: 'Current URL, title and interactive elements as text', mimeType: 'text/plain' },
+            { uri: DOM_STATE_URI, name: 'DOM state', description: 'Current DOMState as JSON', mimeType: 'application/json' },
+            { uri: SCREENSHOT_URI, name: 'Screenshot', description: 'Screenshot of the current tab', mimeType: 'image/jpeg' },
+          ],
+        };
+      case 'resources/read':
+        return this.serialize(() => this.readResource(params.uri));
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private async callTool(name: string, args: any): Promise<{ content: McpContent[]; isError?: boolean }> {
+    const tool = TOOLS.find(t => t.name === name);
+    if (!tool) {
+      throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    try {
+      await this.ensureStarted();
+
+      if (name === 'browser_get_state') {
+        return { content: [{ type: 'text', text: await this.getPageStateText() }] };
+      }
+      if (name === 'browser_screenshot') {
+        return { content: [{ type: 'image', data: await this.controller.takeScreenshot(), mimeType: 'image/jpeg' }] };
+      }
+      if (name === 'browser_list_tabs') {
+        return { content: [{ type: 'text', text: this.getTabsText() }] };
+      }
+
+      const result = await this.controller.executeAction(tool.toAction!(args));
+      return { content: [{ type: 'text', text: this.formatResult(result) }], isError: !result.success };
+    } catch (error) {
+      // 工具执行失败作为结果返回给客户端的模型，而不是协议错误
+      const message = error instanceof Error ? error.message : String(error);
+      return { content: [{ type: 'text', text: this.redact(`Error: ${message}`) }], isError: true };
+    }
+  }
+
+  private async readResource(uri: string): Promise<{ contents: any[] }> {
+    await this.ensureStarted();
+
+    switch (uri) {
+      case PAGE_STATE_URI:
+        return { contents: [{ uri, mimeType: 'text/plain', text: await this.getPageStateText() }] };
+      case DOM_STATE_URI: {
+        const { screenshot, diff, ...domState } = this.contentSanitizer.sanitizeDOMState(await this.getSafeDOMState());
+        return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(domState) }] };
+      }
+      case SCREENSHOT_URI:
+        return { contents: [{ uri, mimeType: 'image/jpeg', blob: await this.controller.takeScreenshot() }] };
+      default:
+        throw new JsonRpcError(INVALID_PARAMS, `Unknown resource: ${uri}`);
+    }
+  }
+
+  private async getSafeDOMState() {
+    const domState = await this.controller.getCurrentState();
+    return this.secretVault ? this.secretVault.redactDeep(domState) : domState;
+  }
+
+  private async getPageStateText(): Promise<string> {
+    const domState = this.contentSanitizer.sanitizeDOMState(await this.getSafeDOMState());
+    return `${this.getTabsText()}\n\n${this.messageManager.formatBrowserState(domState)}`;
+  }
+
+  private getTabsText(): string {
+    const tabs = this.browserSession.getAllTabsInfo();
+    const current = this.browserSession.getCurrentTabIndex();
+    if (tabs.length === 0) {
+      return `Open tabs: ${this.browserSession.getTabCount()} (current index: ${current})`;
+    }
+
+    const lines = tabs.map((tab: any, index: number) =>
+      `${index === current ? '*' : ' '} [${index}] ${tab.title || ''} ${tab.url || ''}`.trimEnd());
+    return `Open tabs (current marked with *):\n${lines.join('\n')}`;
+  }
+
+  private formatResult(result: ActionResult): string {
+    const parts = [result.success ? result.message || 'OK' : `Failed: ${result.message || result.error}`];
+    if (result.extractedContent && result.extractedContent !== result.message) {
+      parts.push(result.extractedContent);
+    }
+    return this.redact(parts.join('\n'));
+  }
+
+  private async ensureStarted(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = (async () => {
+        if (!this.browserSession.isStarted()) {
+          await this.browserSession.start();
+        }
+        if (this.options.enhancedMode && !this.browserSession.isEnhancedModeEnabled()) {
+          await this.browserSession.enableEnhancedMode();
+        }
+      })();
+      // 启动失败时允许下次调用重试
+      this.startPromise.catch(() => { this.startPromise = undefined; });
+    }
+    await this.startPromise;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private redact(text: string): string {
+    return this.secretVault ? this.secretVault.redact(text) : text;
+  }
+
+  private send(message: any): void {
+    this.options.output!.write(JSON.stringify(message) + '\n');
+  }
+}
@@ -25,10 +25,10 @@ export class PlanningService {
       
       // Generate plan using LLM
       const planPrompt = this.buildPlanningPrompt(task, currentDOMState, relevantMemories, maxSteps);
-      const response = await this.llm.generateResponse([
+      const response = await this.llm.generateTrackedResponse([
         { role: 'system', content: this.getPlanningSystemPrompt() },
         { role: 'user', content: planPrompt }
-      ]);
+      ], false, 'planning');
 
       // Parse the plan response
       const planData = this.parsePlanResponse(response.content);
@@ -182,6 +182,8 @@ Available actions:
 - scroll: Scroll the page
 - wait: Wait for specified time
 - hover: Hover over elements
+- tap: Tap elements (touch devices)
+- swipe: Swipe up/down/left/right (touch devices, carousels)
 - key_press: Press keyboard keys
 - select: Select from dropdown
 - wait_for_element: Wait for element to appear
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger';
+
+export interface StoredProfileSummary {
+  name: string;
+  path: string;
+  cookies: number;
+  origins: number;      // 保存了 localStorage 的源数量
+  updatedAt: Date;
+}
+
+/**
+ * 浏览器配置文件存储 - 按名称保存和读取 Playwright storageState（cookies + localStorage）
+ *
+ * 和 userDataDir 不同，storageState 只是一个JSON文件，不会被浏览器进程锁住，
+ * 登录一次后可以让多个无头代理同时使用同一份登录状态。
+ */
+export class ProfileStore {
+  private baseDir: string;
+
+  constructor(baseDir: string = path.join(process.cwd(), 'profiles')) {
+    this.baseDir = baseDir;
+  }
+
+  getBaseDirectory(): string {
+    return this.baseDir;
+  }
+
+  getProfilePath(name: string): string {
+    ProfileStore.validateName(name);
+    return path.join(this.baseDir, `${name}.json`);
+  }
+
+  exists(name: string): boolean {
+    return fs.existsSync(this.getProfilePath(name));
+  }
+
+  /**
+   * 保存 storageState，已存在时覆盖
+   */
+  save(name: string, storageState: any): string {
+    if (!storageState || !Array.isArray(storageState.cookies)) {
+      throw new Error(`Invalid storage state for profile ${name}: missing cookies`);
+    }
+
+    const filePath = this.getProfilePath(name);
+    fs.mkdirSync(this.baseDir, { recursive: true });
+    const state = { cookies: storageState.cookies, origins: storageState.origins || [] };
+    fs.writeFileSync(filePath, JSON.stringify(state, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    logger.info(`💾 已保存配置文件 ${name} (${state.cookies.length} cookies, ${state.origins.length} origins)`, 'ProfileStore');
+    return filePath;
+  }
+
+  load(name: string): any {
+    const filePath = this.getProfilePath(name);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Browser profile not found: ${name}. Available profiles: ${this.list().map(p => p.name).join(', ') || 'none'}`);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  /**
+   * 列出已保存的配置文件，最近更新的在前
+   */
+  list(): StoredProfileSummary[] {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+
+    const profiles: StoredProfileSummary[] = [];
+    for (const fileName of fs.readdirSync(this.baseDir)) {
+      if (!fileName.endsWith('.json')) continue;
+
+      const filePath = path.join(this.baseDir, fileName);
+      try {
+        const state = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        profiles.push({
+          name: fileName.slice(0, -'.json'.length),
+          path: filePath,
+          cookies: Array.isArray(state.cookies) ? state.cookies.length : 0,
+          origins: Array.isArray(state.origins) ? state.origins.length : 0,
+          updatedAt: fs.statSync(filePath).mtime,
+        });
+      } catch (error) {
+        logger.warn(`跳过无法解析的配置文件 ${filePath}: ${error instanceof Error ? error.message : String(error)}`, 'ProfileStore');
+      }
+    }
+
+    return profiles.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  delete(name: string): boolean {
+    const filePath = this.getProfilePath(name);
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+    fs.rmSync(filePath);
+    return true;
+  }
+
+  static validateName(name: string): void {
+    if (typeof name !== 'string' || !/^[A-Za-z0-9_.-]+$/.test(name) || name.startsWith('.')) {
+      throw new Error(`Invalid profile name: ${name} (use letters, digits, "_", "-" and ".")`);
+    }
+  }
+}
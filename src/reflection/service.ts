@@ -23,10 +23,10 @@ export class ReflectionService {
 
       const reflectionPrompt = this.buildReflectionPrompt(task, recentSteps, currentDOMState);
       
-      const response = await this.llm.generateResponse([
+      const response = await this.llm.generateTrackedResponse([
         { role: 'system', content: this.getReflectionSystemPrompt() },
         { role: 'user', content: reflectionPrompt }
-      ]);
+      ], false, 'reflection');
 
       const reflection = this.parseReflectionResponse(response.content, stepNumber);
       
@@ -65,10 +65,10 @@ export class ReflectionService {
     try {
       const progressPrompt = this.buildProgressAnalysisPrompt(task, allSteps, currentDOMState);
       
-      const response = await this.llm.generateResponse([
+      const response = await this.llm.generateTrackedResponse([
         { role: 'system', content: this.getProgressAnalysisSystemPrompt() },
         { role: 'user', content: progressPrompt }
-      ]);
+      ], false, 'reflection');
 
       return this.parseProgressResponse(response.content);
     } catch (error) {
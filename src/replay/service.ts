@@ -0,0 +1,356 @@
+import { ElementHandle, Locator } from 'playwright';
+import { BrowserSession } from '../browser/session';
+import { Controller } from '../controller/service';
+import { RunHistoryService } from '../history/service';
+import { BaseLLM } from '../llm/base';
+import { SecretVault } from '../secrets/service';
+import { Action, ActionResult, AgentHistory, AgentStep, DOMElement, DOMState } from '../types';
+import { logger } from '../utils/logger';
+import { computeFingerprint, resolveFingerprint } from '../dom/element-identity';
+import { parseAriaSnapshot } from '../dom/accessibility-tree';
+import { EnhancedDOMElement } from '../dom/service';
+
+export interface ReplayOptions {
+  llm?: BaseLLM;             // 无法匹配元素时的兜底LLM，不提供则该步骤直接失败
+  stopOnFailure?: boolean;   // 某一步失败后是否停止回放（默认 true）
+  stepDelay?: number;        // 每步之间的等待时间（毫秒）
+  skipFailedSteps?: boolean; // 跳过原始记录中本就失败的步骤（默认 true）
+  secrets?: Record<string, string>; // 录制中的 {{secret:name}} 占位符对应的真实值
+}
+
+export interface ReplayStepResult {
+  stepNumber: number;
+  originalAction: Action;
+  executedAction?: Action;
+  // exact: 原索引直接命中 / relocated: 重新定位后执行 / llm: 由LLM重新决策 / skipped / failed
+  mode: 'exact' | 'relocated' | 'llm' | 'skipped' | 'failed';
+  result?: ActionResult;
+  error?: string;
+}
+
+export interface ReplayResult {
+  task: string;
+  success: boolean;
+  steps: ReplayStepResult[];
+  relocatedCount: number;
+  llmFallbackCount: number;
+  totalDuration: number;
+}
+
+// 携带元素索引的字段及其对应的xpath字段
+const INDEX_FIELDS: Array<[string, string]> = [
+  ['index', 'xpath'],
+  ['sourceIndex', 'sourceXpath'],
+  ['targetIndex', 'targetXpath'],
+];
+
+/**
+ * 回放服务 - 不经过LLM重新执行一次录制好的 AgentHistory
+ *
+ * 每一步都通过 Controller.executeAction 执行；当页面变化导致元素索引漂移时，
+ * 先按元素指纹找回原来的元素，找不到再使用 DOMService.relocateElement，然后改写索引。
+ * 只有元素彻底找不到时才会（可选地）请求LLM重新决策这一步。
+ */
+export class Replayer {
+  private browserSession: BrowserSession;
+  private controller: Controller;
+  private options: ReplayOptions;
+  private secretVault?: SecretVault;
+
+  constructor(browserSession: BrowserSession, options: ReplayOptions = {}) {
+    this.browserSession = browserSession;
+    if (options.secrets && Object.keys(options.secrets).length > 0) {
+      this.secretVault = new SecretVault(options.secrets);
+    }
+    this.controller = new Controller(browserSession, undefined, undefined, this.secretVault);
+    this.options = {
+      stopOnFailure: true,
+      stepDelay: 500,
+      skipFailedSteps: true,
+      ...options,
+    };
+  }
+
+  /**
+   * 从JSON文件读取录制的历史记录
+   */
+  static loadHistory(filePath: string): AgentHistory {
+    return RunHistoryService.readHistoryFile(filePath);
+  }
+
+  async replay(history: AgentHistory): Promise<ReplayResult> {
+    const vault = this.secretVault;
+    const detachRedactor = vault ? logger.addRedactor(text => vault.redact(text)) : undefined;
+    try {
+      return await this.replaySteps(history);
+    } finally {
+      detachRedactor?.();
+    }
+  }
+
+  private async replaySteps(history: AgentHistory): Promise<ReplayResult> {
+    const startTime = Date.now();
+    const steps: ReplayStepResult[] = [];
+
+    logger.info(`🔁 开始回放任务: ${history.task} (${history.steps.length} 步)`, 'Replayer');
+
+    if (!this.browserSession.isStarted()) {
+      await this.browserSession.start();
+    }
+
+    for (const step of history.steps) {
+      if (this.options.skipFailedSteps && !step.result?.success) {
+        logger.info(`⏭️ 跳过原本失败的步骤 ${step.stepNumber}`, 'Replayer');
+        steps.push({ stepNumber: step.stepNumber, originalAction: step.action, mode: 'skipped' });
+        continue;
+      }
+
+      const stepResult = await this.replayStep(step, history.task);
+      steps.push(stepResult);
+
+      if (stepResult.mode === 'failed' && this.options.stopOnFailure) {
+        logger.error(`回放在步骤 ${step.stepNumber} 失败: ${stepResult.error}`, undefined, 'Replayer');
+        break;
+      }
+
+      if (this.options.stepDelay) {
+        await new Promise(resolve => setTimeout(resolve, this.options.stepDelay));
+      }
+    }
+
+    const result: ReplayResult = {
+      task: history.task,
+      success: steps.every(s => s.mode !== 'failed'),
+      steps,
+      relocatedCount: steps.filter(s => s.mode === 'relocated').length,
+      llmFallbackCount: steps.filter(s => s.mode === 'llm').length,
+      totalDuration: (Date.now() - startTime) / 1000,
+    };
+
+    if (result.success) {
+      logger.success(`回放完成: ${steps.length} 步, 重新定位 ${result.relocatedCount} 次, LLM兜底 ${result.llmFallbackCount} 次`, 'Replayer');
+    }
+
+    return result;
+  }
+
+  private async replayStep(step: AgentStep, task: string): Promise<ReplayStepResult> {
+    const stepNumber = step.stepNumber;
+    const originalAction = step.action;
+
+    try {
+      let mode: ReplayStepResult['mode'] = 'exact';
+      let action: Action | null = originalAction;
+
+      if (this.hasElementIndex(originalAction)) {
+        const currentState = await this.controller.getCurrentState();
+        const resolved = await this.resolveElementIndices(step, currentState);
+
+        if (resolved) {
+          action = resolved.action;
+          mode = resolved.relocated ? 'relocated' : 'exact';
+        } else if (this.options.llm) {
+          logger.warn(`⚠️ 步骤 ${stepNumber} 无法匹配原元素，交给LLM重新决策`, 'Replayer');
+          action = await this.askLLM(step, task, currentState);
+          mode = 'llm';
+        } else {
+          action = null;
+        }
+      }
+
+      if (!action) {
+        return { stepNumber, originalAction, mode: 'failed', error: 'Unable to match the recorded element on the current page' };
+      }
+
+      const result = await this.controller.executeAction(action);
+
+      if (result.navigationDetected) {
+        // 与Agent一致：给SPA留出加载时间
+        await new Promise(resolve => setTimeout(resolve, 1500));
+      }
+
+      return {
+        stepNumber,
+        originalAction,
+        executedAction: action,
+        mode: result.success ? mode : 'failed',
+        result,
+        error: result.success ? undefined : result.error,
+      };
+    } catch (error) {
+      return {
+        stepNumber,
+        originalAction,
+        mode: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 把录制时的元素索引映射到当前页面，返回 null 表示至少有一个元素无法匹配
+   */
+  private async resolveElementIndices(step: AgentStep, currentState: DOMState): Promise<{ action: Action; relocated: boolean } | null> {
+    const action: any = { ...step.action };
+    let relocated = false;
+
+    for (const [indexField, xpathField] of INDEX_FIELDS) {
+      if (typeof action[indexField] !== 'number') continue;
+
+      const original = this.findOriginalElement(step, indexField);
+      if (!original) {
+        // 没有录制到元素快照，只能按原索引执行
+        continue;
+      }
+
+      // 指纹能唯一找回元素时直接使用；旧的录制没有指纹，按元素快照现算
+      const resolved = resolveFingerprint(original.fingerprint || computeFingerprint(original), currentState.elements);
+      if (resolved) {
+        if (resolved.index !== action[indexField]) {
+          logger.info(`🧬 元素 ${original.tag}[${action[indexField]}] 按指纹定位到索引 ${resolved.index}`, 'Replayer');
+          action[indexField] = resolved.index;
+          delete action[xpathField];
+          relocated = true;
+        }
+        continue;
+      }
+
+      const current = currentState.elements.find(el => el.index === action[indexField]);
+      if (current && this.isSameElement(original, current)) {
+        continue;
+      }
+
+      const newIndex = await this.relocate(original, currentState);
+      if (newIndex === null) {
+        return null;
+      }
+
+      logger.info(`🎯 元素 ${original.tag}[${action[indexField]}] 已重新定位到索引 ${newIndex}`, 'Replayer');
+      action[indexField] = newIndex;
+      // 旧的xpath可能已经过时，交给BrowserSession按新索引定位
+      delete action[xpathField];
+      relocated = true;
+    }
+
+    return { action, relocated };
+  }
+
+  private findOriginalElement(step: AgentStep, indexField: string): DOMElement | undefined {
+    if (indexField === 'index' && step.targetElement) {
+      return step.targetElement;
+    }
+    const index = (step.action as any)[indexField];
+    return step.domState?.elements?.find(el => el.index === index);
+  }
+
+  private isSameElement(a: DOMElement, b: DOMElement): boolean {
+    if (a.tag !== b.tag) return false;
+    if (a.xpath && b.xpath && a.xpath === b.xpath) return true;
+    return (a.text || '').trim() === (b.text || '').trim();
+  }
+
+  /**
+   * 按录制时的元素信息在页面上重新找到元素，再确定它是当前快照中的哪个元素
+   *
+   * 不读取页面上的索引属性（accessibility 模式不会写入它），而是对照当前快照：
+   * dom 模式比较快照中的XPath，accessibility 模式比较 roleLocator。
+   */
+  private async relocate(original: EnhancedDOMElement, currentState: DOMState): Promise<number | null> {
+    const domService = this.browserSession.getDOMService();
+    if (!domService) {
+      throw new Error('Browser session not started');
+    }
+
+    // 录制时的索引属性已经过时，不能作为定位依据
+    const { ['data-browser-use-index']: _staleIndex, ...attributes } = original.attributes || {};
+    const staleSelector = (selector?: string) => selector?.includes('data-browser-use-index') ? undefined : selector;
+    const target: EnhancedDOMElement = {
+      ...original,
+      attributes,
+      xpath: staleSelector(original.xpath) || '',
+      cssSelector: staleSelector(original.cssSelector),
+    };
+
+    let locator: Locator;
+    let handle: ElementHandle | null;
+    try {
+      locator = await domService.relocateElement(target);
+      handle = await locator.elementHandle({ timeout: 2000 });
+    } catch (error) {
+      logger.debug(`Relocation failed: ${error}`, 'Replayer');
+      return null;
+    }
+    if (!handle) {
+      return null;
+    }
+
+    try {
+      // relocateElement 在原元素所在的frame里查找，只有同一frame的元素可能是它
+      const framePath = (original.framePath || []).join(' >> ');
+      const candidates = (currentState.elements as EnhancedDOMElement[])
+        .filter(element => (element.framePath || []).join(' >> ') === framePath);
+
+      return candidates.some(element => element.roleLocator)
+        ? await this.matchByRole(locator, handle, candidates, domService.getFrameScope(original.framePath))
+        : await this.matchByXPath(handle, candidates);
+    } catch (error) {
+      logger.debug(`Failed to map relocated element to the current snapshot: ${error}`, 'Replayer');
+      return null;
+    } finally {
+      await handle.dispose().catch(() => {});
+    }
+  }
+
+  /**
+   * dom 模式：在页面里一次解析所有候选元素的XPath，找出与重新定位到的节点相同的那个
+   * Shadow DOM 内的XPath从影子根开始，无法从文档解析，跳过
+   */
+  private async matchByXPath(handle: ElementHandle, candidates: EnhancedDOMElement[]): Promise<number | null> {
+    const paths = candidates
+      .filter(element => element.xpath && !element.inShadowRoot)
+      .map(element => ({ index: element.index, xpath: element.xpath }));
+
+    return handle.evaluate((found: Node, paths: Array<{ index: number; xpath: string }>) => {
+      const document = found.ownerDocument!;
+      for (const { index, xpath } of paths) {
+        try {
+          const node = document.evaluate(xpath, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null).singleNodeValue;
+          if (node === found) {
+            return index;
+          }
+        } catch {
+          // 虚拟节点（如 .../virtual-checkbox）的XPath无法解析
+        }
+      }
+      return null;
+    }, paths);
+  }
+
+  /**
+   * accessibility 模式：读出节点的角色和名称，在 getByRole 的匹配结果中确定它的序号，再对应到 roleLocator
+   */
+  private async matchByRole(locator: Locator, handle: ElementHandle, candidates: EnhancedDOMElement[], scope: any): Promise<number | null> {
+    const [node] = parseAriaSnapshot(await locator.ariaSnapshot({ timeout: 2000 }));
+    if (!node) {
+      return null;
+    }
+
+    const group = node.name ? scope.getByRole(node.role, { name: node.name, exact: true }) : scope.getByRole(node.role);
+    const nth = await group.evaluateAll((nodes: Node[], found: Node) => nodes.indexOf(found), handle);
+    const match = candidates.find(element =>
+      element.roleLocator?.role === node.role && element.roleLocator.name === node.name && element.roleLocator.nth === nth
+    );
+    return match ? match.index : null;
+  }
+
+  private async askLLM(step: AgentStep, task: string, domState: DOMState): Promise<Action> {
+    const goal = step.agentOutput?.next_goal;
+    const stepTask = goal ? `${task}\n\nCurrent sub-goal: ${goal}` : task;
+    const agentOutput = await this.options.llm!.generateAction(stepTask, domState);
+    return agentOutput.action;
+  }
+
+  private hasElementIndex(action: Action): boolean {
+    return INDEX_FIELDS.some(([field]) => typeof (action as any)[field] === 'number');
+  }
+}
@@ -0,0 +1,129 @@
+import { logger } from '../utils/logger';
+
+// 占位符格式: {{secret:name}}，名称只允许字母、数字、下划线、点和横线
+const PLACEHOLDER_PATTERN = /\{\{\s*secret:([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+/**
+ * 密钥保管库 - 让凭据不进入LLM提示词、对话历史和日志
+ *
+ * LLM只会看到 {{secret:name}} 形式的占位符；
+ * Controller 执行 type 操作时才把占位符替换成真实值，
+ * 日志和 AgentHistory 中出现的真实值会被替换回占位符。
+ */
+export class SecretVault {
+  private secrets = new Map<string, string>();
+
+  constructor(secrets: Record<string, string> = {}) {
+    for (const [name, value] of Object.entries(secrets)) {
+      this.set(name, value);
+    }
+  }
+
+  static placeholder(name: string): string {
+    return `{{secret:${name}}}`;
+  }
+
+  set(name: string, value: string): void {
+    if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+      throw new Error(`Invalid secret name: ${name}`);
+    }
+    if (typeof value !== 'string' || value.length === 0) {
+      logger.warn(`忽略空的密钥: ${name}`, 'SecretVault');
+      return;
+    }
+    this.secrets.set(name, value);
+  }
+
+  has(name: string): boolean {
+    return this.secrets.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.secrets.keys());
+  }
+
+  isEmpty(): boolean {
+    return this.secrets.size === 0;
+  }
+
+  containsPlaceholder(text: string): boolean {
+    return typeof text === 'string' && new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+  }
+
+  /**
+   * 把文本中的占位符替换为真实值，引用了不存在的密钥时抛出错误
+   */
+  resolve(text: string): string {
+    if (typeof text !== 'string') {
+      return text;
+    }
+
+    return text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+      const value = this.secrets.get(name);
+      if (value === undefined) {
+        throw new Error(`Unknown secret: ${name}. Available secrets: ${this.getNames().join(', ') || 'none'}`);
+      }
+      return value;
+    });
+  }
+
+  /**
+   * 把文本中出现的真实值替换回占位符
+   */
+  redact(text: string): string {
+    if (typeof text !== 'string' || this.secrets.size === 0) {
+      return text;
+    }
+
+    // 先替换较长的值，避免一个密钥是另一个密钥的子串时只替换一半
+    const entries = Array.from(this.secrets.entries()).sort((a, b) => b[1].length - a[1].length);
+    let result = text;
+    for (const [name, value] of entries) {
+      if (result.includes(value)) {
+        result = result.split(value).join(SecretVault.placeholder(name));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 深度遍历对象，对所有字符串做脱敏，返回新的对象（Date等非普通对象原样保留）
+   */
+  redactDeep<T>(data: T): T {
+    if (this.secrets.size === 0) {
+      return data;
+    }
+    return this.redactValue(data, new WeakMap()) as T;
+  }
+
+  private redactValue(value: any, seen: WeakMap<object, any>): any {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    if (Array.isArray(value)) {
+      const copy: any[] = [];
+      seen.set(value, copy);
+      value.forEach(item => copy.push(this.redactValue(item, seen)));
+      return copy;
+    }
+
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) {
+      return value;
+    }
+
+    const copy: Record<string, any> = {};
+    seen.set(value, copy);
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = this.redactValue(item, seen);
+    }
+    return copy;
+  }
+}
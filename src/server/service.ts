@@ -0,0 +1,356 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import { URL } from 'url';
+import { ApprovalQueue } from '../approval/service';
+import { ValidationError } from '../utils/validation';
+import { logger } from '../utils/logger';
+import { ServerTaskStatus, TaskQueue, TaskQueueOptions } from './task-queue';
+
+export interface ApiServerOptions extends TaskQueueOptions {
+  host?: string;
+  port?: number;
+  token?: string;   // 设置后所有请求都需要 Authorization: Bearer <token>
+}
+
+// 请求体上限，任务描述和输出Schema用不了这么多
+const MAX_BODY_SIZE = 1024 * 1024;
+// SSE 心跳间隔，防止代理服务器断开空闲连接
+const SSE_HEARTBEAT_INTERVAL = 15000;
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, params: string[], url: URL) => Promise<void> | void;
+
+/**
+ * API服务器 - 让其他服务通过HTTP提交和监控浏览器任务
+ *
+ * 接口：
+ * - POST /tasks                           提交任务
+ * - GET  /tasks, /tasks/:id               任务列表和状态
+ * - GET  /tasks/:id/events                SSE 实时推送步骤
+ * - POST /tasks/:id/stop                  停止任务
+ * - GET  /tasks/:id/history               执行历史
+ * - GET  /tasks/:id/screenshots[/:step]   截图
+ * - GET  /approvals, POST /approvals/:id  人工审批
+ */
+export class ApiServer {
+  private options: ApiServerOptions;
+  private queue: TaskQueue;
+  private approvalQueue: ApprovalQueue;
+  private server?: http.Server;
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [];
+
+  constructor(options: ApiServerOptions) {
+    this.options = { host: '127.0.0.1', port: 3000, ...options };
+    this.approvalQueue = options.approvalQueue || new ApprovalQueue();
+    this.queue = new TaskQueue({ ...options, approvalQueue: this.approvalQueue });
+    this.registerRoutes();
+  }
+
+  getTaskQueue(): TaskQueue {
+    return this.queue;
+  }
+
+  /**
+   * 启动服务器，返回实际监听的地址（port 为 0 时由系统分配端口）
+   */
+  async start(): Promise<{ host: string; port: number }> {
+    if (!this.options.token && !['127.0.0.1', 'localhost', '::1'].includes(this.options.host!)) {
+      logger.warn(`⚠️ API服务器监听 ${this.options.host} 且未设置访问令牌，任何能访问该地址的人都可以控制浏览器`, 'ApiServer');
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('处理API请求失败', error as Error, 'ApiServer');
+        if (!res.headersSent) {
+          this.sendJSON(res, 500, { error: 'Internal server error' });
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.server.address() as { address: string; port: number };
+    logger.info(`🌐 API服务器已启动: http://${this.options.host}:${address.port} (并发: ${this.queue.getConcurrency()})`, 'ApiServer');
+    return { host: this.options.host!, port: address.port };
+  }
+
+  /**
+   * 停止接收请求，停止所有任务并关闭浏览器
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+
+    if (server) {
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        // SSE 连接不会自己结束
+        server.closeAllConnections();
+      });
+    }
+
+    await this.queue.shutdown();
+    logger.info('🛑 API服务器已停止', 'ApiServer');
+  }
+
+  private registerRoutes(): void {
+    this.route('GET', /^\/health$/, (_req, res) => {
+      this.sendJSON(res, 200, { status: 'ok', ...this.queue.getStats() });
+    });
+
+    this.route('GET', /^\/tasks$/, (_req, res, _params, url) => {
+      const status = url.searchParams.get('status') as ServerTaskStatus | null;
+      this.sendJSON(res, 200, { tasks: this.queue.listTasks(status || undefined) });
+    });
+
+    this.route('POST', /^\/tasks$/, async (req, res) => {
+      const body = await this.readJSON(req);
+      try {
+        const task = this.queue.submit(body);
+        this.sendJSON(res, 202, task);
+      } catch (error) {
+        throw new HttpError(400, error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    this.route('GET', /^\/tasks\/([^/]+)$/, (_req, res, [id]) => {
+      this.sendJSON(res, 200, this.requireTask(id));
+    });
+
+    this.route('POST', /^\/tasks\/([^/]+)\/stop$/, async (_req, res, [id]) => {
+      this.requireTask(id);
+      const stopped = await this.queue.stop(id);
+      if (!stopped) {
+        throw new HttpError(409, `Task ${id} has already finished`);
+      }
+      this.sendJSON(res, 202, this.queue.getTask(id));
+    });
+
+    this.route('GET', /^\/tasks\/([^/]+)\/events$/, (req, res, [id]) => {
+      this.requireTask(id);
+      this.streamEvents(req, res, id);
+    });
+
+    this.route('GET', /^\/tasks\/([^/]+)\/history$/, (_req, res, [id]) => {
+      const task = this.requireTask(id);
+      const history = this.queue.getHistory(id)
+        || (task.runId ? this.queue.getRunHistoryService().loadRun(task.runId) : undefined);
+      if (!history) {
+        throw new HttpError(404, `Task ${id} has no history yet`);
+      }
+      this.sendJSON(res, 200, history);
+    });
+
+    this.route('GET', /^\/tasks\/([^/]+)\/screenshots$/, (_req, res, [id]) => {
+      const runId = this.requireRunId(id);
+      const screenshots = this.queue.getRunHistoryService().listScreenshots(runId).map(screenshot => ({
+        stepNumber: screenshot.stepNumber,
+        url: `/tasks/${id}/screenshots/${screenshot.stepNumber}`,
+      }));
+      this.sendJSON(res, 200, { screenshots });
+    });
+
+    this.route('GET', /^\/tasks\/([^/]+)\/screenshots\/(\d+)$/, (_req, res, [id, step]) => {
+      const runId = this.requireRunId(id);
+      const filePath = this.queue.getRunHistoryService().getScreenshotPath(runId, parseInt(step, 10));
+      if (!filePath) {
+        throw new HttpError(404, `No screenshot for step ${step}`);
+      }
+      // 运行记录可能在查找之后被清理（history prune），打开文件失败时按不存在处理
+      const stream = fs.createReadStream(filePath);
+      stream.once('open', () => {
+        res.writeHead(200, { 'Content-Type': 'image/jpeg' });
+        stream.pipe(res);
+      });
+      stream.on('error', error => {
+        logger.debug(`Failed to read screenshot ${filePath}: ${error}`, 'ApiServer');
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          this.sendJSON(res, 404, { error: `No screenshot for step ${step}` });
+        }
+      });
+    });
+
+    this.route('GET', /^\/approvals$/, (_req, res) => {
+      const approvals = this.approvalQueue.getPendingRequests().map(request => ({
+        ...request,
+        taskId: this.queue.getApprovalTaskId(request.id),
+      }));
+      this.sendJSON(res, 200, { approvals });
+    });
+
+    this.route('POST', /^\/approvals\/([^/]+)$/, async (req, res, [requestId]) => {
+      const body = await this.readJSON(req);
+      if (typeof body.approved !== 'boolean') {
+        throw new HttpError(400, 'Field "approved" must be a boolean');
+      }
+
+      const settled = body.approved
+        ? this.approvalQueue.approve(requestId, body.reason)
+        : this.approvalQueue.reject(requestId, body.reason);
+      if (!settled) {
+        throw new HttpError(404, `Approval request not found: ${requestId}`);
+      }
+      this.sendJSON(res, 200, { id: requestId, approved: body.approved });
+    });
+  }
+
+  private route(method: string, pattern: RegExp, handler: RouteHandler): void {
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      this.authorize(req, url);
+
+      const matches = this.routes
+        .map(route => ({ route, match: route.pattern.exec(url.pathname) }))
+        .filter(entry => entry.match);
+      if (matches.length === 0) {
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+      }
+
+      const entry = matches.find(({ route }) => route.method === req.method);
+      if (!entry) {
+        res.setHeader('Allow', matches.map(({ route }) => route.method).join(', '));
+        throw new HttpError(405, `Method ${req.method} not allowed on ${url.pathname}`);
+      }
+
+      const params = entry.match!.slice(1).map(decodeURIComponent);
+      await entry.route.handler(req, res, params, url);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (error.status === 413) {
+          // 请求体没有读完，响应后关闭连接
+          res.setHeader('Connection', 'close');
+        }
+        this.sendJSON(res, error.status, { error: error.message });
+      } else if (error instanceof ValidationError) {
+        this.sendJSON(res, 400, { error: error.message });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private authorize(req: http.IncomingMessage, url: URL): void {
+    if (!this.options.token) {
+      return;
+    }
+
+    // EventSource 不能设置请求头，允许通过查询参数传令牌
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.substring(7) : url.searchParams.get('token');
+    if (token !== this.options.token) {
+      throw new HttpError(401, 'Missing or invalid API token');
+    }
+  }
+
+  private streamEvents(req: http.IncomingMessage, res: http.ServerResponse, id: string): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    const lastEventId = parseInt(String(req.headers['last-event-id'] || '0'), 10) || 0;
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_INTERVAL);
+    let unsubscribe: (() => void) | undefined;
+
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+      res.end();
+    };
+
+    unsubscribe = this.queue.subscribe(id, event => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      // 任务结束后关闭连接
+      if (event.type === 'done') {
+        setImmediate(close);
+      }
+    }, lastEventId);
+
+    req.on('close', close);
+  }
+
+  private requireTask(id: string) {
+    const task = this.queue.getTask(id);
+    if (!task) {
+      throw new HttpError(404, `Task not found: ${id}`);
+    }
+    return task;
+  }
+
+  private requireRunId(id: string): string {
+    const task = this.requireTask(id);
+    if (!task.runId) {
+      throw new HttpError(404, `Task ${id} has no saved run (runs are saved when AGENT_SAVE_RUNS is enabled)`);
+    }
+    return task.runId;
+  }
+
+  private readJSON(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_SIZE) {
+          reject(new HttpError(413, 'Request body too large'));
+          // 不再缓存剩余数据；直接 destroy 会让客户端收不到 413 响应
+          req.removeAllListeners('data');
+          req.resume();
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      req.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        if (!text.trim()) {
+          resolve({});
+          return;
+        }
+        try {
+          const body = JSON.parse(text);
+          if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            reject(new HttpError(400, 'Request body must be a JSON object'));
+            return;
+          }
+          resolve(body);
+        } catch {
+          reject(new HttpError(400, 'Request body is not valid JSON'));
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  private sendJSON(res: http.ServerResponse, status: number, data: any): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(data));
+  }
+}
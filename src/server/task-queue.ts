@@ -0,0 +1,442 @@
+import { Agent } from '../agent/service';
+import { BrowserSession } from '../browser/session';
+import { BrowserLease, BrowserPool, BrowserPoolMetrics } from '../browser/browser-pool';
+import { LLMFactory } from '../llm/factory';
+import { ApprovalQueue } from '../approval/service';
+import { RunHistoryService } from '../history/service';
+import { ProfileStore } from '../profiles/service';
+import { Config } from '../config';
+import { AgentHistory, AgentSettings, AgentStep, ApprovalRequest, BrowserProfile, LLMConfig } from '../types';
+import { Validator } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+export type ServerTaskStatus = 'queued' | 'running' | 'completed' | 'failed' | 'stopped';
+
+export type ServerTaskEventType = 'status' | 'step' | 'approval' | 'done';
+
+// 通过API提交任务时允许覆盖的设置（只接受可以用JSON表达的字段）
+export const API_SETTING_KEYS: Array<keyof AgentSettings> = [
+  'maxSteps',
+  'maxActionsPerStep',
+  'useVision',
+  'screenshotMarks',
+  'screenshotMaxSize',
+  'temperature',
+  'enablePlanning',
+  'enableReflection',
+  'outputSchema',
+  'maxOutputValidationRetries',
+  'maxTokens',
+  'maxCost',
+  'approvalCategories',
+];
+
+export interface ServerTaskRequest {
+  task: string;
+  settings?: Partial<AgentSettings>;
+  approval?: boolean;   // 敏感操作是否需要通过 /approvals 接口人工确认
+  profile?: string;     // 使用的命名浏览器配置文件（storageState），多个任务可以共用
+}
+
+export interface ServerTaskInfo {
+  id: string;
+  task: string;
+  status: ServerTaskStatus;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  runId?: string;
+  steps: number;
+  success?: boolean;
+  error?: string;
+  stopReason?: string;
+  output?: any;
+}
+
+export interface ServerTaskEvent {
+  id: number;   // 任务内递增的序号，SSE 断线重连时用作 Last-Event-ID
+  type: ServerTaskEventType;
+  data: any;
+  timestamp: Date;
+}
+
+export interface TaskQueueOptions {
+  llmConfig: LLMConfig;
+  browserProfile: BrowserProfile;
+  agentSettings?: AgentSettings;
+  concurrency?: number;        // 同时运行的 BrowserSession 数量
+  maxFinishedTasks?: number;   // 内存中保留的已结束任务数量
+  approvalQueue?: ApprovalQueue;
+  browserPool?: BrowserPool;   // 设置后任务从浏览器池租用上下文，而不是各自启动浏览器
+}
+
+interface ServerTask {
+  info: ServerTaskInfo;
+  request: ServerTaskRequest;
+  agent?: Agent;
+  history?: AgentHistory;
+  events: ServerTaskEvent[];
+  listeners: Array<(event: ServerTaskEvent) => void>;
+  stopRequested: boolean;
+}
+
+const FINISHED_STATUSES: ServerTaskStatus[] = ['completed', 'failed', 'stopped'];
+
+/**
+ * 任务队列 - API服务器背后的调度器
+ *
+ * 每个任务使用独立的 BrowserSession 和 LLM 实例（配置了浏览器池时是池中浏览器的独立上下文），
+ * 同时运行的任务数量受 concurrency 限制，其余任务按提交顺序排队。
+ */
+export class TaskQueue {
+  private options: TaskQueueOptions;
+  private tasks = new Map<string, ServerTask>();
+  private queued: string[] = [];
+  private running = new Set<string>();
+  private approvalTasks = new Map<string, string>();   // 审批请求ID -> 任务ID
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(options: TaskQueueOptions) {
+    this.options = {
+      concurrency: 1,
+      maxFinishedTasks: 100,
+      ...options,
+    };
+    if (!this.options.concurrency || this.options.concurrency < 1) {
+      throw new Error('Task queue concurrency must be at least 1');
+    }
+  }
+
+  getConcurrency(): number {
+    return this.options.concurrency!;
+  }
+
+  getApprovalQueue(): ApprovalQueue | undefined {
+    return this.options.approvalQueue;
+  }
+
+  /**
+   * 提交任务，返回任务信息（设置不合法时抛出 ValidationError）
+   */
+  submit(request: ServerTaskRequest): ServerTaskInfo {
+    if (!request || typeof request.task !== 'string' || request.task.trim().length === 0) {
+      throw new Error('Field "task" must be a non-empty string');
+    }
+    if (request.approval && !this.options.approvalQueue) {
+      throw new Error('Approval is not available on this server');
+    }
+    if (request.profile !== undefined && !new ProfileStore(Config.getProfilesDirectory()).exists(request.profile)) {
+      throw new Error(`Browser profile not found: ${request.profile}`);
+    }
+
+    // 提前校验，避免排队很久之后才发现参数有误
+    Validator.validateAgentSettings(this.buildSettings(request));
+
+    const id = `task_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    const task: ServerTask = {
+      info: { id, task: request.task.trim(), status: 'queued', createdAt: new Date(), steps: 0 },
+      request,
+      events: [],
+      listeners: [],
+      stopRequested: false,
+    };
+
+    this.tasks.set(id, task);
+    this.queued.push(id);
+    logger.info(`📥 收到任务 ${id}: ${task.info.task}`, 'TaskQueue');
+    this.emit(task, 'status', { status: 'queued' });
+    this.pump();
+
+    return this.getTask(id)!;
+  }
+
+  getTask(id: string): ServerTaskInfo | undefined {
+    const task = this.tasks.get(id);
+    return task ? { ...task.info } : undefined;
+  }
+
+  /**
+   * 列出任务，最新提交的在前
+   */
+  listTasks(status?: ServerTaskStatus): ServerTaskInfo[] {
+    return Array.from(this.tasks.values())
+      .map(task => ({ ...task.info }))
+      .filter(info => !status || info.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  getStats(): { queued: number; running: number; total: number; concurrency: number; pool?: BrowserPoolMetrics } {
+    return {
+      queued: this.queued.length,
+      running: this.running.size,
+      total: this.tasks.size,
+      concurrency: this.getConcurrency(),
+      pool: this.options.browserPool?.getMetrics(),
+    };
+  }
+
+  /**
+   * 任务的执行历史：运行中返回当前进度，结束后返回最终结果
+   */
+  getHistory(id: string): AgentHistory | undefined {
+    const task = this.tasks.get(id);
+    if (!task) {
+      return undefined;
+    }
+
+    const history = task.history || task.agent?.getHistory();
+    if (!history) {
+      return undefined;
+    }
+
+    // 截图通过单独的接口获取，不放进JSON
+    return {
+      ...history,
+      steps: history.steps.map(step => step.domState?.screenshot
+        ? { ...step, domState: { ...step.domState, screenshot: undefined } }
+        : step),
+    };
+  }
+
+  getRunHistoryService(): RunHistoryService {
+    return new RunHistoryService(this.options.agentSettings?.runsDirectory);
+  }
+
+  /**
+   * 停止任务：排队中的直接取消，运行中的在当前操作完成后停下
+   */
+  async stop(id: string): Promise<boolean> {
+    const task = this.tasks.get(id);
+    if (!task || FINISHED_STATUSES.includes(task.info.status)) {
+      return false;
+    }
+
+    task.stopRequested = true;
+    if (task.info.status === 'queued') {
+      this.queued = this.queued.filter(queuedId => queuedId !== id);
+      this.finish(task, 'stopped');
+      return true;
+    }
+
+    logger.info(`⏹️ 停止任务 ${id}`, 'TaskQueue');
+    this.rejectPendingApprovals(id, 'Task was stopped');
+    await task.agent?.stop();
+    return true;
+  }
+
+  /**
+   * 订阅任务事件，先补发 afterEventId 之后的历史事件，返回取消订阅的函数
+   */
+  subscribe(id: string, listener: (event: ServerTaskEvent) => void, afterEventId: number = 0): () => void {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new Error(`Task not found: ${id}`);
+    }
+
+    task.events.filter(event => event.id > afterEventId).forEach(listener);
+    task.listeners.push(listener);
+    return () => {
+      task.listeners = task.listeners.filter(l => l !== listener);
+    };
+  }
+
+  isFinished(id: string): boolean {
+    const task = this.tasks.get(id);
+    return !!task && FINISHED_STATUSES.includes(task.info.status);
+  }
+
+  /**
+   * 审批请求所属的任务
+   */
+  getApprovalTaskId(requestId: string): string | undefined {
+    return this.approvalTasks.get(requestId);
+  }
+
+  /**
+   * 停止所有任务并等待正在运行的任务结束
+   */
+  async shutdown(): Promise<void> {
+    for (const id of [...this.queued]) {
+      await this.stop(id);
+    }
+    await Promise.all(Array.from(this.running).map(id => this.stop(id)));
+
+    if (this.running.size > 0) {
+      await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+    }
+  }
+
+  private pump(): void {
+    while (this.running.size < this.options.concurrency! && this.queued.length > 0) {
+      const id = this.queued.shift()!;
+      const task = this.tasks.get(id);
+      if (!task) continue;
+
+      this.running.add(id);
+      this.runTask(task).finally(() => {
+        this.running.delete(id);
+        this.pruneFinishedTasks();
+        if (this.running.size === 0) {
+          const waiters = this.idleWaiters;
+          this.idleWaiters = [];
+          waiters.forEach(resolve => resolve());
+        }
+        this.pump();
+      });
+    }
+  }
+
+  private async runTask(task: ServerTask): Promise<void> {
+    const profileOverride = task.request.profile ? { storageStateName: task.request.profile } : {};
+    let browserSession: BrowserSession | undefined;
+    let lease: BrowserLease | undefined;
+    let detachSteps: (() => void) | undefined;
+
+    task.info.status = 'running';
+    task.info.startedAt = new Date();
+    this.emit(task, 'status', { status: 'running' });
+    logger.info(`▶️ 开始执行任务 ${task.info.id}`, 'TaskQueue');
+
+    try {
+      const llm = LLMFactory.createAgentLLM(this.options.llmConfig);
+      if (this.options.browserPool) {
+        lease = await this.options.browserPool.acquire(profileOverride);
+        browserSession = lease.session;
+      } else {
+        browserSession = new BrowserSession({ ...this.options.browserProfile, ...profileOverride });
+        await browserSession.start();
+      }
+
+      const agent = new Agent(task.info.task, llm, browserSession, this.buildSettings(task.request, task.info.id));
+      task.agent = agent;
+      detachSteps = agent.addStepListener(step => this.onStep(task, step));
+
+      // 浏览器启动期间收到了停止请求
+      if (task.stopRequested) {
+        await agent.stop();
+      }
+
+      const history = await agent.run();
+      task.history = history;
+      task.info.runId = agent.getRunId();
+      task.info.success = history.success;
+      task.info.stopReason = history.metadata.stopReason;
+      task.info.output = history.output;
+
+      this.finish(task, task.stopRequested ? 'stopped' : history.success ? 'completed' : 'failed');
+    } catch (error) {
+      task.info.error = error instanceof Error ? error.message : String(error);
+      task.history = task.agent?.getHistory();
+      task.info.runId = task.agent?.getRunId();
+      logger.error(`任务 ${task.info.id} 执行失败: ${task.info.error}`, error as Error, 'TaskQueue');
+      this.finish(task, task.stopRequested ? 'stopped' : 'failed');
+    } finally {
+      detachSteps?.();
+      this.rejectPendingApprovals(task.info.id, 'Task finished');
+      task.agent = undefined;
+      try {
+        if (lease) {
+          await lease.release();
+        } else {
+          await browserSession?.close();
+        }
+      } catch (error) {
+        logger.debug(`Failed to close browser for task ${task.info.id}: ${error}`, 'TaskQueue');
+      }
+    }
+  }
+
+  private buildSettings(request: ServerTaskRequest, taskId?: string): AgentSettings {
+    const settings: AgentSettings = { ...this.options.agentSettings };
+
+    for (const key of API_SETTING_KEYS) {
+      const value = request.settings?.[key];
+      if (value !== undefined) {
+        (settings as any)[key] = value;
+      }
+    }
+
+    // 服务器没有终端，审批统一走 ApprovalQueue
+    delete settings.approvalHandler;
+    const approvalQueue = this.options.approvalQueue;
+    if (request.approval && approvalQueue && taskId) {
+      settings.approvalHandler = (approvalRequest: ApprovalRequest, signal?: AbortSignal) => {
+        this.approvalTasks.set(approvalRequest.id, taskId);
+        const task = this.tasks.get(taskId);
+        if (task) {
+          this.emit(task, 'approval', approvalRequest);
+        }
+        return approvalQueue.handler(approvalRequest, signal);
+      };
+    }
+
+    return settings;
+  }
+
+  private onStep(task: ServerTask, step: AgentStep): void {
+    task.info.steps = task.agent ? task.agent.getStepCount() : task.info.steps + 1;
+    task.info.runId = task.info.runId || task.agent?.getRunId();
+
+    this.emit(task, 'step', {
+      stepNumber: step.stepNumber,
+      actionIndex: step.actionIndex,
+      action: step.action,
+      description: RunHistoryService.describeAction(step.action),
+      success: step.result.success,
+      message: step.result.message,
+      error: step.result.error,
+      url: step.domState?.url,
+      nextGoal: step.agentOutput?.next_goal,
+      timestamp: step.timestamp,
+    });
+  }
+
+  private finish(task: ServerTask, status: ServerTaskStatus): void {
+    task.info.status = status;
+    task.info.finishedAt = new Date();
+    task.info.steps = task.history ? task.history.steps.length : task.info.steps;
+    logger.info(`🏁 任务 ${task.info.id} 结束: ${status}`, 'TaskQueue');
+    this.emit(task, 'done', { ...task.info });
+  }
+
+  private emit(task: ServerTask, type: ServerTaskEventType, data: any): void {
+    const event: ServerTaskEvent = { id: task.events.length + 1, type, data, timestamp: new Date() };
+    task.events.push(event);
+
+    for (const listener of task.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.debug(`Task event listener failed: ${error}`, 'TaskQueue');
+      }
+    }
+  }
+
+  private rejectPendingApprovals(taskId: string, reason: string): void {
+    const approvalQueue = this.options.approvalQueue;
+    if (!approvalQueue) {
+      return;
+    }
+
+    for (const request of approvalQueue.getPendingRequests()) {
+      if (this.approvalTasks.get(request.id) === taskId) {
+        approvalQueue.reject(request.id, reason);
+      }
+    }
+    for (const [requestId, owner] of Array.from(this.approvalTasks.entries())) {
+      if (owner === taskId) {
+        this.approvalTasks.delete(requestId);
+      }
+    }
+  }
+
+  private pruneFinishedTasks(): void {
+    const finished = Array.from(this.tasks.values())
+      .filter(task => FINISHED_STATUSES.includes(task.info.status))
+      .sort((a, b) => b.info.createdAt.getTime() - a.info.createdAt.getTime());
+
+    for (const task of finished.slice(this.options.maxFinishedTasks!)) {
+      this.tasks.delete(task.info.id);
+    }
+  }
+}
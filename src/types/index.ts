@@ -1,6 +1,13 @@
 // Core types for the browser-use-nodejs project
 
+// Playwright 支持的浏览器引擎，CDP连接、调试端口和进程管理只支持 chromium
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
+// 页面表示方式：dom 注入 buildDomTree.js 分析元素，accessibility 使用浏览器的无障碍树
+export type DOMExtractionMode = 'dom' | 'accessibility';
+
 export interface BrowserProfile {
+  browserType?: BrowserEngine;                 // 浏览器引擎，默认 chromium
   headless?: boolean;
   viewport?: { width: number; height: number };
   userDataDir?: string;
@@ -28,6 +35,73 @@ export interface BrowserProfile {
   // 下载配置
   acceptDownloads?: boolean;
   downloadsPath?: string;
+  // 域名访问策略（支持 example.com 和 *.example.com 写法，黑名单优先）
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+  // 网络拦截：按顺序匹配的路由规则，命中第一条即生效
+  networkRules?: NetworkRouteRule[];
+  blockResourceTypes?: NetworkResourceType[];  // 直接拦截的资源类型，如 image、font、media
+  blockAdsAndTrackers?: boolean;               // 拦截常见广告和跟踪脚本
+  recordNetwork?: boolean;                     // 记录每步的网络请求日志，默认开启
+  // HAR录制和回放
+  recordHar?: boolean;                         // 录制HAR，由 Agent 复制到运行目录
+  harPath?: string;                            // HAR录制的输出路径，不设置时使用临时文件
+  replayHar?: string;                          // 从HAR文件回放网络请求
+  harNotFound?: 'abort' | 'fallback';          // 回放时HAR中没有的请求：abort 拦截（完全离线），fallback 访问真实网络
+  // Playwright trace 和视频录制
+  recordTrace?: boolean;                       // 录制trace（截图+DOM快照+源码），由 Agent 复制到运行目录
+  tracePath?: string;                          // trace输出路径 (.zip)，不设置时使用临时文件
+  recordVideo?: boolean;                       // 录制每个页面的视频
+  videoDir?: string;                           // 视频输出目录，不设置时使用临时目录
+  videoSize?: { width: number; height: number }; // 视频尺寸，默认跟随视口
+  // 命名配置文件
+  storageStateName?: string;                   // 启动时加载的命名配置文件（cookies + localStorage），见 profile 命令
+  // 设备模拟
+  device?: string;                             // Playwright 设备名称，如 "iPhone 13"、"Pixel 7"，会设置视口、UA、缩放、isMobile 和 hasTouch
+  deviceScaleFactor?: number;                  // 设备像素比，覆盖设备描述中的值
+  isMobile?: boolean;                          // 移动端模式（meta viewport、触摸优先），Firefox 不支持
+  hasTouch?: boolean;                          // 启用触摸事件，tap 操作需要
+  // 页面表示
+  domMode?: DOMExtractionMode;                 // 默认 dom；accessibility 按角色和可访问名称描述元素，适合复杂的单页应用
+}
+
+// Playwright request.resourceType() 的取值
+export type NetworkResourceType =
+  | 'document' | 'stylesheet' | 'image' | 'media' | 'font' | 'script' | 'texttrack'
+  | 'xhr' | 'fetch' | 'eventsource' | 'websocket' | 'manifest' | 'other';
+
+/**
+ * 网络路由规则
+ * urlPattern 支持三种写法：glob（"**\/api/*"）、正则（"/\\.png$/i"）和普通子串（"doubleclick.net"）
+ */
+export interface NetworkRouteRule {
+  name?: string;                            // 出现在网络日志中，方便排查
+  urlPattern?: string;
+  resourceTypes?: NetworkResourceType[];
+  methods?: string[];
+  action: 'block' | 'fulfill' | 'continue';
+  // action = continue：改写请求头和响应头，值为 null 表示删除该请求头
+  headers?: Record<string, string | null>;
+  responseHeaders?: Record<string, string | null>;
+  // action = fulfill：用本地文件或内联内容作为响应
+  fixture?: string;                         // 响应文件路径，Content-Type 按扩展名推断
+  body?: string;
+  json?: any;
+  status?: number;
+  contentType?: string;
+}
+
+export interface NetworkLogEntry {
+  url: string;
+  method: string;
+  resourceType: string;
+  status?: number;
+  failure?: string;                         // 请求失败原因（包括被拦截的请求）
+  intercepted?: 'blocked' | 'fulfilled' | 'modified';
+  rule?: string;                            // 命中的规则名或 urlPattern
+  isNavigation: boolean;
+  startTime: number;                        // 毫秒时间戳
+  duration?: number;                        // 毫秒
 }
 
 export interface ActionResult {
@@ -37,6 +111,7 @@ export interface ActionResult {
   extractedContent?: string;
   screenshot?: string;
   navigationDetected?: boolean; // Flag to indicate navigation occurred during action
+  warnings?: string[]; // 非致命的提示，例如页面内容中被隔离的疑似提示词注入
   metadata?: {
     duration: number;
     timestamp: Date;
@@ -51,6 +126,8 @@ export interface AgentSettings {
   maxSteps?: number;
   maxActionsPerStep?: number;
   useVision?: boolean;
+  screenshotMarks?: boolean;    // 在截图上绘制与元素索引对应的编号框（Set-of-Marks）
+  screenshotMaxSize?: number;   // 截图最长边的像素上限，超出时等比缩小
   temperature?: number;
   retryFailedActions?: boolean;
   maxRetries?: number;
@@ -70,6 +147,17 @@ export interface AgentSettings {
   maxConsecutiveFailures?: number;
   maxSimilarActions?: number;
   enablePlugins?: boolean;
+  maxTokens?: number;   // 本次运行的token预算，超出后在下一步开始前停止
+  maxCost?: number;     // 本次运行的费用预算（美元）
+  modelPrices?: Record<string, ModelPrice>; // 覆盖或补充默认价格表，键为模型名前缀
+  approvalHandler?: ApprovalHandler;        // 敏感操作的人工审批回调，不设置则不审批
+  approvalCategories?: ApprovalCategory[];  // 需要审批的操作类别
+  outputSchema?: JSONSchema;            // 最终结果的JSON Schema，done.data 必须符合它
+  maxOutputValidationRetries?: number;  // done.data 校验失败后允许LLM重试的次数
+  saveRuns?: boolean;       // 是否把每次运行写入运行目录
+  runsDirectory?: string;   // 运行记录根目录，默认 ./runs
+  secrets?: Record<string, string>; // 密钥，LLM只能通过 {{secret:name}} 占位符引用
+  domPromptMode?: DOMPromptMode;    // 页面状态的提示词格式，默认 full
   customPrompts?: {
     systemPrompt?: string;
     planningPrompt?: string;
@@ -78,6 +166,26 @@ export interface AgentSettings {
   };
 }
 
+// JSON Schema（支持 Validator.validateAgainstSchema 实现的子集）
+export interface JSONSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null' | Array<'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'>;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: any[];
+  const?: any;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: any;
+}
+
 // Enhanced agent state for better tracking
 export interface AgentState {
   agentId: string;
@@ -231,6 +339,27 @@ export interface DOMElement {
   xpath: string;
   isClickable: boolean;
   isVisible: boolean;
+  untrusted?: boolean; // 文本或属性中检测到类似指令的内容，已被隔离
+  role?: string;       // 无障碍角色（accessibility 模式），text 是可访问名称
+  ariaStates?: Record<string, string | number | boolean>; // checked、expanded、disabled 等状态
+  stableId?: string;   // 跨快照稳定的元素ID，同一页面上同一个元素在每次快照中相同（索引可能变化）
+  fingerprint?: ElementFingerprint; // 元素指纹，用于在新快照中找回同一个元素
+}
+
+// 截图选项
+export interface ScreenshotOptions {
+  marks?: DOMElement[];  // 要标注的元素，编号框上的数字是 DOMElement.index
+  maxSize?: number;      // 输出图片最长边的像素上限
+}
+
+// 元素指纹：不依赖每次快照重新分配的索引来识别元素
+export interface ElementFingerprint {
+  role: string;          // 显式 role 或按标签推断的角色
+  name: string;          // 可访问名称的近似值（aria-label、文本、placeholder 等）
+  ancestry: string;      // 最近几层祖先的标签，如 form>div>label
+  framePath?: string;    // 所在iframe的选择器链
+  positionHash: string;  // 带序号的完整位置的哈希，区分身份相同的元素
+  hash: string;          // role + name + ancestry + framePath 的哈希
 }
 
 export interface DOMState {
@@ -238,6 +367,35 @@ export interface DOMState {
   url: string;
   title: string;
   screenshot?: string;
+  viewport?: { width: number; height: number }; // 视口尺寸（CSS像素），坐标操作按它换算截图上的位置
+  injectionFindings?: InjectionFinding[]; // 内容清洗阶段发现的可疑内容
+  diff?: DOMStateDiff;                    // 与上一次快照相比的变化，页面没有导航时才有
+}
+
+export interface DOMElementChange {
+  element: DOMElement;   // 当前快照中的元素
+  previousIndex: number;
+  changes: string[];     // 变化的字段：text、value、checked、states 等
+}
+
+// 两次快照之间的元素变化
+export interface DOMStateDiff {
+  added: DOMElement[];
+  removed: DOMElement[];        // 上一次快照中的元素，index 是旧索引
+  changed: DOMElementChange[];
+  unchanged: DOMElement[];      // 内容没有变化，索引可能已经变化
+}
+
+// 发给LLM的页面状态：full 每步发送完整元素列表，diff 页面没有导航时只详细描述变化的元素
+export type DOMPromptMode = 'full' | 'diff';
+
+// 页面内容中疑似提示词注入的片段
+export interface InjectionFinding {
+  elementIndex?: number; // 所在元素，页面标题等非元素内容时为空
+  field: string;         // text、属性名或 title
+  rule: string;          // 命中的检测规则
+  excerpt: string;       // 原文摘录（仅用于日志和排查，不会再发送给LLM）
+  hidden: boolean;       // 元素是否不可见
 }
 
 // Action types
@@ -245,6 +403,7 @@ export interface ClickAction {
   type: 'click';
   index: number;
   xpath?: string;
+  fingerprint?: ElementFingerprint; // LLM选中元素的指纹，索引在重新渲染后变化时按它找回元素
 }
 
 export interface TypeAction {
@@ -252,6 +411,7 @@ export interface TypeAction {
   index: number;
   text: string;
   xpath?: string;
+  fingerprint?: ElementFingerprint;
 }
 
 export interface NavigateAction {
@@ -262,7 +422,7 @@ export interface NavigateAction {
 export interface ScrollAction {
   type: 'scroll';
   direction: 'up' | 'down';
-  amount?: number;
+  amount?: number;   // 触摸设备上按手指滑动的距离处理
 }
 
 export interface WaitAction {
@@ -274,6 +434,7 @@ export interface DoneAction {
   type: 'done';
   message: string;
   success: boolean;
+  data?: any; // 结构化结果，设置了 outputSchema 时必须符合该Schema
 }
 
 // Extended action types
@@ -283,6 +444,45 @@ export interface HoverAction {
   xpath?: string;
 }
 
+// 触摸操作（设备模拟时使用）
+export interface TapAction {
+  type: 'tap';
+  index: number;
+  xpath?: string;
+}
+
+export interface SwipeAction {
+  type: 'swipe';
+  direction: 'up' | 'down' | 'left' | 'right';  // 手指移动的方向
+  index?: number;     // 在该元素范围内滑动（轮播图、抽屉），不设置时在视口中间滑动
+  xpath?: string;
+  distance?: number;  // 滑动距离（像素）
+}
+
+// 坐标操作：按视口坐标（CSS像素）操作 canvas、地图、PDF 查看器等没有可索引元素的界面，仅在开启视觉时可用
+export interface ClickAtAction {
+  type: 'click_at';
+  coordinate: [number, number];           // [x, y]
+  button?: 'left' | 'right' | 'middle';
+  clickCount?: number;                    // 2 表示双击
+}
+
+export interface DragAtAction {
+  type: 'drag_at';
+  coordinate: [number, number];           // 起点 [x, y]
+  endCoordinate: [number, number];        // 终点 [x, y]
+}
+
+export interface ScrollAtAction {
+  type: 'scroll_at';
+  coordinate: [number, number];           // 鼠标所在位置，滚轮事件发给该位置下的元素（地图缩放、内部滚动区域）
+  direction: 'up' | 'down' | 'left' | 'right';
+  amount?: number;                        // 滚动距离（像素）
+}
+
+// 坐标来自截图，只在请求附带截图时提供给LLM
+export const COORDINATE_ACTION_TYPES = ['click_at', 'drag_at', 'scroll_at'];
+
 export interface DragDropAction {
   type: 'drag_drop';
   sourceIndex: number;
@@ -434,7 +634,12 @@ export type Action =
   | WaitAction
   | DoneAction
   | HoverAction
+  | TapAction
+  | SwipeAction
   | DragDropAction
+  | ClickAtAction
+  | DragAtAction
+  | ScrollAtAction
   | KeyAction
   | KeyPressAction
   | SelectAction
@@ -472,7 +677,8 @@ export interface AgentBrain {
 
 export interface AgentOutput extends AgentBrain {
   tab_decision: TabDecision;
-  action: Action;
+  action: Action;      // 第一个操作（兼容单操作的调用方）
+  actions?: Action[];  // 本步按顺序执行的完整操作列表
 }
 
 // DoneAction is already defined above at line 150
@@ -482,11 +688,14 @@ export interface AgentStep {
   action: Action;
   result: ActionResult;
   domState?: DOMState;
+  targetElement?: DOMElement; // 执行前定位到的目标元素快照，供回放时重新定位
+  actionIndex?: number;       // 该操作在本步操作列表中的位置（从0开始）
+  networkLog?: NetworkLogEntry[];  // 上一个操作结束后到本操作结束期间的网络请求
   timestamp: Date;
   agentOutput?: AgentOutput;
 }
 
-export interface AgentHistory {
+export interface AgentHistory<TOutput = any> {
   task: string;
   steps: AgentStep[];
   completed: boolean;
@@ -510,10 +719,54 @@ export interface AgentHistory {
     screenshotCount: number;
     finalUrl?: string;
     finalTitle?: string;
+    runId?: string; // 运行记录ID（启用 saveRuns 时）
+    usage?: UsageSummary; // token用量和费用明细
+    stopReason?: string;  // 非正常结束的原因（如超出预算）
+    harFile?: string;     // 录制的HAR文件（浏览器会话关闭后写入）
+    traceFile?: string;   // Playwright trace，用 npx playwright show-trace 查看
+    videoDir?: string;    // 录制的视频目录（每个页面一个 .webm）
   };
   planning?: PlanningResult;
   reflection?: ReflectionResult[];
   performance?: PerformanceMetrics;
+  output?: TOutput; // 通过 outputSchema 校验的结构化结果
+}
+
+// Token用量与费用
+export type LLMUsageService = 'main' | 'planning' | 'reflection' | 'recovery' | string;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// 每百万token的价格（美元）
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 一次LLM调用的用量记录
+export interface LLMUsageEvent {
+  service: LLMUsageService; // 发起调用的模块
+  usage: TokenUsage;
+  model?: string;
+  provider?: string;
+  endpoint?: string;        // 多端点模式下的端点ID
+}
+
+export interface UsageTotals extends TokenUsage {
+  cost: number;
+  requests: number;
+  unpricedRequests: number; // 价格表中找不到模型、未计入费用的请求数
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byStep: Record<string, UsageTotals>;
+  byService: Record<string, UsageTotals>;
+  byEndpoint: Record<string, UsageTotals>;
 }
 
 // New advanced types
@@ -590,6 +843,31 @@ export interface PerformanceMetrics {
   retriesPerformed: number;
 }
 
+// 人工审批 - 敏感操作执行前的确认
+// 操作类别：upload_file / execute_script / set_cookie 等操作类型，或 purchase / delete / submit 点击目标
+export type ApprovalCategory = string;
+
+export interface ApprovalRequest {
+  id: string;
+  task: string;
+  stepNumber: number;
+  category: ApprovalCategory;
+  action: Action;
+  element?: DOMElement;   // 点击类操作的目标元素
+  url: string;
+  reason: string;         // LLM 给出的本步目标
+  timestamp: Date;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+// 审批回调：返回 true/false 或带原因的决定，可以是异步的
+// signal 在代理停止时触发，处理函数应放弃等待（关闭提示、撤回请求）
+export type ApprovalHandler = (request: ApprovalRequest, signal?: AbortSignal) => boolean | ApprovalDecision | Promise<boolean | ApprovalDecision>;
+
 // ============================================================================
 // 插件系统类型定义
 // ============================================================================
@@ -0,0 +1,150 @@
+import { LLMUsageEvent, ModelPrice, TokenUsage, UsageSummary, UsageTotals } from '../types';
+
+// 默认价格表（美元 / 百万token），键为模型名前缀，按最长前缀匹配
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  // OpenAI
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o1': { input: 15, output: 60 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  // Anthropic
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  // Google
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  // 其他OpenAI兼容服务
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+};
+
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCost?: number;
+}
+
+/**
+ * 用量统计服务 - 汇总每次运行的token用量和费用
+ *
+ * 按步骤、调用模块（主循环、规划、反思、恢复）和LLM端点分别累计，
+ * 费用根据价格表计算，价格表中没有的模型只统计token。
+ */
+export class UsageTracker {
+  private prices: Record<string, ModelPrice>;
+  private currentStep: number = 0;
+  private summary: UsageSummary = {
+    total: UsageTracker.emptyTotals(),
+    byStep: {},
+    byService: {},
+    byEndpoint: {},
+  };
+
+  constructor(prices: Record<string, ModelPrice> = {}) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...prices };
+  }
+
+  /**
+   * 设置当前步骤，之后的调用都计入这一步（0 表示运行开始前，如初始规划）
+   */
+  setCurrentStep(stepNumber: number): void {
+    this.currentStep = stepNumber;
+  }
+
+  record(event: LLMUsageEvent): number {
+    const price = this.getPrice(event.model);
+    const cost = price ? UsageTracker.calculateCost(event.usage, price) : 0;
+
+    const buckets = [
+      this.summary.total,
+      UsageTracker.bucket(this.summary.byStep, String(this.currentStep)),
+      UsageTracker.bucket(this.summary.byService, event.service),
+      UsageTracker.bucket(this.summary.byEndpoint, event.endpoint || event.model || 'unknown'),
+    ];
+
+    for (const totals of buckets) {
+      totals.promptTokens += event.usage.promptTokens || 0;
+      totals.completionTokens += event.usage.completionTokens || 0;
+      totals.totalTokens += event.usage.totalTokens || 0;
+      totals.cost += cost;
+      totals.requests += 1;
+      if (!price) {
+        totals.unpricedRequests += 1;
+      }
+    }
+
+    return cost;
+  }
+
+  getTotals(): UsageTotals {
+    return { ...this.summary.total };
+  }
+
+  getSummary(): UsageSummary {
+    return JSON.parse(JSON.stringify(this.summary));
+  }
+
+  /**
+   * 检查是否超出预算，超出时返回原因
+   */
+  getBudgetExceededReason(budget: UsageBudget): string | null {
+    const total = this.summary.total;
+
+    if (budget.maxTokens !== undefined && budget.maxTokens > 0 && total.totalTokens >= budget.maxTokens) {
+      return `Token budget exceeded: used ${total.totalTokens} of ${budget.maxTokens} tokens`;
+    }
+
+    if (budget.maxCost !== undefined && budget.maxCost > 0 && total.cost >= budget.maxCost) {
+      return `Cost budget exceeded: spent $${total.cost.toFixed(4)} of $${budget.maxCost.toFixed(4)}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 按最长前缀在价格表中查找模型价格
+   */
+  getPrice(model?: string): ModelPrice | null {
+    if (!model) {
+      return null;
+    }
+
+    // 去掉 "models/"、"openai/" 这类前缀
+    const name = model.toLowerCase().split('/').pop()!;
+    const key = Object.keys(this.prices)
+      .filter(prefix => name.startsWith(prefix.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return key ? this.prices[key] : null;
+  }
+
+  static calculateCost(usage: TokenUsage, price: ModelPrice): number {
+    return ((usage.promptTokens || 0) * price.input + (usage.completionTokens || 0) * price.output) / 1_000_000;
+  }
+
+  static emptyTotals(): UsageTotals {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, requests: 0, unpricedRequests: 0 };
+  }
+
+  private static bucket(map: Record<string, UsageTotals>, key: string): UsageTotals {
+    if (!map[key]) {
+      map[key] = UsageTracker.emptyTotals();
+    }
+    return map[key];
+  }
+}
@@ -171,16 +171,14 @@ export class Helpers {
    * Extract JSON from string that might contain other text
    */
   static extractJSON(str: string): any {
-    // Try to find JSON object in the string
-    const jsonMatch = str.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      try {
-        return JSON.parse(jsonMatch[0]);
-      } catch {
-        // If parsing fails, try to find array
-        const arrayMatch = str.match(/\[[\s\S]*\]/);
-        if (arrayMatch) {
-          return JSON.parse(arrayMatch[0]);
+    // Try to find JSON object in the string, then fall back to an array
+    for (const pattern of [/\{[\s\S]*\}/, /\[[\s\S]*\]/]) {
+      const match = str.match(pattern);
+      if (match) {
+        try {
+          return JSON.parse(match[0]);
+        } catch {
+          // Try the next pattern
         }
       }
     }
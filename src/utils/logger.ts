@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import { AsyncLocalStorage } from 'async_hooks';
 import Config from '../config';
 import { Symbols } from './symbols';
 
@@ -14,6 +15,9 @@ export enum LogLevel {
 export class Logger {
   private static instance: Logger;
   private logLevel: LogLevel;
+  private sinks: Array<{ sink: (line: string) => void; context?: object }> = []; // 额外的日志输出目标（如运行记录文件）
+  private context = new AsyncLocalStorage<object>(); // 当前日志上下文，并发运行的多个代理各自一个
+  private redactors: Array<(text: string) => string> = []; // 输出前的脱敏处理（如密钥）
 
   private constructor() {
     const level = Config.getLogLevel().toLowerCase();
@@ -45,7 +49,65 @@ export class Logger {
   private formatMessage(level: string, message: string, context?: string): string {
     const timestamp = new Date().toISOString();
     const contextStr = context ? `[${context}] ` : '';
-    return `${timestamp} ${level} ${contextStr}${message}`;
+    const line = this.redact(`${timestamp} ${level} ${contextStr}${message}`);
+    this.emit(line);
+    return line;
+  }
+
+  /**
+   * 在独立的日志上下文中执行 fn，其中（包括所有异步调用）产生的日志都属于这个上下文
+   */
+  runInContext<T>(fn: () => T): T {
+    return this.context.run({}, fn);
+  }
+
+  /**
+   * 添加日志输出目标，返回取消注册的函数
+   *
+   * 在 runInContext 中注册时只接收同一上下文的日志，不会混入并发任务的日志；在上下文之外注册时接收全部日志。
+   */
+  addSink(sink: (line: string) => void): () => void {
+    const entry = { sink, context: this.context.getStore() };
+    this.sinks.push(entry);
+    return () => {
+      this.sinks = this.sinks.filter(s => s !== entry);
+    };
+  }
+
+  /**
+   * 添加脱敏处理，所有日志在输出前都会经过它，返回取消注册的函数
+   */
+  addRedactor(redactor: (text: string) => string): () => void {
+    this.redactors.push(redactor);
+    return () => {
+      this.redactors = this.redactors.filter(r => r !== redactor);
+    };
+  }
+
+  private redact(text: string): string {
+    let result = text;
+    for (const redactor of this.redactors) {
+      try {
+        result = redactor(result);
+      } catch {
+        // 脱敏失败时保留原文，避免吞掉日志
+      }
+    }
+    return result;
+  }
+
+  private emit(line: string): void {
+    const context = this.context.getStore();
+    for (const { sink, context: sinkContext } of this.sinks) {
+      if (sinkContext && sinkContext !== context) {
+        continue;
+      }
+      try {
+        sink(line);
+      } catch {
+        // 日志目标出错不能影响主流程
+      }
+    }
   }
 
   debug(message: string, context?: string): void {
@@ -70,7 +132,7 @@ export class Logger {
     if (this.logLevel <= LogLevel.ERROR) {
       console.error(chalk.red(this.formatMessage('ERROR', message, context)));
       if (error && Config.isDebugMode()) {
-        console.error(chalk.red(error.stack));
+        console.error(chalk.red(this.redact(error.stack || '')));
       }
     }
   }
@@ -79,21 +141,26 @@ export class Logger {
     console.log(chalk.green(this.formatMessage('SUCCESS', message, context)));
   }
 
-  step(stepNumber: number, message: string): void {
+  step(stepNumber: number, rawMessage: string): void {
+    const message = this.redact(rawMessage);
     const stepIcon = Symbols.getAction('step');
     console.log(chalk.cyan(`\n${stepIcon} Step ${stepNumber}: ${message}`));
+    this.emit(`${new Date().toISOString()} STEP ${stepNumber}: ${message}`);
   }
 
   action(action: string, details?: string): void {
-    const detailsStr = details ? ` - ${details}` : '';
+    const detailsStr = this.redact(details ? ` - ${details}` : '');
     const executeIcon = Symbols.getAction('execute');
     console.log(chalk.magenta(`  ${executeIcon} Executing action: ${action}${detailsStr}`));
+    this.emit(`${new Date().toISOString()} ACTION ${action}${detailsStr}`);
   }
 
-  result(message: string, success: boolean = true): void {
+  result(rawMessage: string, success: boolean = true): void {
+    const message = this.redact(rawMessage);
     const icon = success ? Symbols.getStatus('success') : Symbols.getStatus('error');
     const color = success ? chalk.green : chalk.red;
     console.log(color(`  ${icon} ${message}`));
+    this.emit(`${new Date().toISOString()} RESULT ${success ? 'OK' : 'FAIL'} ${message}`);
   }
 }
 
@@ -1,4 +1,4 @@
-import { Action, LLMConfig, BrowserProfile, AgentSettings } from '../types';
+import { Action, LLMConfig, BrowserProfile, AgentSettings, JSONSchema } from '../types';
 
 export class ValidationError extends Error {
   constructor(message: string) {
@@ -110,6 +110,14 @@ export class Validator {
   }
 
   static validateBrowserProfile(profile: BrowserProfile): void {
+    if (profile.browserType !== undefined && !['chromium', 'firefox', 'webkit'].includes(profile.browserType)) {
+      throw new ValidationError('Browser type must be one of: chromium, firefox, webkit');
+    }
+
+    if (profile.domMode !== undefined && !['dom', 'accessibility'].includes(profile.domMode)) {
+      throw new ValidationError('Browser domMode must be one of: dom, accessibility');
+    }
+
     if (profile.headless !== undefined && typeof profile.headless !== 'boolean') {
       throw new ValidationError('Browser headless setting must be a boolean');
     }
@@ -164,11 +172,151 @@ export class Validator {
       throw new ValidationError('Agent useVision setting must be a boolean');
     }
 
+    if (settings.screenshotMaxSize !== undefined) {
+      if (typeof settings.screenshotMaxSize !== 'number' || isNaN(settings.screenshotMaxSize) || settings.screenshotMaxSize < 100) {
+        throw new ValidationError('Agent screenshotMaxSize must be a number of at least 100 pixels');
+      }
+    }
+
     if (settings.temperature !== undefined) {
       if (typeof settings.temperature !== 'number' || settings.temperature < 0 || settings.temperature > 2) {
         throw new ValidationError('Agent temperature must be a number between 0 and 2');
       }
     }
+
+    if (settings.maxTokens !== undefined) {
+      if (typeof settings.maxTokens !== 'number' || isNaN(settings.maxTokens) || settings.maxTokens <= 0) {
+        throw new ValidationError('Agent maxTokens must be a positive number');
+      }
+    }
+
+    if (settings.maxCost !== undefined) {
+      if (typeof settings.maxCost !== 'number' || isNaN(settings.maxCost) || settings.maxCost <= 0) {
+        throw new ValidationError('Agent maxCost must be a positive number');
+      }
+    }
+
+    if (settings.outputSchema !== undefined) {
+      if (!settings.outputSchema || typeof settings.outputSchema !== 'object' || Array.isArray(settings.outputSchema)) {
+        throw new ValidationError('Agent outputSchema must be a JSON Schema object');
+      }
+    }
+  }
+
+  /**
+   * Validate data against a JSON Schema subset (type, properties, required,
+   * additionalProperties, items, enum, const, length/range limits, pattern).
+   * Returns a list of human-readable errors; an empty list means the data is valid.
+   */
+  static validateAgainstSchema(data: any, schema: JSONSchema, path: string = '$'): string[] {
+    const errors: string[] = [];
+
+    if (!schema || typeof schema !== 'object') {
+      return errors;
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesSchemaType(data, type))) {
+        errors.push(`${path} must be of type ${types.join(' | ')}`);
+        return errors;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some(value => JSON.stringify(value) === JSON.stringify(data))) {
+      errors.push(`${path} must be one of ${schema.enum.map(value => JSON.stringify(value)).join(', ')}`);
+    }
+
+    if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(data)) {
+      errors.push(`${path} must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof data === 'string') {
+      if (schema.minLength !== undefined && data.length < schema.minLength) {
+        errors.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && data.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(data)) {
+        errors.push(`${path} must match pattern ${schema.pattern}`);
+      }
+    }
+
+    if (typeof data === 'number') {
+      if (schema.minimum !== undefined && data < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && data > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(data)) {
+      if (schema.minItems !== undefined && data.length < schema.minItems) {
+        errors.push(`${path} must contain at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && data.length > schema.maxItems) {
+        errors.push(`${path} must contain at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        data.forEach((item, index) => {
+          errors.push(...this.validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+    }
+
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      for (const key of schema.required || []) {
+        if (data[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+
+      const properties = schema.properties || {};
+      for (const [key, value] of Object.entries(data)) {
+        if (properties[key]) {
+          errors.push(...this.validateAgainstSchema(value, properties[key], `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          errors.push(...this.validateAgainstSchema(value, schema.additionalProperties, `${path}.${key}`));
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate data against a JSON Schema, throwing a ValidationError listing every problem
+   */
+  static validateOutputData(data: any, schema: JSONSchema): void {
+    const errors = this.validateAgainstSchema(data, schema);
+    if (errors.length > 0) {
+      throw new ValidationError(`Output data does not match schema: ${errors.join('; ')}`);
+    }
+  }
+
+  private static matchesSchemaType(data: any, type: string): boolean {
+    switch (type) {
+      case 'string':
+        return typeof data === 'string';
+      case 'number':
+        return typeof data === 'number' && !isNaN(data);
+      case 'integer':
+        return Number.isInteger(data);
+      case 'boolean':
+        return typeof data === 'boolean';
+      case 'array':
+        return Array.isArray(data);
+      case 'object':
+        return data !== null && typeof data === 'object' && !Array.isArray(data);
+      case 'null':
+        return data === null;
+      default:
+        return true;
+    }
   }
 
   static isValidUrl(url: string): boolean {
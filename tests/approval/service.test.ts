@@ -0,0 +1,78 @@
+import { ApprovalQueue, ApprovalService } from '../../src/approval/service';
+import { ApprovalRequest, DOMElement } from '../../src/types';
+
+function request(id: string = 'approval_1'): ApprovalRequest {
+  return {
+    id,
+    task: '提交表单',
+    stepNumber: 1,
+    category: 'submit',
+    action: { type: 'click', index: 3 },
+    url: 'https://example.com/form',
+    reason: 'Submit the form',
+    timestamp: new Date(),
+  };
+}
+
+describe('ApprovalService', () => {
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should require approval for submit buttons by default', () => {
+    const service = new ApprovalService(() => true);
+    const submit: DOMElement = {
+      index: 3, tag: 'button', text: '继续', attributes: { type: 'submit' }, xpath: '', isClickable: true, isVisible: true,
+    };
+
+    expect(service.getCategory({ type: 'click', index: 3 }, submit)).toBe('submit');
+  });
+
+  it('should classify the target of a tap like a click', () => {
+    const service = new ApprovalService(() => true);
+    const pay: DOMElement = {
+      index: 5, tag: 'button', text: 'Pay now', attributes: {}, xpath: '', isClickable: true, isVisible: true,
+    };
+
+    expect(service.getCategory({ type: 'tap', index: 5 }, pay)).toBe('purchase');
+  });
+
+  it('should require approval for coordinate clicks while click categories are enabled', () => {
+    const service = new ApprovalService(() => true);
+
+    expect(service.getCategory({ type: 'click_at', coordinate: [120, 80] })).toBe('click_at');
+    expect(service.getCategory({ type: 'drag_at', coordinate: [10, 10], endCoordinate: [200, 10] })).toBe('drag_at');
+    expect(service.getCategory({ type: 'scroll_at', coordinate: [10, 10], direction: 'down' })).toBeNull();
+    expect(new ApprovalService(() => true, ['upload_file']).getCategory({ type: 'click_at', coordinate: [120, 80] })).toBeNull();
+  });
+
+  it('should reject a pending approval when the signal is aborted', async () => {
+    const service = new ApprovalService(() => new Promise(() => {}));
+    const controller = new AbortController();
+
+    const decision = service.requestApproval(request(), controller.signal);
+    controller.abort();
+
+    await expect(decision).resolves.toMatchObject({ approved: false });
+  });
+});
+
+describe('ApprovalQueue', () => {
+  it('should withdraw a pending request when the signal is aborted', async () => {
+    const queue = new ApprovalQueue();
+    const controller = new AbortController();
+
+    const decision = queue.handler(request(), controller.signal);
+    expect(queue.getPendingRequests()).toHaveLength(1);
+
+    controller.abort();
+    await expect(decision).resolves.toMatchObject({ approved: false });
+    expect(queue.getPendingRequests()).toHaveLength(0);
+  });
+});
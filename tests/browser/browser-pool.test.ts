@@ -0,0 +1,160 @@
+import { EventEmitter } from 'events';
+import { BrowserPool } from '../../src/browser/browser-pool';
+
+class MockBrowser extends EventEmitter {
+  connected = true;
+  close = jest.fn(async () => { this.connected = false; });
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  crash(): void {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+}
+
+const mockLaunched: MockBrowser[] = [];
+
+jest.mock('../../src/browser/session', () => {
+  class MockBrowserSession {
+    static launchSharedBrowser = jest.fn(async () => {
+      const browser = new MockBrowser();
+      mockLaunched.push(browser);
+      return browser;
+    });
+
+    profile: any;
+    browser: any;
+    start = jest.fn(async () => {});
+    close = jest.fn(async () => {});
+
+    constructor(profile: any) {
+      this.profile = profile;
+    }
+
+    useSharedBrowser(browser: any): void {
+      this.browser = browser;
+    }
+  }
+  return { BrowserSession: MockBrowserSession };
+});
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('BrowserPool', () => {
+  let pool: BrowserPool;
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockLaunched.length = 0;
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    consoleSpy.mockRestore();
+  });
+
+  it('should warm up the configured number of browsers', async () => {
+    pool = new BrowserPool({}, { size: 2, maxContextsPerBrowser: 3 });
+    await pool.start();
+
+    expect(mockLaunched).toHaveLength(2);
+    expect(pool.getMetrics()).toMatchObject({ browsers: 2, availableSlots: 6, activeLeases: 0, browsersLaunched: 2 });
+  });
+
+  it('should account for leases and ignore repeated releases', async () => {
+    pool = new BrowserPool({ headless: true }, { size: 1, maxContextsPerBrowser: 2 });
+    await pool.start();
+
+    const first = await pool.acquire({ storageStateName: 'alice' });
+    const second = await pool.acquire();
+    expect((first.session as any).browser).toBe(mockLaunched[0]);
+    expect((first.session as any).profile).toEqual({ headless: true, storageStateName: 'alice' });
+    expect(pool.getMetrics()).toMatchObject({ activeLeases: 2, availableSlots: 0, totalLeases: 2 });
+
+    await first.release();
+    await first.release();
+    expect(first.session.close).toHaveBeenCalledTimes(1);
+    expect(pool.getMetrics()).toMatchObject({ activeLeases: 1, availableSlots: 1 });
+
+    await second.release();
+    expect(pool.getMetrics()).toMatchObject({ activeLeases: 0, availableSlots: 2 });
+  });
+
+  it('should retire a browser after recycleAfter leases and launch a replacement', async () => {
+    pool = new BrowserPool({}, { size: 1, maxContextsPerBrowser: 2, recycleAfter: 2 });
+    await pool.start();
+
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    // 第二次租出后不再接受新的租用，但已租出的上下文继续可用
+    expect(pool.getMetrics().availableSlots).toBe(0);
+    expect(mockLaunched[0].close).not.toHaveBeenCalled();
+
+    await first.release();
+    expect(mockLaunched[0].close).not.toHaveBeenCalled();
+    await second.release();
+    await flush();
+
+    expect(mockLaunched[0].close).toHaveBeenCalled();
+    expect(mockLaunched).toHaveLength(2);
+    expect(pool.getMetrics()).toMatchObject({ browsers: 1, browsersRecycled: 1, availableSlots: 2 });
+  });
+
+  it('should hand a released slot to the next waiter', async () => {
+    pool = new BrowserPool({}, { size: 1, maxContextsPerBrowser: 1 });
+    await pool.start();
+
+    const first = await pool.acquire();
+    const waiting = pool.acquire();
+    await flush();
+    expect(pool.getMetrics().waiting).toBe(1);
+
+    await first.release();
+    const second = await waiting;
+    expect(second.id).not.toBe(first.id);
+    expect(pool.getMetrics()).toMatchObject({ waiting: 0, activeLeases: 1 });
+  });
+
+  it('should time out waiters when no slot becomes free', async () => {
+    pool = new BrowserPool({}, { size: 1, maxContextsPerBrowser: 1, acquireTimeout: 20 });
+    await pool.start();
+    await pool.acquire();
+
+    await expect(pool.acquire()).rejects.toThrow('Timed out after 20ms waiting for a browser from the pool');
+    expect(pool.getMetrics().waiting).toBe(0);
+  });
+
+  it('should replace a crashed browser and keep serving leases', async () => {
+    pool = new BrowserPool({}, { size: 1, maxContextsPerBrowser: 1 });
+    await pool.start();
+    const lease = await pool.acquire();
+
+    mockLaunched[0].crash();
+    await flush();
+    expect(mockLaunched).toHaveLength(2);
+    expect(pool.getMetrics()).toMatchObject({ crashes: 1, browsers: 1, availableSlots: 1 });
+
+    // 崩溃浏览器上的租用归还时不影响新的浏览器
+    await lease.release();
+    const next = await pool.acquire();
+    expect((next.session as any).browser).toBe(mockLaunched[1]);
+    expect(pool.getMetrics()).toMatchObject({ activeLeases: 1, browsersRecycled: 0 });
+  });
+
+  it('should reject browser-level overrides that differ from the pool', async () => {
+    pool = new BrowserPool({ browserType: 'chromium', headless: true }, { size: 1 });
+    await pool.start();
+
+    await expect(pool.acquire({ browserType: 'firefox', headless: false }))
+      .rejects.toThrow('cannot override browser-level options: browserType, headless');
+    await expect(pool.acquire({ userDataDir: '/tmp/profile' })).rejects.toThrow('cannot use userDataDir');
+    expect(pool.getMetrics().activeLeases).toBe(0);
+
+    const lease = await pool.acquire({ browserType: 'chromium', device: 'iPhone 13' });
+    expect((lease.session as any).profile).toMatchObject({ browserType: 'chromium', headless: true, device: 'iPhone 13' });
+  });
+});
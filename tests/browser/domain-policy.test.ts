@@ -0,0 +1,41 @@
+import { DomainNotAllowedError, DomainPolicy } from '../../src/browser/domain-policy';
+
+describe('DomainPolicy', () => {
+  it('should allow everything when no rules are set', () => {
+    const policy = new DomainPolicy();
+    expect(policy.isActive()).toBe(false);
+    expect(policy.isAllowed('https://anywhere.example')).toBe(true);
+  });
+
+  it('should match subdomains of allowed domains', () => {
+    const policy = new DomainPolicy(['example.com', 'https://docs.test.org/path']);
+    expect(policy.isAllowed('https://example.com/login')).toBe(true);
+    expect(policy.isAllowed('https://shop.example.com')).toBe(true);
+    expect(policy.isAllowed('https://docs.test.org')).toBe(true);
+    expect(policy.isAllowed('https://notexample.com')).toBe(false);
+  });
+
+  it('should only match subdomains for wildcard rules', () => {
+    const policy = new DomainPolicy(['*.example.com']);
+    expect(policy.isAllowed('https://a.example.com')).toBe(true);
+    expect(policy.isAllowed('https://example.com')).toBe(false);
+  });
+
+  it('should give the blocklist priority over the allowlist', () => {
+    const policy = new DomainPolicy(['example.com'], ['ads.example.com']);
+    expect(policy.getBlockReason('https://ads.example.com/x')).toContain('is blocked');
+    expect(policy.isExplicitlyBlocked('https://ads.example.com/x')).toBe(true);
+    expect(policy.isExplicitlyBlocked('https://other.org')).toBe(false);
+  });
+
+  it('should reject non-network protocols only when an allowlist is set', () => {
+    expect(new DomainPolicy(['example.com']).isAllowed('file:///etc/passwd')).toBe(false);
+    expect(new DomainPolicy([], ['ads.com']).isAllowed('file:///etc/passwd')).toBe(true);
+    expect(new DomainPolicy(['example.com']).isAllowed('about:blank')).toBe(true);
+  });
+
+  it('should throw DomainNotAllowedError from assertAllowed', () => {
+    const policy = new DomainPolicy(['example.com']);
+    expect(() => policy.assertAllowed('https://evil.test')).toThrow(DomainNotAllowedError);
+  });
+});
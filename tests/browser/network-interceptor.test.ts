@@ -0,0 +1,73 @@
+import { NetworkInterceptor } from '../../src/browser/network-interceptor';
+
+describe('NetworkInterceptor', () => {
+  describe('matchesUrl', () => {
+    it('should match plain patterns as substrings', () => {
+      expect(NetworkInterceptor.matchesUrl('https://api.example.com/v1/users', '/v1/users')).toBe(true);
+      expect(NetworkInterceptor.matchesUrl('https://api.example.com/v2/users', '/v1/users')).toBe(false);
+    });
+
+    it('should keep * within one path segment and let ** cross segments', () => {
+      expect(NetworkInterceptor.matchesUrl('https://example.com/api/users', 'https://example.com/api/*')).toBe(true);
+      expect(NetworkInterceptor.matchesUrl('https://example.com/api/users/1', 'https://example.com/api/*')).toBe(false);
+      expect(NetworkInterceptor.matchesUrl('https://example.com/api/users/1', 'https://example.com/**')).toBe(true);
+      expect(NetworkInterceptor.matchesUrl('https://example.com/a.png?x=1', '**/*.png')).toBe(false);
+    });
+
+    it('should treat /source/flags as a regular expression', () => {
+      expect(NetworkInterceptor.matchesUrl('https://example.com/IMG.PNG', '/\\.png$/i')).toBe(true);
+      expect(NetworkInterceptor.matchesUrl('https://example.com/img.png', '/\\.jpg$/')).toBe(false);
+    });
+  });
+
+  describe('applyHeaders', () => {
+    it('should replace and delete headers case-insensitively', () => {
+      const headers = NetworkInterceptor.applyHeaders(
+        { 'User-Agent': 'old', 'X-Debug': '1', Accept: '*/*' },
+        { 'user-agent': 'new', 'x-debug': null }
+      );
+      expect(headers).toEqual({ 'user-agent': 'new', Accept: '*/*' });
+    });
+  });
+
+  describe('findRule', () => {
+    it('should return the first matching rule in the order they were added', () => {
+      const interceptor = new NetworkInterceptor([
+        { name: 'mock-users', urlPattern: '/api/users', methods: ['get'], action: 'fulfill', json: [] },
+        { name: 'block-api', urlPattern: '/api/', action: 'block' },
+      ]);
+
+      expect(interceptor.findRule('https://example.com/api/users', 'fetch', 'GET')?.name).toBe('mock-users');
+      expect(interceptor.findRule('https://example.com/api/users', 'fetch', 'POST')?.name).toBe('block-api');
+      expect(interceptor.findRule('https://example.com/home', 'document', 'GET')).toBeUndefined();
+    });
+
+    it('should match resource types after ad and tracker hosts', () => {
+      const interceptor = new NetworkInterceptor([], { blockResourceTypes: ['image'], blockAdsAndTrackers: true });
+
+      expect(interceptor.findRule('https://www.google-analytics.com/collect', 'image', 'GET')?.name).toBe('ads-and-trackers');
+      expect(interceptor.findRule('https://example.com/logo.png', 'image', 'GET')?.name).toBe('blocked-resource-types');
+    });
+
+    it('should match ad and tracker rules against the request host', () => {
+      const interceptor = new NetworkInterceptor([], { blockAdsAndTrackers: true });
+      const block = (url: string) => interceptor.findRule(url, 'script', 'GET')?.name === 'ads-and-trackers';
+
+      expect(block('https://static.hotjar.com/c/hotjar.js')).toBe(true);
+      expect(block('https://cdn.segment.com/analytics.js')).toBe(true);
+      expect(block('https://www.facebook.com/tr?id=1')).toBe(true);
+      expect(block('https://adservice.google.co.uk/ddm')).toBe(true);
+      expect(block('https://www.google.com/search?q=segment.io')).toBe(false);
+      expect(block('https://facebook.com/travel')).toBe(false);
+      expect(block('https://example.com/?ref=hotjar.com')).toBe(false);
+      expect(block('https://nothotjar.com/')).toBe(false);
+    });
+
+    it('should never block main-frame navigations as ads or trackers', () => {
+      const interceptor = new NetworkInterceptor([], { blockAdsAndTrackers: true });
+
+      expect(interceptor.findRule('https://www.hotjar.com/', 'document', 'GET', true)).toBeUndefined();
+      expect(interceptor.findRule('https://www.hotjar.com/', 'document', 'GET')?.name).toBe('ads-and-trackers');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import {
+  CommandRunner,
+  PosixProcessPlatform,
+  WindowsProcessPlatform,
+  createProcessPlatform,
+  findDefaultBrowserPath,
+} from '../../src/browser/process-platform';
+
+interface FakeProcess {
+  pid: number;
+  comm: string;
+  port?: number;
+}
+
+/**
+ * 假的进程表：按命令文本模拟 ps / ss / lsof / kill / tasklist / netstat / taskkill 的输出
+ */
+function createFakeRunner(table: FakeProcess[], options: { hasSs?: boolean } = {}) {
+  const commands: string[] = [];
+
+  const run: CommandRunner = (command) => {
+    commands.push(command);
+
+    if (command === 'ps -A -o pid= -o comm=') {
+      return table.map(p => `${String(p.pid).padStart(7)} ${p.comm}`).join('\n') + '\n';
+    }
+
+    let match = /^ss -ltnpH "sport = :(\d+)"$/.exec(command);
+    if (match) {
+      if (options.hasSs === false) throw new Error('ss: command not found');
+      const port = parseInt(match[1], 10);
+      return table
+        .filter(p => p.port === port)
+        .map(p => `LISTEN 0 10 127.0.0.1:${port} 0.0.0.0:* users:(("${p.comm}",pid=${p.pid},fd=55))`)
+        .join('\n');
+    }
+
+    match = /^lsof -nP -iTCP:(\d+) -sTCP:LISTEN -t$/.exec(command);
+    if (match) {
+      const port = parseInt(match[1], 10);
+      const owners = table.filter(p => p.port === port);
+      if (owners.length === 0) throw new Error('lsof exited with code 1');
+      return owners.map(p => p.pid).join('\n') + '\n';
+    }
+
+    match = /^(?:kill -9|taskkill \/PID) (\d+)/.exec(command);
+    if (match) {
+      const index = table.findIndex(p => p.pid === parseInt(match![1], 10));
+      if (index === -1) throw new Error('No such process');
+      table.splice(index, 1);
+      return '';
+    }
+
+    match = /^tasklist \/FI "IMAGENAME eq (.+)" \/FO CSV \/NH$/.exec(command);
+    if (match) {
+      const owners = table.filter(p => p.comm.toLowerCase() === match![1].toLowerCase());
+      if (owners.length === 0) return 'INFO: No tasks are running which match the specified criteria.\r\n';
+      return owners.map(p => `"${p.comm}","${p.pid}","Console","1","120,000 K"`).join('\r\n') + '\r\n';
+    }
+
+    match = /^netstat -ano -p TCP \| findstr :(\d+)$/.exec(command);
+    if (match) {
+      const port = parseInt(match[1], 10);
+      const rows = table
+        .filter(p => p.port === port)
+        .map(p => `  TCP    127.0.0.1:${port}         0.0.0.0:0              LISTENING       ${p.pid}`);
+      // 连接到该端口的客户端不算占用者
+      rows.push(`  TCP    127.0.0.1:51234        127.0.0.1:${port}         ESTABLISHED     4242`);
+      return rows.join('\r\n');
+    }
+
+    throw new Error(`Unexpected command: ${command}`);
+  };
+
+  return { run, commands };
+}
+
+describe('PosixProcessPlatform', () => {
+  let table: FakeProcess[];
+
+  beforeEach(() => {
+    table = [
+      { pid: 101, comm: 'chrome', port: 9222 },
+      { pid: 102, comm: 'chrome' },
+      { pid: 200, comm: 'chromium-browse' },   // Linux 把 comm 截断为15个字符
+      { pid: 300, comm: 'node' },
+      { pid: process.pid, comm: 'chrome' },
+    ];
+  });
+
+  describe('getProcessNames', () => {
+    it('should map google-chrome launcher to chrome process', () => {
+      const platform = new PosixProcessPlatform('linux', createFakeRunner(table).run);
+      const names = platform.getProcessNames('/usr/bin/google-chrome');
+      expect(names).toContain('google-chrome');
+      expect(names).toContain('chrome');
+    });
+
+    it('should map macOS app bundle to its process name', () => {
+      const platform = new PosixProcessPlatform('darwin', createFakeRunner(table).run);
+      const names = platform.getProcessNames('/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge');
+      expect(names).toEqual(['Microsoft Edge']);
+    });
+  });
+
+  describe('listProcesses', () => {
+    it('should find matching processes and never include itself', () => {
+      const platform = new PosixProcessPlatform('linux', createFakeRunner(table).run);
+      const processes = platform.listProcesses(['chrome']);
+      expect(processes.map(p => p.pid)).toEqual([101, 102]);
+    });
+
+    it('should match names truncated by the kernel', () => {
+      const platform = new PosixProcessPlatform('linux', createFakeRunner(table).run);
+      const processes = platform.listProcesses(platform.getProcessNames('/usr/bin/chromium-browser'));
+      expect(processes).toEqual([{ pid: 200, name: 'chromium-browse' }]);
+    });
+
+    it('should match full macOS executable paths', () => {
+      table.push({ pid: 400, comm: '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome' });
+      const platform = new PosixProcessPlatform('darwin', createFakeRunner(table).run);
+      const processes = platform.listProcesses(['Google Chrome']);
+      expect(processes).toEqual([{ pid: 400, name: 'Google Chrome' }]);
+    });
+  });
+
+  describe('findPortOwners', () => {
+    it('should use ss on Linux', () => {
+      const fake = createFakeRunner(table);
+      const platform = new PosixProcessPlatform('linux', fake.run);
+      expect(platform.findPortOwners(9222)).toEqual([101]);
+      expect(fake.commands.some(c => c.startsWith('lsof'))).toBe(false);
+    });
+
+    it('should fall back to lsof when ss is unavailable', () => {
+      const platform = new PosixProcessPlatform('linux', createFakeRunner(table, { hasSs: false }).run);
+      expect(platform.findPortOwners(9222)).toEqual([101]);
+    });
+
+    it('should use lsof on macOS', () => {
+      const fake = createFakeRunner(table);
+      const platform = new PosixProcessPlatform('darwin', fake.run);
+      expect(platform.findPortOwners(9222)).toEqual([101]);
+      expect(fake.commands.some(c => c.startsWith('ss '))).toBe(false);
+    });
+
+    it('should return an empty list for a free port', () => {
+      const platform = new PosixProcessPlatform('linux', createFakeRunner(table).run);
+      expect(platform.findPortOwners(9333)).toEqual([]);
+    });
+  });
+
+  describe('killProcess', () => {
+    it('should remove the process from the table', () => {
+      const platform = new PosixProcessPlatform('linux', createFakeRunner(table).run);
+      expect(platform.killProcess(101)).toBe(true);
+      expect(platform.listProcesses(['chrome']).map(p => p.pid)).toEqual([102]);
+    });
+
+    it('should return false for a missing process', () => {
+      const platform = new PosixProcessPlatform('linux', createFakeRunner(table).run);
+      expect(platform.killProcess(999)).toBe(false);
+    });
+  });
+});
+
+describe('WindowsProcessPlatform', () => {
+  let table: FakeProcess[];
+
+  beforeEach(() => {
+    table = [
+      { pid: 1100, comm: 'msedge.exe', port: 9222 },
+      { pid: 1101, comm: 'msedge.exe' },
+      { pid: 1200, comm: 'explorer.exe' },
+    ];
+  });
+
+  it('should parse tasklist output', () => {
+    const platform = new WindowsProcessPlatform(createFakeRunner(table).run);
+    const names = platform.getProcessNames('C:\\Program Files\\Microsoft\\Edge\\Application\\msedge.exe');
+    expect(names).toEqual(['msedge.exe']);
+    expect(platform.listProcesses(names).map(p => p.pid)).toEqual([1100, 1101]);
+  });
+
+  it('should return an empty list when tasklist finds nothing', () => {
+    const platform = new WindowsProcessPlatform(createFakeRunner(table).run);
+    expect(platform.listProcesses(['chrome.exe'])).toEqual([]);
+  });
+
+  it('should only report listening owners of the port', () => {
+    const platform = new WindowsProcessPlatform(createFakeRunner(table).run);
+    expect(platform.findPortOwners(9222)).toEqual([1100]);
+  });
+
+  it('should kill processes with taskkill', () => {
+    const platform = new WindowsProcessPlatform(createFakeRunner(table).run);
+    expect(platform.killProcess(1100)).toBe(true);
+    expect(table.map(p => p.pid)).toEqual([1101, 1200]);
+  });
+});
+
+describe('createProcessPlatform', () => {
+  it('should pick the implementation for each platform', () => {
+    expect(createProcessPlatform('win32').name).toBe('windows');
+    expect(createProcessPlatform('linux').name).toBe('linux');
+    expect(createProcessPlatform('darwin').name).toBe('darwin');
+    expect(createProcessPlatform('freebsd').name).toBe('linux');
+  });
+});
+
+describe('findDefaultBrowserPath', () => {
+  it('should return the first existing browser', () => {
+    const platform = createProcessPlatform('linux');
+    const installed = new Set(['/usr/bin/chromium']);
+    expect(findDefaultBrowserPath(platform, p => installed.has(p))).toBe('/usr/bin/chromium');
+  });
+
+  it('should fall back to the preferred path when nothing is installed', () => {
+    const platform = createProcessPlatform('darwin');
+    expect(findDefaultBrowserPath(platform, () => false)).toBe('/Applications/Google Chrome.app/Contents/MacOS/Google Chrome');
+  });
+});
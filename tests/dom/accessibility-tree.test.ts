@@ -0,0 +1,57 @@
+import { formatAccessibilityStates, parseAriaSnapshot } from '../../src/dom/accessibility-tree';
+
+const SNAPSHOT = [
+  '- banner:',
+  '  - heading "商品列表" [level=1]',
+  '  - navigation:',
+  '    - link "首页":',
+  '      - /url: /',
+  '- checkbox "记住我" [checked]',
+  '- checkbox "全选" [checked=mixed] [disabled]',
+  '- textbox "邮箱": user@example.com',
+  '- button "Save: draft"',
+  `- 'button "It''s: done"'`,
+  '- combobox "城市" [expanded]:',
+  '  - option "北京" [selected]',
+  '- text: "Total: 3"',
+].join('\n');
+
+describe('parseAriaSnapshot', () => {
+  const nodes = parseAriaSnapshot(SNAPSHOT);
+
+  it('should parse roles, names and depth', () => {
+    expect(nodes.map(n => n.role)).toEqual([
+      'banner', 'heading', 'navigation', 'link', 'checkbox', 'checkbox',
+      'textbox', 'button', 'button', 'combobox', 'option', 'text',
+    ]);
+    expect(nodes[1]).toMatchObject({ name: '商品列表', depth: 1, states: { level: 1 } });
+    expect(nodes[3].depth).toBe(2);
+  });
+
+  it('should attach /url to the parent link', () => {
+    expect(nodes[3]).toMatchObject({ role: 'link', name: '首页', url: '/' });
+  });
+
+  it('should parse boolean and valued states', () => {
+    expect(nodes[4].states).toEqual({ checked: true });
+    expect(nodes[5].states).toEqual({ checked: 'mixed', disabled: true });
+    expect(nodes[9].states).toEqual({ expanded: true });
+  });
+
+  it('should read inline values and quoted keys', () => {
+    expect(nodes[6]).toMatchObject({ role: 'textbox', name: '邮箱', value: 'user@example.com' });
+    expect(nodes[7].name).toBe('Save: draft');
+    expect(nodes[8].name).toBe("It's: done");
+    expect(nodes[11].value).toBe('Total: 3');
+  });
+
+  it('should return an empty list for an empty snapshot', () => {
+    expect(parseAriaSnapshot('')).toEqual([]);
+  });
+});
+
+describe('formatAccessibilityStates', () => {
+  it('should skip false states', () => {
+    expect(formatAccessibilityStates({ checked: true, expanded: false, level: 2 })).toBe('checked level=2');
+  });
+});
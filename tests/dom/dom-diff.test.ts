@@ -0,0 +1,56 @@
+import { diffDOMStates, formatDOMDiff } from '../../src/dom/dom-diff';
+import { DOMElement, DOMState } from '../../src/types';
+
+function element(index: number, tag: string, text: string, attributes: Record<string, string> = {}): DOMElement {
+  return { index, tag, text, attributes, xpath: '', isClickable: true, isVisible: true };
+}
+
+function state(elements: DOMElement[], url: string = 'https://example.com/app'): DOMState {
+  return { elements, url, title: 'App' };
+}
+
+describe('diffDOMStates', () => {
+  it('should report added, removed, changed and unchanged elements', () => {
+    const previous = state([
+      element(0, 'button', '关闭'),
+      element(1, 'input', '', { name: 'q', value: '' }),
+      element(2, 'a', '下一页'),
+    ]);
+    const current = state([
+      element(0, 'input', '', { name: 'q', value: 'playwright' }),
+      element(1, 'a', '下一页'),
+      element(2, 'li', '建议: playwright test'),
+    ]);
+
+    const diff = diffDOMStates(previous, current)!;
+    expect(diff.added.map(e => e.text)).toEqual(['建议: playwright test']);
+    expect(diff.removed.map(e => e.text)).toEqual(['关闭']);
+    expect(diff.changed).toEqual([{ element: current.elements[0], previousIndex: 1, changes: ['value'] }]);
+    expect(diff.unchanged).toEqual([current.elements[1]]);
+  });
+
+  it('should return null after navigation', () => {
+    expect(diffDOMStates(state([]), state([], 'https://example.com/other'))).toBeNull();
+  });
+
+  it('should pair elements by stable id when available', () => {
+    const previous = state([{ ...element(0, 'button', '提交'), stableId: 'e1' }]);
+    const current = state([{ ...element(0, 'button', '提交'), stableId: 'e2' }]);
+
+    const diff = diffDOMStates(previous, current)!;
+    expect(diff.added).toHaveLength(1);
+    expect(diff.removed).toHaveLength(1);
+  });
+});
+
+describe('formatDOMDiff', () => {
+  it('should list unchanged elements compactly and changed elements in full', () => {
+    const previous = state([element(0, 'button', '保存'), element(1, 'span', '0 条')]);
+    const current = state([element(0, 'button', '保存'), element(1, 'span', '3 条')]);
+
+    const text = formatDOMDiff(diffDOMStates(previous, current)!, elements => elements.map(e => `FULL[${e.index}]`).join('\n'));
+    expect(text).toContain('0 new, 1 changed, 0 removed, 1 unchanged');
+    expect(text).toContain('FULL[1] (changed: text)');
+    expect(text).toContain('[0] <button> "保存"');
+  });
+});
@@ -0,0 +1,81 @@
+import { ElementIdentityMap, computeFingerprint, resolveFingerprint } from '../../src/dom/element-identity';
+import { DOMElement } from '../../src/types';
+
+function element(index: number, tag: string, text: string, xpath: string, attributes: Record<string, string> = {}): DOMElement {
+  return { index, tag, text, xpath, attributes, isClickable: true, isVisible: true };
+}
+
+describe('computeFingerprint', () => {
+  it('should infer role and name and keep ancestry without positions', () => {
+    const fingerprint = computeFingerprint(element(3, 'input', '', 'html/body/div[2]/form/label[1]/input', { type: 'search', placeholder: '搜索' }));
+    expect(fingerprint).toMatchObject({ role: 'searchbox', name: '搜索', ancestry: 'div>form>label' });
+  });
+
+  it('should not depend on the index or the value', () => {
+    const a = computeFingerprint(element(1, 'input', '', 'html/body/form/input', { name: 'q', value: 'a' }));
+    const b = computeFingerprint(element(7, 'input', '', 'html/body/form/input', { name: 'q', value: 'b' }));
+    expect(a).toEqual(b);
+  });
+});
+
+describe('resolveFingerprint', () => {
+  const rows = [
+    element(0, 'button', '删除', 'html/body/ul/li[1]/button'),
+    element(1, 'button', '删除', 'html/body/ul/li[2]/button'),
+    element(2, 'a', '帮助', 'html/body/footer/a', { href: '/help' }),
+  ];
+
+  it('should resolve a unique element after indices shift', () => {
+    const target = computeFingerprint(rows[2]);
+    const rerendered = [element(0, 'div', '提示', 'html/body/div'), ...rows.map(e => ({ ...e, index: e.index + 1 }))];
+    expect(resolveFingerprint(target, rerendered)?.index).toBe(3);
+  });
+
+  it('should use the position to tell identical elements apart', () => {
+    expect(resolveFingerprint(computeFingerprint(rows[1]), rows)).toBe(rows[1]);
+  });
+
+  it('should refuse to guess when the element is ambiguous', () => {
+    const target = computeFingerprint(element(0, 'button', '删除', 'html/body/ul/li[9]/button'));
+    expect(resolveFingerprint(target, rows)).toBeUndefined();
+  });
+});
+
+describe('ElementIdentityMap', () => {
+  it('should keep stable ids across snapshots and reset after navigation', () => {
+    const identity = new ElementIdentityMap();
+    const first = [element(0, 'button', '登录', 'html/body/button')];
+    identity.update(first);
+    const second = [element(0, 'a', '新功能', 'html/body/a', { href: '/new' }), element(1, 'button', '登录', 'html/body/button')];
+    identity.update(second);
+
+    expect(second[1].stableId).toBe(first[0].stableId);
+    expect(identity.get(first[0].stableId!)).toBe(second[1]);
+    expect(identity.resolve(first[0].fingerprint!)?.index).toBe(1);
+
+    identity.reset();
+    const third = [element(0, 'button', '登录', 'html/body/button')];
+    identity.update(third);
+    expect(third[0].stableId).not.toBe(first[0].stableId);
+  });
+
+  it('should keep ids for the same elements when indices shift', () => {
+    const identity = new ElementIdentityMap();
+    identity.update([element(0, 'button', '保存', ''), element(1, 'a', '设置', '', { href: '/settings' })]);
+
+    const current = [element(0, 'div', '新消息', ''), element(1, 'button', '保存', ''), element(2, 'a', '设置', '', { href: '/settings' })];
+    identity.update(current);
+
+    expect(current.map(e => e.stableId)).toEqual(['e3', 'e1', 'e2']);
+  });
+
+  it('should match elements whose text changed', () => {
+    const identity = new ElementIdentityMap();
+    const previous = [element(0, 'button', '购物车 (1)', '', { id: 'cart' })];
+    identity.update(previous);
+    const current = [element(0, 'button', '购物车 (2)', '', { id: 'cart' })];
+    identity.update(current);
+
+    expect(current[0].stableId).toBe(previous[0].stableId);
+  });
+});
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RunHistoryService } from '../../src/history/service';
+import { Action, AgentHistory } from '../../src/types';
+
+function history(actions: Action[], startTime: Date, success: boolean = true): AgentHistory {
+  return {
+    task: '搜索商品',
+    steps: actions.map((action, i) => ({
+      stepNumber: i + 1,
+      action,
+      result: { success: true },
+      domState: { elements: [], url: 'https://example.com', title: 'Example', screenshot: 'base64data' },
+      timestamp: new Date(startTime.getTime() + i * 1000),
+    })),
+    completed: true,
+    success,
+    totalDuration: actions.length,
+    startTime,
+    metadata: { agentId: 'a', sessionId: 's', llmProvider: 'openai', llmModel: 'gpt-4o', browserProfile: {}, agentSettings: {} },
+  };
+}
+
+describe('RunHistoryService', () => {
+  let baseDir: string;
+  let service: RunHistoryService;
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runs-'));
+    service = new RunHistoryService(baseDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should save and load a run without inline screenshots', () => {
+    const runId = service.createRun();
+    service.saveHistory(runId, history([{ type: 'navigate', url: 'https://example.com' }], new Date('2024-01-01T00:00:00Z')));
+
+    const loaded = service.loadRun(runId);
+    expect(loaded.startTime).toBeInstanceOf(Date);
+    expect(loaded.steps[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded.steps[0].domState?.screenshot).toBeUndefined();
+  });
+
+  it('should find the first step where two runs diverge', () => {
+    const start = new Date('2024-01-01T00:00:00Z');
+    const a = service.createRun();
+    service.saveHistory(a, history([{ type: 'navigate', url: 'https://example.com' }, { type: 'click', index: 1 }], start));
+    const b = service.createRun();
+    service.saveHistory(b, history([{ type: 'navigate', url: 'https://example.com' }, { type: 'click', index: 2 }], start));
+
+    const diff = service.diffRuns(a, b);
+    expect(diff.firstDivergentStep).toBe(2);
+    expect(diff.steps[1]).toMatchObject({ a: 'click [1] -> ok', b: 'click [2] -> ok', same: false });
+  });
+
+  it('should keep only the newest runs when pruning', () => {
+    const ids = [0, 1, 2].map(day => {
+      const runId = service.createRun();
+      service.saveHistory(runId, history([{ type: 'wait', seconds: 1 }], new Date(Date.UTC(2024, 0, day + 1))));
+      return runId;
+    });
+
+    expect(service.pruneRuns({ keep: 1 }).sort()).toEqual([ids[0], ids[1]].sort());
+    expect(service.listRuns().map(run => run.runId)).toEqual([ids[2]]);
+  });
+});
@@ -0,0 +1,136 @@
+import { PassThrough } from 'stream';
+import { McpServer } from '../../src/mcp/service';
+
+const mockController = {
+  executeAction: jest.fn(),
+  takeScreenshot: jest.fn(),
+  getCurrentState: jest.fn(),
+};
+
+jest.mock('../../src/controller/service', () => ({
+  Controller: jest.fn(() => mockController),
+}));
+
+const createSession = () => ({
+  isStarted: jest.fn(() => false),
+  start: jest.fn(async () => {}),
+  close: jest.fn(async () => {}),
+  isEnhancedModeEnabled: jest.fn(() => false),
+  enableEnhancedMode: jest.fn(async () => {}),
+  getAllTabsInfo: jest.fn(() => []),
+  getCurrentTabIndex: jest.fn(() => 0),
+  getTabCount: jest.fn(() => 1),
+});
+
+describe('McpServer', () => {
+  let session: ReturnType<typeof createSession>;
+  let server: McpServer;
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    session = createSession();
+    server = new McpServer(session as any, { input: new PassThrough(), output: new PassThrough() });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    consoleSpy.mockRestore();
+  });
+
+  const request = (method: string, params?: any, id: number = 1) =>
+    server.handleMessage({ jsonrpc: '2.0', id, method, params });
+
+  describe('initialize', () => {
+    it('should echo a supported protocol version', async () => {
+      const response = await request('initialize', { protocolVersion: '2025-03-26' });
+
+      expect(response.result.protocolVersion).toBe('2025-03-26');
+      expect(response.result.capabilities).toEqual({ tools: {}, resources: {} });
+    });
+
+    it('should answer with the latest version when the requested one is unsupported', async () => {
+      const response = await request('initialize', { protocolVersion: '1999-01-01' });
+
+      expect(response.result.protocolVersion).toBe('2025-06-18');
+    });
+  });
+
+  it('should list tools without their internal action mapping', async () => {
+    const response = await request('tools/list');
+    const names = response.result.tools.map((tool: any) => tool.name);
+
+    expect(names).toEqual(expect.arrayContaining(['browser_get_state', 'browser_navigate', 'browser_click', 'browser_screenshot']));
+    for (const tool of response.result.tools) {
+      expect(Object.keys(tool).sort()).toEqual(['description', 'inputSchema', 'name']);
+    }
+  });
+
+  it('should run tool calls through the controller and start the browser lazily', async () => {
+    mockController.executeAction.mockResolvedValue({ success: true, message: 'Navigated' });
+
+    const response = await request('tools/call', { name: 'browser_navigate', arguments: { url: 'https://example.com' } });
+
+    expect(session.start).toHaveBeenCalledTimes(1);
+    expect(session.enableEnhancedMode).toHaveBeenCalledTimes(1);
+    expect(mockController.executeAction).toHaveBeenCalledWith({ type: 'navigate', url: 'https://example.com' });
+    expect(response.result).toEqual({ content: [{ type: 'text', text: 'Navigated' }], isError: false });
+  });
+
+  it('should report failing tools as results and redact secrets from them', async () => {
+    await server.close();
+    server = new McpServer(session as any, { input: new PassThrough(), output: new PassThrough(), secrets: { password: 'hunter2' } });
+    mockController.executeAction.mockRejectedValue(new Error('Could not type hunter2'));
+
+    const response = await request('tools/call', { name: 'browser_type', arguments: { index: 1, text: '{{secret:password}}' } });
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.isError).toBe(true);
+    expect(response.result.content[0].text).toContain('Error: Could not type');
+    expect(response.result.content[0].text).not.toContain('hunter2');
+  });
+
+  it('should answer unknown tools and resources with INVALID_PARAMS', async () => {
+    const tool = await request('tools/call', { name: 'browser_fly', arguments: {} });
+    expect(tool.error).toEqual({ code: -32602, message: 'Unknown tool: browser_fly' });
+
+    const resource = await request('resources/read', { uri: 'sentra://nope' });
+    expect(resource.error.code).toBe(-32602);
+  });
+
+  it('should answer unknown methods with METHOD_NOT_FOUND and malformed messages with INVALID_REQUEST', async () => {
+    expect((await request('tools/destroy')).error.code).toBe(-32601);
+    expect((await server.handleMessage({ id: 2, method: 'ping' })).error.code).toBe(-32600);
+  });
+
+  it('should not answer notifications, even when they fail', async () => {
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'unknown/notification' })).toBeNull();
+  });
+
+  describe('stdio transport', () => {
+    it('should answer parse errors and requests line by line, skipping notifications', async () => {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      await server.close();
+      server = new McpServer(session as any, { input, output });
+
+      const lines: any[] = [];
+      output.on('data', chunk => lines.push(...chunk.toString().trim().split('\n').map((line: string) => JSON.parse(line))));
+
+      const listening = server.listen();
+      input.write('{not json\n');
+      input.write(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n');
+      input.write(JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'ping' }) + '\n');
+      input.end();
+      await listening;
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(lines).toEqual([
+        { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+        { jsonrpc: '2.0', id: 7, result: {} },
+      ]);
+    });
+  });
+});
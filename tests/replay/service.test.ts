@@ -0,0 +1,145 @@
+import { Replayer } from '../../src/replay/service';
+import { Action, AgentHistory, AgentStep, DOMElement, DOMState } from '../../src/types';
+
+const mockController = {
+  getCurrentState: jest.fn(),
+  executeAction: jest.fn(),
+};
+
+jest.mock('../../src/controller/service', () => ({
+  Controller: jest.fn().mockImplementation(() => mockController),
+}));
+
+function button(index: number, text: string, xpath: string): DOMElement {
+  return { index, tag: 'button', text, attributes: {}, xpath, isClickable: true, isVisible: true };
+}
+
+function state(elements: DOMElement[]): DOMState {
+  return { url: 'https://shop.example', title: 'Shop', elements };
+}
+
+function step(stepNumber: number, action: Action, targetElement?: DOMElement, success: boolean = true): AgentStep {
+  return { stepNumber, action, targetElement, result: { success }, timestamp: new Date() };
+}
+
+function history(steps: AgentStep[]): AgentHistory {
+  return {
+    task: '购买商品',
+    steps,
+    completed: true,
+    success: true,
+    totalDuration: 1,
+    startTime: new Date(),
+    metadata: { agentId: 'a', sessionId: 's', llmProvider: 'openai', llmModel: 'gpt-4o', browserProfile: {}, agentSettings: {} },
+  };
+}
+
+describe('Replayer', () => {
+  const buy = button(2, 'Buy', 'html/body/div/button[2]');
+  let domService: { relocateElement: jest.Mock; getFrameScope: jest.Mock };
+  let session: any;
+  let consoleSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockController.getCurrentState.mockReset();
+    mockController.executeAction.mockReset().mockResolvedValue({ success: true });
+    domService = {
+      relocateElement: jest.fn().mockRejectedValue(new Error('Failed to relocate element')),
+      getFrameScope: jest.fn(),
+    };
+    session = {
+      isStarted: () => true,
+      start: jest.fn(),
+      getDOMService: () => domService,
+    };
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  it('should execute the recorded index when the element is still there', async () => {
+    mockController.getCurrentState.mockResolvedValue(state([button(1, 'Home', 'html/body/div/button[1]'), { ...buy }]));
+
+    const result = await new Replayer(session, { stepDelay: 0 }).replay(history([step(1, { type: 'click', index: 2 }, buy)]));
+
+    expect(result.steps[0].mode).toBe('exact');
+    expect(mockController.executeAction).toHaveBeenCalledWith({ type: 'click', index: 2 });
+    expect(result).toMatchObject({ success: true, relocatedCount: 0, llmFallbackCount: 0 });
+  });
+
+  it('should follow the element fingerprint when its index drifted', async () => {
+    mockController.getCurrentState.mockResolvedValue(state([button(1, 'Cookie banner', 'html/body/aside/button'), { ...buy, index: 5 }]));
+
+    const result = await new Replayer(session, { stepDelay: 0 })
+      .replay(history([step(1, { type: 'click', index: 2, xpath: buy.xpath }, buy)]));
+
+    expect(result.steps[0].mode).toBe('relocated');
+    expect(mockController.executeAction).toHaveBeenCalledWith({ type: 'click', index: 5 });
+    expect(result.relocatedCount).toBe(1);
+  });
+
+  it('should map an element found on the page back to its snapshot index', async () => {
+    const handle = { evaluate: jest.fn().mockResolvedValue(7), dispose: jest.fn().mockResolvedValue(undefined) };
+    domService.relocateElement.mockResolvedValue({ elementHandle: jest.fn().mockResolvedValue(handle) });
+    mockController.getCurrentState.mockResolvedValue(state([
+      { ...button(2, 'Sign in', 'html/body/header/a'), tag: 'a' },
+      button(7, 'Buy now', 'html/body/main/section/button'),
+    ]));
+
+    const result = await new Replayer(session, { stepDelay: 0 }).replay(history([step(1, { type: 'click', index: 2 }, buy)]));
+
+    expect(result.steps[0].mode).toBe('relocated');
+    expect(mockController.executeAction).toHaveBeenCalledWith({ type: 'click', index: 7 });
+    // 一次 evaluate 比较所有候选元素的XPath
+    expect(handle.evaluate).toHaveBeenCalledTimes(1);
+    expect(handle.evaluate.mock.calls[0][1]).toEqual([
+      { index: 2, xpath: 'html/body/header/a' },
+      { index: 7, xpath: 'html/body/main/section/button' },
+    ]);
+    expect(handle.dispose).toHaveBeenCalled();
+  });
+
+  it('should ask the LLM when the element cannot be matched', async () => {
+    const llm = { generateAction: jest.fn().mockResolvedValue({ action: { type: 'click', index: 9 } }) };
+    mockController.getCurrentState.mockResolvedValue(state([button(9, 'Checkout', 'html/body/form/button')]));
+
+    const result = await new Replayer(session, { stepDelay: 0, llm: llm as any })
+      .replay(history([step(1, { type: 'click', index: 2 }, buy)]));
+
+    expect(result.steps[0]).toMatchObject({ mode: 'llm', executedAction: { type: 'click', index: 9 } });
+    expect(result.llmFallbackCount).toBe(1);
+  });
+
+  it('should skip steps that failed when recorded and stop at the first failing step', async () => {
+    mockController.getCurrentState.mockResolvedValue(state([]));
+    mockController.executeAction
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, error: 'Navigation timeout' });
+
+    const result = await new Replayer(session, { stepDelay: 0 }).replay(history([
+      step(1, { type: 'click', index: 4 }, undefined, false),
+      step(2, { type: 'navigate', url: 'https://shop.example/cart' }),
+      step(3, { type: 'navigate', url: 'https://shop.example/checkout' }),
+      step(4, { type: 'wait', seconds: 1 }),
+    ]));
+
+    expect(result.steps.map(s => s.mode)).toEqual(['skipped', 'exact', 'failed']);
+    expect(result.steps[2].error).toBe('Navigation timeout');
+    expect(result.success).toBe(false);
+  });
+
+  it('should fail a step without an LLM when the element cannot be matched', async () => {
+    mockController.getCurrentState.mockResolvedValue(state([]));
+
+    const result = await new Replayer(session, { stepDelay: 0, stopOnFailure: false })
+      .replay(history([step(1, { type: 'click', index: 2 }, buy), step(2, { type: 'wait', seconds: 1 })]));
+
+    expect(result.steps.map(s => s.mode)).toEqual(['failed', 'exact']);
+    expect(mockController.executeAction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,27 @@
+import { SecretVault } from '../../src/secrets/service';
+
+describe('SecretVault', () => {
+  const vault = new SecretVault({ password: 'hunter2', api_key: 'sk-hunter2-long' });
+
+  it('should resolve placeholders to real values', () => {
+    expect(vault.resolve('{{secret:password}}')).toBe('hunter2');
+    expect(vault.resolve('key={{ secret:api_key }}')).toBe('key=sk-hunter2-long');
+  });
+
+  it('should throw for unknown secrets', () => {
+    expect(() => vault.resolve('{{secret:missing}}')).toThrow('Unknown secret: missing');
+  });
+
+  it('should redact longer values first', () => {
+    expect(vault.redact('typed sk-hunter2-long and hunter2')).toBe('typed {{secret:api_key}} and {{secret:password}}');
+  });
+
+  it('should redact nested objects without mutating them', () => {
+    const state = { elements: [{ attributes: { value: 'hunter2' } }], timestamp: new Date(0) };
+    const redacted = vault.redactDeep(state);
+
+    expect(redacted.elements[0].attributes.value).toBe('{{secret:password}}');
+    expect(redacted.timestamp).toBe(state.timestamp);
+    expect(state.elements[0].attributes.value).toBe('hunter2');
+  });
+});
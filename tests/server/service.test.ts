@@ -0,0 +1,206 @@
+import { ApiServer } from '../../src/server/service';
+import { RunHistoryService } from '../../src/history/service';
+import { AgentHistory, AgentSettings, ApprovalDecision } from '../../src/types';
+
+// 代理在测试中一直运行，直到被停止或测试主动结束它
+class FakeAgent {
+  static instances: FakeAgent[] = [];
+
+  settings: AgentSettings;
+  stop = jest.fn(async () => this.finish(false));
+  private resolveRun!: (history: AgentHistory) => void;
+  private runPromise = new Promise<AgentHistory>(resolve => { this.resolveRun = resolve; });
+
+  constructor(readonly task: string, _llm: any, _session: any, settings: AgentSettings) {
+    this.settings = settings;
+    FakeAgent.instances.push(this);
+  }
+
+  addStepListener() { return () => {}; }
+  run() { return this.runPromise; }
+  getRunId() { return undefined; }
+  getStepCount() { return 0; }
+  getHistory() { return undefined; }
+
+  finish(success: boolean): void {
+    this.resolveRun({
+      task: this.task,
+      steps: [],
+      completed: true,
+      success,
+      totalDuration: 0,
+      startTime: new Date(),
+      metadata: { agentId: 'a', sessionId: 's', llmProvider: 'openai', llmModel: 'gpt-4o', browserProfile: {}, agentSettings: {} },
+    });
+  }
+}
+
+jest.mock('../../src/agent/service', () => ({ Agent: jest.fn() }));
+jest.mock('../../src/llm/factory', () => ({ LLMFactory: { createAgentLLM: jest.fn(() => ({})) } }));
+jest.mock('../../src/browser/session', () => ({
+  BrowserSession: jest.fn().mockImplementation(() => ({ start: jest.fn(), close: jest.fn() })),
+}));
+
+const { Agent } = jest.requireMock('../../src/agent/service');
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ApiServer', () => {
+  let server: ApiServer;
+  let baseUrl: string;
+  let consoleSpy: jest.SpyInstance;
+
+  const start = async (options: { token?: string; concurrency?: number } = {}) => {
+    server = new ApiServer({ port: 0, llmConfig: {} as any, browserProfile: {}, ...options });
+    const { port } = await server.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  };
+
+  const post = (path: string, body: any) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    FakeAgent.instances = [];
+    Agent.mockImplementation((...args: any[]) => new (FakeAgent as any)(...args));
+  });
+
+  afterEach(async () => {
+    FakeAgent.instances.forEach(agent => agent.finish(true));
+    await server?.stop();
+    consoleSpy.mockRestore();
+    jest.restoreAllMocks();
+  });
+
+  it('should answer 404 for unknown paths and 405 with Allow for other methods', async () => {
+    await start();
+
+    const missing = await fetch(`${baseUrl}/nope`);
+    expect(missing.status).toBe(404);
+
+    const wrongMethod = await fetch(`${baseUrl}/tasks`, { method: 'DELETE' });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('GET, POST');
+  });
+
+  it('should require the API token as a bearer header or query parameter', async () => {
+    await start({ token: 'secret' });
+
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/health`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/health`, { headers: { Authorization: 'Bearer secret' } })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/health?token=secret`)).status).toBe(200);
+  });
+
+  it('should reject invalid and oversized task submissions', async () => {
+    await start();
+
+    expect((await post('/tasks', { task: '  ' })).status).toBe(400);
+    expect((await post('/tasks', '{not json')).status).toBe(400);
+    expect((await post('/tasks', { task: 'x', settings: { maxSteps: -1 } })).status).toBe(400);
+
+    const tooLarge = await post('/tasks', { task: 'x'.repeat(1024 * 1024 + 1) });
+    expect(tooLarge.status).toBe(413);
+  });
+
+  it('should cancel queued tasks immediately and stop running agents', async () => {
+    await start({ concurrency: 1 });
+
+    const running = await (await post('/tasks', { task: 'first' })).json();
+    const queued = await (await post('/tasks', { task: 'second' })).json();
+    await flush();
+    expect(server.getTaskQueue().getTask(running.id)!.status).toBe('running');
+    expect(queued.status).toBe('queued');
+
+    const stoppedQueued = await post(`/tasks/${queued.id}/stop`, {});
+    expect(stoppedQueued.status).toBe(202);
+    expect((await stoppedQueued.json()).status).toBe('stopped');
+    expect(FakeAgent.instances).toHaveLength(1);
+
+    expect((await post(`/tasks/${running.id}/stop`, {})).status).toBe(202);
+    expect(FakeAgent.instances[0].stop).toHaveBeenCalled();
+    await flush();
+    expect(server.getTaskQueue().getTask(running.id)!.status).toBe('stopped');
+
+    expect((await post(`/tasks/${running.id}/stop`, {})).status).toBe(409);
+    expect((await post('/tasks/task_unknown/stop', {})).status).toBe(404);
+  });
+
+  it('should replay events after Last-Event-ID over SSE', async () => {
+    await start();
+    const task = await (await post('/tasks', { task: 'stream me' })).json();
+    await flush();
+
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/tasks/${task.id}/events`, {
+      headers: { 'Last-Event-ID': '1' },
+      signal: controller.signal,
+    });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const reader = response.body!.getReader();
+    let text = '';
+    while (!text.includes('\n\n')) {
+      const { value } = await reader.read();
+      text += Buffer.from(value!).toString('utf-8');
+    }
+    controller.abort();
+
+    // 事件 1（queued）已经收到过，只补发之后的 running
+    expect(text).toMatch(/^id: 2\nevent: status\ndata: .*"running"/);
+    expect(text).not.toContain('id: 1\n');
+  });
+
+  it('should route approval requests of a task through the approvals endpoints', async () => {
+    await start();
+    const task = await (await post('/tasks', { task: 'pay', approval: true })).json();
+    await flush();
+
+    const agent = FakeAgent.instances[0];
+    const decision: Promise<ApprovalDecision> = Promise.resolve(agent.settings.approvalHandler!({
+      id: 'approval_1', task: 'pay', stepNumber: 1, category: 'purchase',
+      action: { type: 'click', index: 1 }, url: 'https://shop.example', reason: 'Pay', timestamp: new Date(),
+    })) as Promise<ApprovalDecision>;
+
+    const pending = await (await fetch(`${baseUrl}/approvals`)).json();
+    expect(pending.approvals).toEqual([expect.objectContaining({ id: 'approval_1', taskId: task.id })]);
+
+    expect((await post('/approvals/approval_1', { approved: 'yes' })).status).toBe(400);
+    expect((await post('/approvals/approval_1', { approved: true })).status).toBe(200);
+    await expect(decision).resolves.toEqual({ approved: true, reason: undefined });
+    expect((await post('/approvals/approval_1', { approved: true })).status).toBe(404);
+  });
+
+  it('should drop an approval from the queue once the agent stops waiting for it', async () => {
+    await start();
+    await post('/tasks', { task: 'pay', approval: true });
+    await flush();
+
+    const controller = new AbortController();
+    const decision = Promise.resolve(FakeAgent.instances[0].settings.approvalHandler!({
+      id: 'approval_2', task: 'pay', stepNumber: 1, category: 'purchase',
+      action: { type: 'click', index: 1 }, url: 'https://shop.example', reason: 'Pay', timestamp: new Date(),
+    }, controller.signal));
+    controller.abort();
+    await decision.catch(() => undefined);
+
+    expect((await (await fetch(`${baseUrl}/approvals`)).json()).approvals).toEqual([]);
+  });
+
+  it('should answer 404 when a screenshot is removed before it can be read', async () => {
+    await start();
+    const task = await (await post('/tasks', { task: 'shoot' })).json();
+    await flush();
+    FakeAgent.instances[0].getRunId = () => 'run_pruned';
+    FakeAgent.instances[0].finish(true);
+    await flush();
+    jest.spyOn(RunHistoryService.prototype, 'getScreenshotPath').mockReturnValue('/nonexistent/run_pruned/step_1.jpg');
+
+    const response = await fetch(`${baseUrl}/tasks/${task.id}/screenshots/1`);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'No screenshot for step 1' });
+  });
+});
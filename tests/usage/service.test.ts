@@ -0,0 +1,91 @@
+import { UsageTracker } from '../../src/usage/service';
+import { TokenUsage } from '../../src/types';
+
+function usage(promptTokens: number, completionTokens: number): TokenUsage {
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+describe('UsageTracker', () => {
+  describe('getPrice', () => {
+    it('should pick the longest matching model prefix', () => {
+      const tracker = new UsageTracker();
+      expect(tracker.getPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+      expect(tracker.getPrice('gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+      expect(tracker.getPrice('gpt-4-0613')).toEqual({ input: 30, output: 60 });
+    });
+
+    it('should ignore provider prefixes and case', () => {
+      const tracker = new UsageTracker();
+      expect(tracker.getPrice('models/gemini-2.5-flash')).toEqual({ input: 0.3, output: 2.5 });
+      expect(tracker.getPrice('openai/GPT-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+    });
+
+    it('should return null for unknown models and let custom prices override defaults', () => {
+      const tracker = new UsageTracker({ 'gpt-4o': { input: 1, output: 2 }, 'qwen-max': { input: 0.4, output: 1.2 } });
+      expect(tracker.getPrice('llama-3-70b')).toBeNull();
+      expect(tracker.getPrice(undefined)).toBeNull();
+      expect(tracker.getPrice('gpt-4o')).toEqual({ input: 1, output: 2 });
+      expect(tracker.getPrice('qwen-max-latest')).toEqual({ input: 0.4, output: 1.2 });
+    });
+  });
+
+  it('should calculate cost per million tokens', () => {
+    expect(UsageTracker.calculateCost(usage(1_000_000, 500_000), { input: 2.5, output: 10 })).toBeCloseTo(7.5);
+    expect(UsageTracker.calculateCost(usage(0, 0), { input: 2.5, output: 10 })).toBe(0);
+  });
+
+  it('should add each call to the total, step, service and endpoint buckets', () => {
+    const tracker = new UsageTracker();
+
+    tracker.setCurrentStep(0);
+    tracker.record({ service: 'planning', usage: usage(1000, 200), model: 'gpt-4o' });
+    tracker.setCurrentStep(1);
+    const cost = tracker.record({ service: 'main', usage: usage(2000, 100), model: 'gpt-4o-mini', endpoint: 'openai-0' });
+    tracker.record({ service: 'main', usage: usage(500, 50), model: 'local-model' });
+
+    expect(cost).toBeCloseTo((2000 * 0.15 + 100 * 0.6) / 1_000_000);
+
+    const summary = tracker.getSummary();
+    expect(summary.total).toMatchObject({ promptTokens: 3500, completionTokens: 350, totalTokens: 3850, requests: 3, unpricedRequests: 1 });
+    expect(summary.byStep['0'].totalTokens).toBe(1200);
+    expect(summary.byStep['1']).toMatchObject({ totalTokens: 2650, requests: 2 });
+    expect(summary.byService.main.requests).toBe(2);
+    expect(Object.keys(summary.byEndpoint).sort()).toEqual(['gpt-4o', 'local-model', 'openai-0']);
+    expect(summary.byEndpoint['local-model'].cost).toBe(0);
+  });
+
+  it('should return copies of the totals', () => {
+    const tracker = new UsageTracker();
+    tracker.record({ service: 'main', usage: usage(10, 10), model: 'gpt-4o' });
+
+    tracker.getSummary().total.totalTokens = 0;
+    tracker.getTotals().totalTokens = 0;
+    expect(tracker.getTotals().totalTokens).toBe(20);
+  });
+
+  describe('getBudgetExceededReason', () => {
+    it('should stop once the token budget is reached', () => {
+      const tracker = new UsageTracker();
+      tracker.record({ service: 'main', usage: usage(900, 100), model: 'gpt-4o' });
+
+      expect(tracker.getBudgetExceededReason({ maxTokens: 1001 })).toBeNull();
+      expect(tracker.getBudgetExceededReason({ maxTokens: 1000 })).toBe('Token budget exceeded: used 1000 of 1000 tokens');
+    });
+
+    it('should stop once the cost budget is reached', () => {
+      const tracker = new UsageTracker();
+      tracker.record({ service: 'main', usage: usage(1_000_000, 0), model: 'gpt-4o' });
+
+      expect(tracker.getBudgetExceededReason({ maxCost: 3 })).toBeNull();
+      expect(tracker.getBudgetExceededReason({ maxCost: 2.5 })).toBe('Cost budget exceeded: spent $2.5000 of $2.5000');
+    });
+
+    it('should ignore unset or non-positive limits', () => {
+      const tracker = new UsageTracker();
+      tracker.record({ service: 'main', usage: usage(1_000_000, 0), model: 'gpt-4o' });
+
+      expect(tracker.getBudgetExceededReason({})).toBeNull();
+      expect(tracker.getBudgetExceededReason({ maxTokens: 0, maxCost: 0 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { logger } from '../../src/utils/logger';
+
+describe('Logger sinks', () => {
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should only deliver lines from the context a sink was added in', async () => {
+    const linesA: string[] = [];
+    const linesB: string[] = [];
+
+    const runTask = (lines: string[], name: string) => logger.runInContext(async () => {
+      const detach = logger.addSink(line => lines.push(line));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      logger.warn(`${name} working`, 'Test');
+      await new Promise(resolve => setTimeout(resolve, 5));
+      detach();
+    });
+
+    await Promise.all([runTask(linesA, 'task-a'), runTask(linesB, 'task-b')]);
+
+    expect(linesA).toHaveLength(1);
+    expect(linesA[0]).toContain('task-a working');
+    expect(linesB).toHaveLength(1);
+    expect(linesB[0]).toContain('task-b working');
+  });
+
+  it('should deliver lines from every context to sinks added outside a context', async () => {
+    const lines: string[] = [];
+    const detach = logger.addSink(line => lines.push(line));
+
+    await logger.runInContext(async () => logger.warn('inside', 'Test'));
+    logger.warn('outside', 'Test');
+    detach();
+
+    expect(lines).toHaveLength(2);
+  });
+});
@@ -145,6 +145,14 @@ describe('Validator', () => {
       };
       expect(() => Validator.validateBrowserProfile(profile)).toThrow(ValidationError);
     });
+
+    it('should throw for an unsupported browser engine', () => {
+      expect(() => Validator.validateBrowserProfile({ browserType: 'safari' as any })).toThrow('Browser type must be one of: chromium, firefox, webkit');
+    });
+
+    it('should throw for an unsupported DOM mode', () => {
+      expect(() => Validator.validateBrowserProfile({ domMode: 'a11y' as any })).toThrow('Browser domMode must be one of: dom, accessibility');
+    });
   });
 
   describe('validateAgentSettings', () => {
@@ -171,6 +179,12 @@ describe('Validator', () => {
       };
       expect(() => Validator.validateAgentSettings(settings)).toThrow(ValidationError);
     });
+
+    it('should throw for an outputSchema that is not a schema object', () => {
+      expect(() => Validator.validateAgentSettings({ outputSchema: [] as any })).toThrow(ValidationError);
+      expect(() => Validator.validateAgentSettings({ outputSchema: 'string' as any })).toThrow(ValidationError);
+      expect(() => Validator.validateAgentSettings({ outputSchema: { type: 'array' } })).not.toThrow();
+    });
   });
 
   describe('isValidUrl', () => {
@@ -186,4 +200,41 @@ describe('Validator', () => {
       expect(Validator.isValidUrl('')).toBe(false);
     });
   });
+
+  describe('validateAgainstSchema', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        title: { type: 'string' as const, minLength: 1 },
+        price: { type: 'number' as const, minimum: 0 },
+        tags: { type: 'array' as const, items: { type: 'string' as const } },
+        currency: { enum: ['USD', 'CNY'] },
+      },
+      required: ['title', 'price'],
+      additionalProperties: false,
+    };
+
+    it('should accept data matching the schema', () => {
+      const data = { title: 'Book', price: 12.5, tags: ['a', 'b'], currency: 'USD' };
+      expect(Validator.validateAgainstSchema(data, schema)).toEqual([]);
+    });
+
+    it('should report missing required properties', () => {
+      expect(Validator.validateAgainstSchema({ title: 'Book' }, schema)).toContain('$.price is required');
+    });
+
+    it('should report nested type errors with their path', () => {
+      const errors = Validator.validateAgainstSchema({ title: 'Book', price: 1, tags: ['a', 2] }, schema);
+      expect(errors).toContain('$.tags[1] must be of type string');
+    });
+
+    it('should reject unknown properties when additionalProperties is false', () => {
+      const errors = Validator.validateAgainstSchema({ title: 'Book', price: 1, extra: true }, schema);
+      expect(errors).toContain('$.extra is not allowed');
+    });
+
+    it('should throw ValidationError from validateOutputData', () => {
+      expect(() => Validator.validateOutputData({ title: '', price: -1 }, schema)).toThrow(ValidationError);
+    });
+  });
 });